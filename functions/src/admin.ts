@@ -1,5 +1,6 @@
-import { onCall } from "firebase-functions/v2/https";
-import { getAuth } from "firebase-admin/auth";
+import { onCall, HttpsError, Request } from "firebase-functions/v2/https";
+import type { Response } from "express";
+import { getAuth, DecodedIdToken } from "firebase-admin/auth";
 import { getFirestore, FieldValue } from "firebase-admin/firestore";
 
 /**
@@ -13,6 +14,8 @@ export enum AdminRole {
   ADMIN = "admin",
   MANAGER = "manager",
   VIEWER = "viewer",
+  // Drivers and guides: only the jobs they are assigned to (see staff.ts)
+  DRIVER = "driver",
 }
 
 // Permission definitions
@@ -23,6 +26,13 @@ export enum Permission {
   DELETE_BOOKINGS = "delete_bookings",
   CONFIRM_BOOKINGS = "confirm_bookings",
 
+  // Jobs assigned to the signed-in driver or guide
+  VIEW_ASSIGNED_JOBS = "view_assigned_jobs",
+  UPDATE_ASSIGNED_JOBS = "update_assigned_jobs",
+
+  // Service catalog, fleet and staff management
+  MANAGE_CATALOG = "manage_catalog",
+
   // Payment management
   VIEW_PAYMENTS = "view_payments",
   PROCESS_PAYMENTS = "process_payments",
@@ -40,12 +50,13 @@ export enum Permission {
 }
 
 // Role-based permissions mapping
-const ROLE_PERMISSIONS: Record<AdminRole, Permission[]> = {
+export const ROLE_PERMISSIONS: Record<AdminRole, Permission[]> = {
   [AdminRole.SUPER_ADMIN]: [
     Permission.VIEW_BOOKINGS,
     Permission.EDIT_BOOKINGS,
     Permission.DELETE_BOOKINGS,
     Permission.CONFIRM_BOOKINGS,
+    Permission.MANAGE_CATALOG,
     Permission.VIEW_PAYMENTS,
     Permission.PROCESS_PAYMENTS,
     Permission.GENERATE_PAYMENT_LINKS,
@@ -60,6 +71,7 @@ const ROLE_PERMISSIONS: Record<AdminRole, Permission[]> = {
     Permission.VIEW_BOOKINGS,
     Permission.EDIT_BOOKINGS,
     Permission.CONFIRM_BOOKINGS,
+    Permission.MANAGE_CATALOG,
     Permission.VIEW_PAYMENTS,
     Permission.PROCESS_PAYMENTS,
     Permission.GENERATE_PAYMENT_LINKS,
@@ -78,6 +90,10 @@ const ROLE_PERMISSIONS: Record<AdminRole, Permission[]> = {
     Permission.VIEW_PAYMENTS,
     Permission.VIEW_ANALYTICS,
   ],
+  [AdminRole.DRIVER]: [
+    Permission.VIEW_ASSIGNED_JOBS,
+    Permission.UPDATE_ASSIGNED_JOBS,
+  ],
 };
 
 /**
@@ -86,25 +102,23 @@ const ROLE_PERMISSIONS: Record<AdminRole, Permission[]> = {
 export const setAdminRole = onCall(async (request) => {
   // Verify the caller is authenticated and has permission to assign roles
   if (!request.auth) {
-    throw new Error("User must be authenticated");
+    throw new HttpsError("unauthenticated", "User must be authenticated");
+  }
+  if (!hasPermission(request.auth.token, Permission.ASSIGN_ROLES)) {
+    throw new HttpsError(
+      "permission-denied",
+      "Insufficient permissions to assign roles"
+    );
   }
 
   const { targetUid, role } = request.data;
 
   if (!targetUid || !role) {
-    throw new Error("targetUid and role are required");
+    throw new HttpsError("invalid-argument", "targetUid and role are required");
   }
 
   if (!Object.values(AdminRole).includes(role)) {
-    throw new Error("Invalid role specified");
-  }
-
-  // Check if caller has permission to assign roles
-  const callerToken = await getAuth().verifyIdToken(
-    request.auth.token as unknown as string
-  );
-  if (!callerToken.admin || callerToken.role !== AdminRole.SUPER_ADMIN) {
-    throw new Error("Insufficient permissions to assign roles");
+    throw new HttpsError("invalid-argument", "Invalid role specified");
   }
 
   try {
@@ -127,7 +141,7 @@ export const setAdminRole = onCall(async (request) => {
     return { success: true, message: `Role ${role} assigned successfully` };
   } catch (error) {
     console.error("Error setting admin role:", error);
-    throw new Error("Failed to set admin role");
+    throw new HttpsError("internal", "Failed to set admin role");
   }
 });
 
@@ -136,21 +150,19 @@ export const setAdminRole = onCall(async (request) => {
  */
 export const removeAdminRole = onCall(async (request) => {
   if (!request.auth) {
-    throw new Error("User must be authenticated");
+    throw new HttpsError("unauthenticated", "User must be authenticated");
+  }
+  if (!hasPermission(request.auth.token, Permission.ASSIGN_ROLES)) {
+    throw new HttpsError(
+      "permission-denied",
+      "Insufficient permissions to remove roles"
+    );
   }
 
   const { targetUid } = request.data;
 
   if (!targetUid) {
-    throw new Error("targetUid is required");
-  }
-
-  // Check if caller has permission to remove roles
-  const callerToken = await getAuth().verifyIdToken(
-    request.auth.token as unknown as string
-  );
-  if (!callerToken.admin || callerToken.role !== AdminRole.SUPER_ADMIN) {
-    throw new Error("Insufficient permissions to remove roles");
+    throw new HttpsError("invalid-argument", "targetUid is required");
   }
 
   try {
@@ -172,7 +184,71 @@ export const removeAdminRole = onCall(async (request) => {
     return { success: true, message: "Admin role removed successfully" };
   } catch (error) {
     console.error("Error removing admin role:", error);
-    throw new Error("Failed to remove admin role");
+    throw new HttpsError("internal", "Failed to remove admin role");
+  }
+});
+
+/**
+ * Re-apply ROLE_PERMISSIONS to every admin's claims. Claims are only written
+ * when a role is assigned, so admins set up before a permission was added to
+ * their role (e.g. manage_catalog) do not have it until this runs. They pick
+ * up the new claims the next time their ID token refreshes or they sign in.
+ */
+export const refreshAdminPermissions = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated");
+  }
+  if (!hasPermission(request.auth.token, Permission.ASSIGN_ROLES)) {
+    throw new HttpsError(
+      "permission-denied",
+      "Insufficient permissions to refresh admin permissions"
+    );
+  }
+
+  const auth = getAuth();
+  const updated: string[] = [];
+  // Admins with no role (or a role that no longer exists) are left alone;
+  // assign them a role from the Users screen instead
+  const withoutRole: string[] = [];
+
+  try {
+    let pageToken: string | undefined;
+    do {
+      const page = await auth.listUsers(1000, pageToken);
+      for (const user of page.users) {
+        const claims = user.customClaims || {};
+        if (!claims.admin) {
+          continue;
+        }
+        const permissions = ROLE_PERMISSIONS[claims.role as AdminRole];
+        if (!permissions) {
+          withoutRole.push(user.uid);
+          continue;
+        }
+        const current: string[] = claims.permissions || [];
+        if (
+          current.length === permissions.length &&
+          permissions.every((permission) => current.includes(permission))
+        ) {
+          continue;
+        }
+        await auth.setCustomUserClaims(user.uid, { ...claims, permissions });
+        updated.push(user.uid);
+      }
+      pageToken = page.pageToken;
+    } while (pageToken);
+
+    await getFirestore().collection("admin_logs").add({
+      action: "permissions_refreshed",
+      updatedUids: updated,
+      refreshedBy: request.auth.uid,
+      timestamp: FieldValue.serverTimestamp(),
+    });
+
+    return { success: true, updated: updated.length, withoutRole };
+  } catch (error) {
+    console.error("Error refreshing admin permissions:", error);
+    throw new HttpsError("internal", "Failed to refresh admin permissions");
   }
 });
 
@@ -181,7 +257,7 @@ export const removeAdminRole = onCall(async (request) => {
  */
 export const getUserPermissions = onCall(async (request) => {
   if (!request.auth) {
-    throw new Error("User must be authenticated");
+    throw new HttpsError("unauthenticated", "User must be authenticated");
   }
 
   const uid = request.auth.uid;
@@ -198,7 +274,7 @@ export const getUserPermissions = onCall(async (request) => {
     };
   } catch (error) {
     console.error("Error getting user permissions:", error);
-    throw new Error("Failed to get user permissions");
+    throw new HttpsError("internal", "Failed to get user permissions");
   }
 });
 
@@ -207,15 +283,15 @@ export const getUserPermissions = onCall(async (request) => {
  */
 export const listAdminUsers = onCall(async (request) => {
   if (!request.auth) {
-    throw new Error("User must be authenticated");
+    throw new HttpsError("unauthenticated", "User must be authenticated");
   }
 
   // Check if caller has permission to view users
-  const callerToken = await getAuth().verifyIdToken(
-    request.auth.token as unknown as string
-  );
-  if (!callerToken.admin) {
-    throw new Error("Insufficient permissions to view admin users");
+  if (!hasPermission(request.auth.token, Permission.VIEW_USERS)) {
+    throw new HttpsError(
+      "permission-denied",
+      "Insufficient permissions to view admin users"
+    );
   }
 
   try {
@@ -235,7 +311,7 @@ export const listAdminUsers = onCall(async (request) => {
     return { adminUsers };
   } catch (error) {
     console.error("Error listing admin users:", error);
-    throw new Error("Failed to list admin users");
+    throw new HttpsError("internal", "Failed to list admin users");
   }
 });
 
@@ -249,3 +325,35 @@ export function hasPermission(
   if (!userClaims?.admin) return false;
   return userClaims.permissions?.includes(permission) || false;
 }
+
+/**
+ * Verify the Firebase ID token sent as "Authorization: Bearer <token>" on an
+ * HTTP function and check it carries the permission. Sends the 401/403
+ * response and returns null when the caller is not allowed.
+ */
+export async function authorizeRequest(
+  req: Request,
+  res: Response,
+  permission: Permission
+): Promise<DecodedIdToken | null> {
+  const header = req.headers.authorization || "";
+  const idToken = header.startsWith("Bearer ") ? header.slice(7) : "";
+  if (!idToken) {
+    res.status(401).send("Authentication required");
+    return null;
+  }
+
+  let decoded: DecodedIdToken;
+  try {
+    decoded = await getAuth().verifyIdToken(idToken);
+  } catch (error) {
+    res.status(401).send("Invalid authentication token");
+    return null;
+  }
+
+  if (!hasPermission(decoded, permission)) {
+    res.status(403).send("Insufficient permissions");
+    return null;
+  }
+  return decoded;
+}
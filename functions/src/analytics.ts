@@ -0,0 +1,276 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { hasPermission, Permission } from "./admin";
+import { PRICING_CONFIG } from "./pricing";
+import {
+  BookingStats,
+  dayKeysBetween,
+  emptyStats,
+  loadStats,
+  mergeStats,
+  statsDocId,
+} from "./booking-stats";
+import { toDayKey } from "./utils";
+
+/**
+ * Booking analytics
+ *
+ * getBookingAnalytics reports on the bookings made in a date range for the
+ * admin analytics page: bookings over time, conversion and cancellation
+ * rates, revenue per service and per month, and the lead time between
+ * booking and service date. Days are Mauritius days. Figures come from the
+ * daily and monthly counters in booking_stats (see booking-stats.ts), so a
+ * report reads one document per day or month rather than every booking.
+ */
+
+export const ANALYTICS_CONFIG = {
+  // Longest range one request may aggregate
+  MAX_RANGE_DAYS: 731,
+  // Ranges up to these lengths are bucketed by day, then by week
+  DAILY_MAX_DAYS: 62,
+  WEEKLY_MAX_DAYS: 186,
+  // Upper bounds (in days) of the lead-time buckets; the last is open-ended
+  LEAD_TIME_BUCKETS: [0, 3, 7, 30],
+};
+
+export type AnalyticsGranularity = "day" | "week" | "month";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+function periodKey(dayKey: string, granularity: AnalyticsGranularity): string {
+  if (granularity === "month") {
+    return dayKey.slice(0, 7);
+  }
+  if (granularity === "week") {
+    // Weeks start on Monday
+    const day = new Date(`${dayKey}T00:00:00Z`);
+    const offset = (day.getUTCDay() + 6) % 7;
+    return toDayKey(new Date(day.getTime() - offset * DAY_MS));
+  }
+  return dayKey;
+}
+
+function leadTimeLabel(days: number): string {
+  const bounds = ANALYTICS_CONFIG.LEAD_TIME_BUCKETS;
+  const index = bounds.findIndex((bound) => days <= bound);
+  if (index === 0) {
+    return "Same day";
+  }
+  if (index === -1) {
+    return `${bounds[bounds.length - 1] + 1}+ days`;
+  }
+  return `${bounds[index - 1] + 1}-${bounds[index]} days`;
+}
+
+function ratio(part: number, total: number): number {
+  return total > 0 ? part / total : 0;
+}
+
+function lastDayOfMonth(month: string): string {
+  const [year, monthNumber] = month.split("-").map(Number);
+  return toDayKey(new Date(Date.UTC(year, monthNumber, 0)));
+}
+
+function periodSummary(period: string, stats: BookingStats) {
+  return {
+    period,
+    bookings: stats.bookings,
+    confirmed: stats.confirmed,
+    cancelled: stats.cancelled,
+    revenue: stats.revenue,
+  };
+}
+
+/**
+ * Average, median and distribution from a histogram of lead times in days
+ */
+function leadTimeSummary(histogram: Record<string, number>) {
+  const entries = Object.entries(histogram)
+    .map(([days, count]) => [Number(days), count] as const)
+    .filter(([, count]) => count > 0)
+    .sort(([a], [b]) => a - b);
+  const count = entries.reduce((sum, [, n]) => sum + n, 0);
+
+  // The median is the middle booking, or the mean of the middle two
+  const valueAt = (index: number) => {
+    let seen = 0;
+    for (const [days, n] of entries) {
+      seen += n;
+      if (index < seen) return days;
+    }
+    return 0;
+  };
+
+  const bounds = ANALYTICS_CONFIG.LEAD_TIME_BUCKETS;
+  const buckets = new Map<string, number>(
+    [...bounds, bounds[bounds.length - 1] + 1].map((days) => [
+      leadTimeLabel(days),
+      0,
+    ])
+  );
+  entries.forEach(([days, n]) => {
+    const label = leadTimeLabel(days);
+    buckets.set(label, (buckets.get(label) || 0) + n);
+  });
+
+  return {
+    averageDays: count
+      ? entries.reduce((sum, [days, n]) => sum + days * n, 0) / count
+      : null,
+    medianDays: count
+      ? (valueAt(Math.floor((count - 1) / 2)) +
+          valueAt(Math.floor(count / 2))) /
+        2
+      : null,
+    buckets: [...buckets.entries()].map(([label, n]) => ({
+      label,
+      count: n,
+    })),
+  };
+}
+
+// A yyyy-mm-dd key of a real calendar day
+function isDayKey(value: unknown): value is string {
+  if (typeof value !== "string" || !DAY_KEY.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && toDayKey(date) === value;
+}
+
+function parseRange(data: unknown): {
+  from: string;
+  to: string;
+  granularity: AnalyticsGranularity;
+} {
+  const input = (data || {}) as Record<string, unknown>;
+  const { from, to } = input;
+  if (!isDayKey(from) || !isDayKey(to)) {
+    throw new HttpsError(
+      "invalid-argument",
+      "from and to must be dates (yyyy-mm-dd)"
+    );
+  }
+
+  const days =
+    (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS +
+    1;
+  if (!(days >= 1)) {
+    throw new HttpsError("invalid-argument", "from must not be after to");
+  }
+  if (days > ANALYTICS_CONFIG.MAX_RANGE_DAYS) {
+    throw new HttpsError(
+      "invalid-argument",
+      `Ranges are limited to ${ANALYTICS_CONFIG.MAX_RANGE_DAYS} days`
+    );
+  }
+
+  const requested = input.granularity;
+  const granularity: AnalyticsGranularity =
+    requested === "day" || requested === "week" || requested === "month"
+      ? requested
+      : days <= ANALYTICS_CONFIG.DAILY_MAX_DAYS
+      ? "day"
+      : days <= ANALYTICS_CONFIG.WEEKLY_MAX_DAYS
+      ? "week"
+      : "month";
+
+  return { from, to, granularity };
+}
+
+/**
+ * Aggregate the bookings made between two Mauritius days (inclusive)
+ */
+export const getBookingAnalytics = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated");
+  }
+  if (!hasPermission(request.auth.token, Permission.VIEW_ANALYTICS)) {
+    throw new HttpsError("permission-denied", "Insufficient permissions");
+  }
+
+  const { from, to, granularity } = parseRange(request.data);
+
+  try {
+    const days = dayKeysBetween(from, to);
+    // For monthly reports, months wholly in the range are read from their
+    // month document and only the partial months at either end day by day
+    const fullMonths =
+      granularity === "month"
+        ? [...new Set(days.map((day) => day.slice(0, 7)))].filter(
+            (month) => `${month}-01` >= from && lastDayOfMonth(month) <= to
+          )
+        : [];
+    const partialDays = days.filter(
+      (day) => !fullMonths.includes(day.slice(0, 7))
+    );
+    const stats = await loadStats([
+      ...partialDays.map((day) => statsDocId("day", day)),
+      ...fullMonths.map((month) => statsDocId("month", month)),
+    ]);
+
+    const periods = new Map<string, BookingStats>();
+    const months = new Map<string, BookingStats>();
+    const totals = emptyStats();
+    const add = (
+      map: Map<string, BookingStats>,
+      key: string,
+      source: BookingStats
+    ) => {
+      const target = map.get(key) || emptyStats();
+      mergeStats(target, source);
+      map.set(key, target);
+    };
+
+    days.forEach((day) => {
+      const month = day.slice(0, 7);
+      if (fullMonths.includes(month)) {
+        if (!months.has(month)) {
+          const monthStats = stats.get(statsDocId("month", month))!;
+          add(periods, month, monthStats);
+          add(months, month, monthStats);
+          mergeStats(totals, monthStats);
+        }
+        return;
+      }
+      const dayStats = stats.get(statsDocId("day", day))!;
+      add(periods, periodKey(day, granularity), dayStats);
+      add(months, month, dayStats);
+      mergeStats(totals, dayStats);
+    });
+
+    return {
+      from,
+      to,
+      granularity,
+      currency: PRICING_CONFIG.CURRENCY,
+      totals: {
+        bookings: totals.bookings,
+        confirmed: totals.confirmed,
+        cancelled: totals.cancelled,
+        revenue: totals.revenue,
+        conversionRate: ratio(totals.confirmed, totals.bookings),
+        cancellationRate: ratio(totals.cancelled, totals.bookings),
+      },
+      statusCounts: totals.byStatus,
+      overTime: [...periods.entries()].map(([period, periodStats]) =>
+        periodSummary(period, periodStats)
+      ),
+      revenueByMonth: [...months.entries()].map(([month, monthStats]) =>
+        periodSummary(month, monthStats)
+      ),
+      revenueByService: Object.values(totals.byService)
+        .filter((service) => service.bookings > 0)
+        .map((service) => ({
+          serviceName: service.name,
+          bookings: service.bookings,
+          revenue: service.revenue,
+        }))
+        .sort((a, b) => b.revenue - a.revenue || b.bookings - a.bookings),
+      leadTime: leadTimeSummary(totals.leadTimeDays),
+    };
+  } catch (error) {
+    console.error("Error getting booking analytics:", error);
+    throw new HttpsError("internal", "Failed to load analytics");
+  }
+});
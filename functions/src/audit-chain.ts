@@ -0,0 +1,297 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { getFirestore, Timestamp } from "firebase-admin/firestore";
+import { createHash } from "crypto";
+import { hasPermission, Permission } from "./admin";
+import { logFunctionMetrics } from "./monitoring";
+import { toDayKey } from "./utils";
+
+/**
+ * Tamper-evident audit log
+ *
+ * Each entry is stored under a server-assigned sequence number and carries
+ * the hash of the previous entry, so editing, deleting or inserting a record
+ * breaks the chain from that point on.
+ */
+
+export const AUDIT_CHAIN_CONFIG = {
+  // Audit collections written through appendAuditEntry
+  CHAINED_COLLECTIONS: ["super_admin_audit_logs", "emergency_audit_logs"],
+  // Latest sequence number and hash per audit collection
+  HEADS_COLLECTION: "audit_chain_heads",
+  // Daily snapshots of each chain head
+  ANCHORS_COLLECTION: "audit_chain_anchors",
+  // previousHash of the first entry in a chain
+  GENESIS_HASH: "0".repeat(64),
+  // Entries read per query while verifying
+  VERIFY_PAGE_SIZE: 500,
+};
+
+export interface AuditChainIssue {
+  sequence: number;
+  entryId?: string;
+  problem: "gap" | "altered" | "broken_link" | "truncated" | "anchor_mismatch";
+  message: string;
+}
+
+export interface AuditChainReport {
+  collection: string;
+  entries: number;
+  headSequence: number;
+  valid: boolean;
+  issues: AuditChainIssue[];
+}
+
+// Fixed-width ids keep entries in sequence order in the console
+function entryId(sequence: number): string {
+  return String(sequence).padStart(12, "0");
+}
+
+/**
+ * JSON with sorted keys, so a stored entry hashes the same after it has been
+ * read back from Firestore
+ */
+function canonicalJson(value: unknown): string {
+  if (value instanceof Timestamp) {
+    return JSON.stringify(value.toMillis());
+  }
+  if (value instanceof Date) {
+    return JSON.stringify(value.getTime());
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item ?? null)).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    const fields = Object.keys(record)
+      .filter((key) => record[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+    return `{${fields.join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function hashEntry(entry: FirebaseFirestore.DocumentData): string {
+  const { integrityHash, ...fields } = entry;
+  return createHash("sha256").update(canonicalJson(fields)).digest("hex");
+}
+
+/**
+ * Append an entry to a chained audit collection. The entry's timestamp is
+ * assigned here rather than with serverTimestamp() so it can be hashed.
+ */
+export async function appendAuditEntry(
+  collection: string,
+  entry: FirebaseFirestore.DocumentData
+): Promise<{ sequence: number; integrityHash: string }> {
+  const db = getFirestore();
+  const headRef = db
+    .collection(AUDIT_CHAIN_CONFIG.HEADS_COLLECTION)
+    .doc(collection);
+
+  return db.runTransaction(async (transaction) => {
+    const head = await transaction.get(headRef);
+    const sequence = (head.data()?.sequence ?? 0) + 1;
+    const record: FirebaseFirestore.DocumentData = {
+      ...entry,
+      timestamp: Timestamp.now(),
+      sequence,
+      previousHash: head.data()?.hash ?? AUDIT_CHAIN_CONFIG.GENESIS_HASH,
+    };
+    const integrityHash = hashEntry(record);
+
+    transaction.create(db.collection(collection).doc(entryId(sequence)), {
+      ...record,
+      integrityHash,
+    });
+    transaction.set(headRef, {
+      sequence,
+      hash: integrityHash,
+      updatedAt: record.timestamp,
+    });
+
+    return { sequence, integrityHash };
+  });
+}
+
+/**
+ * Walk a chain from the first entry and report gaps, altered entries and
+ * broken links, then compare the end of the chain with its head and anchors.
+ * Entries written before chaining was introduced have no sequence and are
+ * not checked.
+ */
+export async function verifyChain(
+  collection: string
+): Promise<AuditChainReport> {
+  const db = getFirestore();
+  const issues: AuditChainIssue[] = [];
+  const hashes = new Map<number, string>();
+  let expectedSequence = 1;
+  let previousHash = AUDIT_CHAIN_CONFIG.GENESIS_HASH;
+  let entries = 0;
+  let lastSequence = 0;
+
+  for (;;) {
+    const page = await db
+      .collection(collection)
+      .orderBy("sequence")
+      .startAfter(lastSequence)
+      .limit(AUDIT_CHAIN_CONFIG.VERIFY_PAGE_SIZE)
+      .get();
+
+    for (const doc of page.docs) {
+      const entry = doc.data();
+      const sequence = entry.sequence as number;
+      entries++;
+
+      if (sequence !== expectedSequence) {
+        issues.push({
+          sequence: expectedSequence,
+          problem: "gap",
+          message: `Entries ${expectedSequence} to ${sequence - 1} are missing`,
+        });
+      } else if (entry.previousHash !== previousHash) {
+        issues.push({
+          sequence,
+          entryId: doc.id,
+          problem: "broken_link",
+          message: "previousHash does not match the preceding entry",
+        });
+      }
+      if (
+        doc.id !== entryId(sequence) ||
+        hashEntry(entry) !== entry.integrityHash
+      ) {
+        issues.push({
+          sequence,
+          entryId: doc.id,
+          problem: "altered",
+          message: "Entry content does not match its integrity hash",
+        });
+      }
+
+      hashes.set(sequence, entry.integrityHash);
+      previousHash = entry.integrityHash;
+      expectedSequence = sequence + 1;
+      lastSequence = sequence;
+    }
+
+    if (page.size < AUDIT_CHAIN_CONFIG.VERIFY_PAGE_SIZE) break;
+  }
+
+  const head = await db
+    .collection(AUDIT_CHAIN_CONFIG.HEADS_COLLECTION)
+    .doc(collection)
+    .get();
+  const headSequence: number = head.data()?.sequence ?? 0;
+
+  if (headSequence > lastSequence) {
+    issues.push({
+      sequence: lastSequence + 1,
+      problem: "truncated",
+      message: `Entries ${lastSequence + 1} to ${headSequence} are missing`,
+    });
+  } else if (head.exists && head.data()?.hash !== previousHash) {
+    issues.push({
+      sequence: headSequence,
+      problem: "broken_link",
+      message: "Chain head does not match the last entry",
+    });
+  }
+
+  const anchors = await db
+    .collection(AUDIT_CHAIN_CONFIG.ANCHORS_COLLECTION)
+    .where("collection", "==", collection)
+    .get();
+  for (const anchor of anchors.docs) {
+    const { sequence, hash } = anchor.data();
+    if (hashes.get(sequence) !== hash) {
+      issues.push({
+        sequence,
+        problem: "anchor_mismatch",
+        message: `Entry ${sequence} differs from the anchor taken ${
+          anchor.data().day
+        }`,
+      });
+    }
+  }
+
+  return {
+    collection,
+    entries,
+    headSequence,
+    valid: issues.length === 0,
+    issues,
+  };
+}
+
+/**
+ * Verify one or all chained audit collections (staff with view_logs only)
+ */
+export const verifyAuditChain = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated");
+  }
+  if (!hasPermission(request.auth.token, Permission.VIEW_LOGS)) {
+    throw new HttpsError("permission-denied", "Insufficient permissions");
+  }
+
+  const { collection } = request.data || {};
+  if (
+    collection !== undefined &&
+    !AUDIT_CHAIN_CONFIG.CHAINED_COLLECTIONS.includes(collection)
+  ) {
+    throw new HttpsError("invalid-argument", "Unknown audit collection");
+  }
+
+  try {
+    const collections = collection
+      ? [collection]
+      : AUDIT_CHAIN_CONFIG.CHAINED_COLLECTIONS;
+    const reports: AuditChainReport[] = [];
+    for (const name of collections) {
+      reports.push(await verifyChain(name));
+    }
+    return { valid: reports.every((report) => report.valid), reports };
+  } catch (error) {
+    console.error("Error verifying audit chain:", error);
+    throw new HttpsError("internal", "Failed to verify audit chain");
+  }
+});
+
+/**
+ * Record each chain head once a day. Anchors are also written to the
+ * function logs, which sit outside Firestore, so a rewritten chain can be
+ * compared with a copy its author could not edit.
+ */
+export const anchorAuditChains = onSchedule("every day 00:05", async () => {
+  const startTime = Date.now();
+  const db = getFirestore();
+  const day = toDayKey(new Date());
+
+  try {
+    for (const collection of AUDIT_CHAIN_CONFIG.CHAINED_COLLECTIONS) {
+      const head = await db
+        .collection(AUDIT_CHAIN_CONFIG.HEADS_COLLECTION)
+        .doc(collection)
+        .get();
+      if (!head.exists) continue;
+
+      const anchor = {
+        collection,
+        day,
+        sequence: head.data()?.sequence,
+        hash: head.data()?.hash,
+      };
+      await db
+        .collection(AUDIT_CHAIN_CONFIG.ANCHORS_COLLECTION)
+        .doc(`${collection}_${day}`)
+        .set({ ...anchor, anchoredAt: Timestamp.now() });
+      console.log("AUDIT_CHAIN_ANCHOR", JSON.stringify(anchor));
+    }
+    logFunctionMetrics("anchorAuditChains", startTime);
+  } catch (error) {
+    logFunctionMetrics("anchorAuditChains", startTime, error as Error);
+  }
+});
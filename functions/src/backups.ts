@@ -0,0 +1,436 @@
+import { once } from "events";
+import { createInterface } from "readline";
+import { Writable } from "stream";
+import { finished } from "stream/promises";
+import { onDocumentCreated } from "firebase-functions/v2/firestore";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import {
+  getFirestore,
+  FieldPath,
+  FieldValue,
+  GeoPoint,
+  Timestamp,
+  DocumentReference,
+} from "firebase-admin/firestore";
+import { getStorage } from "firebase-admin/storage";
+import { HttpsError } from "firebase-functions/v2/https";
+import { logFunctionMetrics } from "./monitoring";
+import { changeContext } from "./booking-history";
+
+/**
+ * Firestore backups
+ *
+ * Backups are exported document by document to Cloud Storage as
+ * newline-delimited JSON, one file per top-level collection including its
+ * subcollections. Unlike a managed export this also runs against the
+ * Firestore and Storage emulators, so restores can be rehearsed locally
+ * (see scripts/test-backup-restore.js). Collections are read a page at a
+ * time and streamed to and from Storage, so no whole collection is held in
+ * memory.
+ */
+
+export const BACKUP_CONFIG = {
+  // Top-level collections included in every backup
+  COLLECTIONS: [
+    "bookings",
+    "services",
+    "vehicles",
+    "admin",
+    "system_config",
+    "pending_role_assignments",
+    "staff",
+  ],
+  // One document per backup, tracking its progress
+  BACKUPS_COLLECTION: "emergency_backups",
+  // Bucket for backup files (defaults to the project's default bucket)
+  BUCKET: process.env.BACKUP_BUCKET,
+  STORAGE_PREFIX: "firestore-backups",
+  // Documents read per query when exporting
+  EXPORT_PAGE_SIZE: 500,
+  // Writes per batch when restoring (Firestore allows 500)
+  RESTORE_BATCH_SIZE: 400,
+};
+
+export type BackupStatus = "PENDING" | "IN_PROGRESS" | "COMPLETED" | "FAILED";
+
+export interface RestoreReport {
+  backupId: string;
+  dryRun: boolean;
+  collections: Record<
+    string,
+    { created: number; overwritten: number; unchanged: number }
+  >;
+}
+
+interface BackupLine {
+  path: string;
+  data: unknown;
+}
+
+function bucket() {
+  return BACKUP_CONFIG.BUCKET
+    ? getStorage().bucket(BACKUP_CONFIG.BUCKET)
+    : getStorage().bucket();
+}
+
+function backupFile(backupId: string, collection: string) {
+  return bucket().file(
+    `${BACKUP_CONFIG.STORAGE_PREFIX}/${backupId}/${collection}.ndjson`
+  );
+}
+
+/**
+ * Convert Firestore values to plain JSON, tagging types JSON cannot hold
+ */
+function encodeValue(value: unknown): unknown {
+  if (value instanceof Timestamp) {
+    return {
+      __type: "timestamp",
+      seconds: value.seconds,
+      nanoseconds: value.nanoseconds,
+    };
+  }
+  if (value instanceof GeoPoint) {
+    return {
+      __type: "geopoint",
+      latitude: value.latitude,
+      longitude: value.longitude,
+    };
+  }
+  if (value instanceof DocumentReference) {
+    return { __type: "reference", path: value.path };
+  }
+  if (Buffer.isBuffer(value) || value instanceof Uint8Array) {
+    return { __type: "bytes", base64: Buffer.from(value).toString("base64") };
+  }
+  if (Array.isArray(value)) {
+    return value.map(encodeValue);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, encodeValue(item)])
+    );
+  }
+  return value;
+}
+
+function decodeValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(decodeValue);
+  }
+  if (value && typeof value === "object") {
+    const tagged = value as Record<string, unknown>;
+    switch (tagged.__type) {
+      case "timestamp":
+        return new Timestamp(
+          tagged.seconds as number,
+          tagged.nanoseconds as number
+        );
+      case "geopoint":
+        return new GeoPoint(
+          tagged.latitude as number,
+          tagged.longitude as number
+        );
+      case "reference":
+        return getFirestore().doc(tagged.path as string);
+      case "bytes":
+        return Buffer.from(tagged.base64 as string, "base64");
+    }
+    return Object.fromEntries(
+      Object.entries(tagged).map(([key, item]) => [key, decodeValue(item)])
+    );
+  }
+  return value;
+}
+
+// Fields a restore writes itself, so they say nothing about whether the
+// document's content changed since the backup
+const RESTORE_FIELDS = ["restoredFrom", "lastChange"];
+
+function restoredContent(data: unknown): string {
+  const fields = { ...(data as Record<string, unknown>) };
+  RESTORE_FIELDS.forEach((field) => delete fields[field]);
+  return JSON.stringify(fields);
+}
+
+async function writeLine(out: Writable, line: string): Promise<void> {
+  if (!out.write(`${line}\n`)) {
+    await once(out, "drain");
+  }
+}
+
+/**
+ * Write the documents of a collection and, recursively, of their
+ * subcollections, paging by document ID. Returns the number written.
+ */
+async function exportCollection(
+  collection: FirebaseFirestore.CollectionReference,
+  out: Writable
+): Promise<number> {
+  let count = 0;
+  let last: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+
+  for (;;) {
+    let query = collection
+      .orderBy(FieldPath.documentId())
+      .limit(BACKUP_CONFIG.EXPORT_PAGE_SIZE);
+    if (last) {
+      query = query.startAfter(last);
+    }
+    const page = await query.get();
+    if (page.empty) {
+      return count;
+    }
+
+    // Subcollections of the whole page are listed at once rather than one
+    // document at a time
+    const subcollections = await Promise.all(
+      page.docs.map((doc) => doc.ref.listCollections())
+    );
+    for (const [index, doc] of page.docs.entries()) {
+      const line: BackupLine = {
+        path: doc.ref.path,
+        data: encodeValue(doc.data()),
+      };
+      await writeLine(out, JSON.stringify(line));
+      count++;
+
+      for (const subcollection of subcollections[index]) {
+        count += await exportCollection(subcollection, out);
+      }
+    }
+
+    if (page.size < BACKUP_CONFIG.EXPORT_PAGE_SIZE) {
+      return count;
+    }
+    last = page.docs[page.docs.length - 1];
+  }
+}
+
+/**
+ * Stream one top-level collection of a backup to its file in Cloud Storage.
+ * Returns the number of documents exported.
+ */
+export async function exportCollectionBackup(
+  backupId: string,
+  name: string
+): Promise<number> {
+  const out = backupFile(backupId, name).createWriteStream({
+    contentType: "application/x-ndjson",
+    resumable: false,
+  });
+
+  try {
+    const count = await exportCollection(getFirestore().collection(name), out);
+    out.end();
+    await finished(out);
+    return count;
+  } catch (error) {
+    out.destroy(error as Error);
+    throw error;
+  }
+}
+
+/**
+ * Queue a backup. The export itself runs in runDatabaseBackup, which
+ * records its progress on the returned backup document.
+ */
+export async function startBackup(
+  details: Record<string, unknown>
+): Promise<string> {
+  const backupId = `backup_${Date.now()}`;
+  await getFirestore()
+    .collection(BACKUP_CONFIG.BACKUPS_COLLECTION)
+    .doc(backupId)
+    .set({
+      ...details,
+      backupId,
+      status: "PENDING" as BackupStatus,
+      collections: BACKUP_CONFIG.COLLECTIONS,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+  return backupId;
+}
+
+/**
+ * Export the collections of a queued backup to Cloud Storage
+ */
+export const runDatabaseBackup = onDocumentCreated(
+  {
+    document: `${BACKUP_CONFIG.BACKUPS_COLLECTION}/{backupId}`,
+    timeoutSeconds: 540,
+    memory: "1GiB",
+  },
+  async (event) => {
+    const startTime = Date.now();
+    const backupId = event.params.backupId;
+    const backupRef = event.data?.ref;
+    const backup = event.data?.data();
+    if (!backupRef || backup?.status !== "PENDING") {
+      return;
+    }
+
+    try {
+      await backupRef.update({
+        status: "IN_PROGRESS" as BackupStatus,
+        startedAt: FieldValue.serverTimestamp(),
+      });
+
+      let documentCount = 0;
+      for (const name of backup.collections as string[]) {
+        const count = await exportCollectionBackup(backupId, name);
+
+        documentCount += count;
+        await backupRef.update({
+          [`progress.${name}`]: count,
+          documentCount,
+        });
+      }
+
+      await backupRef.update({
+        status: "COMPLETED" as BackupStatus,
+        location: `gs://${bucket().name}/${
+          BACKUP_CONFIG.STORAGE_PREFIX
+        }/${backupId}/`,
+        completedAt: FieldValue.serverTimestamp(),
+      });
+      logFunctionMetrics("runDatabaseBackup", startTime);
+    } catch (error) {
+      console.error("Backup failed:", backupId, error);
+      await backupRef.update({
+        status: "FAILED" as BackupStatus,
+        error: (error as Error).message,
+        failedAt: FieldValue.serverTimestamp(),
+      });
+      logFunctionMetrics("runDatabaseBackup", startTime, error as Error);
+    }
+  }
+);
+
+/**
+ * Daily backup, kept alongside emergency backups
+ */
+export const scheduledDatabaseBackup = onSchedule(
+  "every day 02:00",
+  async () => {
+    const startTime = Date.now();
+    try {
+      await startBackup({ createdBy: "scheduler", reason: "scheduled" });
+      logFunctionMetrics("scheduledDatabaseBackup", startTime);
+    } catch (error) {
+      logFunctionMetrics("scheduledDatabaseBackup", startTime, error as Error);
+    }
+  }
+);
+
+/**
+ * Compare one batch of backed-up documents with the live ones and, unless
+ * dryRun is set, write back those that differ
+ */
+async function restoreChunk(
+  chunk: BackupLine[],
+  counts: RestoreReport["collections"][string],
+  backupId: string,
+  options: { dryRun: boolean; restoredBy: string }
+): Promise<void> {
+  const db = getFirestore();
+  const refs = chunk.map((line) => db.doc(line.path));
+  const current = await db.getAll(...refs);
+  const batch = db.batch();
+
+  chunk.forEach((line, index) => {
+    const existing = current[index];
+    if (!existing.exists) {
+      counts.created++;
+    } else if (
+      restoredContent(encodeValue(existing.data())) ===
+      restoredContent(line.data)
+    ) {
+      counts.unchanged++;
+      return;
+    } else {
+      counts.overwritten++;
+    }
+    batch.set(refs[index], {
+      ...(decodeValue(line.data) as Record<string, unknown>),
+      restoredFrom: backupId,
+      ...(refs[index].parent.path === "bookings"
+        ? changeContext(options.restoredBy, "emergency")
+        : {}),
+    });
+  });
+
+  if (!options.dryRun) {
+    await batch.commit();
+  }
+}
+
+/**
+ * Compare a completed backup with the live database and, unless dryRun is
+ * set, write the backed-up documents back. Documents created since the
+ * backup are left in place. Restored documents carry restoredFrom so
+ * creation triggers do not re-notify customers or re-price bookings.
+ */
+export async function restoreBackup(
+  backupId: string,
+  options: { dryRun: boolean; collections?: string[]; restoredBy: string }
+): Promise<RestoreReport> {
+  const db = getFirestore();
+  const backup = await db
+    .collection(BACKUP_CONFIG.BACKUPS_COLLECTION)
+    .doc(backupId)
+    .get();
+  if (!backup.exists) {
+    throw new HttpsError("not-found", "Backup not found");
+  }
+  if (backup.data()?.status !== "COMPLETED") {
+    throw new HttpsError(
+      "failed-precondition",
+      "Only completed backups can be restored"
+    );
+  }
+
+  const available: string[] = backup.data()?.collections || [];
+  const collections = options.collections?.length
+    ? options.collections
+    : available;
+  const unknown = collections.filter((name) => !available.includes(name));
+  if (unknown.length > 0) {
+    throw new HttpsError(
+      "invalid-argument",
+      `Not in this backup: ${unknown.join(", ")}`
+    );
+  }
+
+  const report: RestoreReport = {
+    backupId,
+    dryRun: options.dryRun,
+    collections: {},
+  };
+
+  for (const name of collections) {
+    const counts = { created: 0, overwritten: 0, unchanged: 0 };
+    const lines = createInterface({
+      input: backupFile(backupId, name).createReadStream(),
+      crlfDelay: Infinity,
+    });
+
+    let chunk: BackupLine[] = [];
+    for await (const text of lines) {
+      if (text.trim() === "") {
+        continue;
+      }
+      chunk.push(JSON.parse(text) as BackupLine);
+      if (chunk.length >= BACKUP_CONFIG.RESTORE_BATCH_SIZE) {
+        await restoreChunk(chunk, counts, backupId, options);
+        chunk = [];
+      }
+    }
+    if (chunk.length > 0) {
+      await restoreChunk(chunk, counts, backupId, options);
+    }
+    report.collections[name] = counts;
+  }
+
+  return report;
+}
@@ -0,0 +1,133 @@
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import { getFirestore, FieldValue, Timestamp } from "firebase-admin/firestore";
+import { randomUUID } from "crypto";
+import { logFunctionMetrics } from "./monitoring";
+
+/**
+ * Booking history
+ *
+ * Every write to a booking is recorded in bookings/{id}/history by a trigger.
+ * Code that writes a booking stamps it with changeContext() so the trigger
+ * can attribute the change.
+ */
+
+export type ChangeSource = "dashboard" | "function" | "emergency" | "customer";
+
+export interface BookingChangeContext {
+  // Unique per write, so a stamp left over from an earlier write is ignored
+  id: string;
+  by: string | null;
+  source: ChangeSource;
+}
+
+export interface BookingFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Bookkeeping fields that change on every write, notification delivery
+// status and the owner's and customer's latest delivery times, which are
+// rewritten on every delivered message (see notifications.ts), sent
+// reminders, the time of the customer's latest WhatsApp message (the
+// thread itself is in bookings/{id}/messages) and the search fields
+// derived from the booking (see booking-search.ts)
+const UNTRACKED_FIELDS = [
+  "updatedAt",
+  "lastChange",
+  "notifications",
+  "ownerNotifiedAt",
+  "customerNotifiedAt",
+  "reminders",
+  "lastCustomerMessageAt",
+  "searchTerms",
+  "serviceDate",
+];
+
+/**
+ * Fields to write alongside a booking update to record who made it
+ */
+export function changeContext(
+  by: string | null,
+  source: ChangeSource
+): { lastChange: BookingChangeContext } {
+  return { lastChange: { id: randomUUID(), by, source } };
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Timestamp && b instanceof Timestamp) {
+    return a.isEqual(b);
+  }
+  if (a && b && typeof a === "object" && typeof b === "object") {
+    const left = a as Record<string, unknown>;
+    const right = b as Record<string, unknown>;
+    const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+    return [...keys].every((key) => sameValue(left[key], right[key]));
+  }
+  return a === b;
+}
+
+/**
+ * Top-level fields that differ between two versions of a booking
+ */
+export function diffBooking(
+  before: FirebaseFirestore.DocumentData,
+  after: FirebaseFirestore.DocumentData
+): BookingFieldChange[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...fields]
+    .filter((field) => !UNTRACKED_FIELDS.includes(field))
+    .filter((field) => !sameValue(before[field], after[field]))
+    .sort()
+    .map((field) => ({
+      field,
+      before: before[field] ?? null,
+      after: after[field] ?? null,
+    }));
+}
+
+/**
+ * Record each create, update and delete of a booking with its field diff
+ */
+export const recordBookingHistory = onDocumentWritten(
+  "bookings/{bookingId}",
+  async (event) => {
+    const startTime = Date.now();
+    const before = event.data?.before.data() || {};
+    const after = event.data?.after.data() || {};
+    const type = !event.data?.before.exists
+      ? "created"
+      : !event.data?.after.exists
+      ? "deleted"
+      : "updated";
+
+    const changes = type === "updated" ? diffBooking(before, after) : [];
+    if (type === "updated" && changes.length === 0) return;
+
+    // A write that did not stamp the booking keeps the previous stamp
+    const stamp: BookingChangeContext | undefined =
+      type === "deleted" ? undefined : after.lastChange;
+    const attributed = stamp && stamp.id !== before.lastChange?.id;
+
+    try {
+      await getFirestore()
+        .collection("bookings")
+        .doc(event.params.bookingId)
+        .collection("history")
+        // Keyed by event id so a retried trigger does not duplicate entries
+        .doc(event.id)
+        .set({
+          type,
+          changes,
+          status: after.status ?? before.status ?? null,
+          actor: attributed ? stamp.by : null,
+          source: attributed ? stamp.source : "unknown",
+          at: FieldValue.serverTimestamp(),
+        });
+      logFunctionMetrics("recordBookingHistory", startTime);
+    } catch (error) {
+      logFunctionMetrics("recordBookingHistory", startTime, error as Error);
+      throw error;
+    }
+  }
+);
@@ -0,0 +1,186 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { getFirestore, FieldValue } from "firebase-admin/firestore";
+import { hasPermission, Permission } from "./admin";
+import { BookingData, BookingStatus, PickupDetails } from "./types";
+import { ChangeSource, changeContext } from "./booking-history";
+import { assertPaymentsEnabled } from "./system-config";
+
+/**
+ * Booking Lifecycle
+ * Server-side state machine for booking statuses. Every status change goes
+ * through transitionBooking so that only allowed transitions are applied and
+ * each one records when it happened.
+ */
+
+// Allowed next states for each status. The dashboard mirrors this map in
+// src/app/utils/booking-status.ts to decide which actions to offer.
+export const BOOKING_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  pending: ["quoted", "deposit_paid", "confirmed", "cancelled", "suspended"],
+  quoted: ["deposit_paid", "confirmed", "cancelled", "suspended"],
+  deposit_paid: ["confirmed", "cancelled", "suspended"],
+  confirmed: ["in_progress", "no_show", "cancelled", "suspended"],
+  in_progress: ["completed"],
+  completed: [],
+  no_show: [],
+  cancelled: [],
+  suspended: ["pending", "cancelled"],
+};
+
+export const BOOKING_STATUSES = Object.keys(
+  BOOKING_TRANSITIONS
+) as BookingStatus[];
+
+// Statuses in which the booking has been (or is being) delivered and counts
+// towards revenue
+export const REVENUE_STATUSES: BookingStatus[] = [
+  "confirmed",
+  "in_progress",
+  "completed",
+];
+
+// Statuses that no longer hold a vehicle, driver or time slot
+export const RELEASED_STATUSES: BookingStatus[] = ["cancelled", "no_show"];
+
+export function isBookingStatus(value: unknown): value is BookingStatus {
+  return (
+    typeof value === "string" &&
+    BOOKING_STATUSES.includes(value as BookingStatus)
+  );
+}
+
+export function canTransition(from: BookingStatus, to: BookingStatus): boolean {
+  return (BOOKING_TRANSITIONS[from] || []).includes(to);
+}
+
+/**
+ * Fields written for a status change, including the per-transition timestamp
+ * under statusTimestamps.<status>
+ */
+export function statusChangeFields(
+  to: BookingStatus,
+  changedBy: string,
+  source: ChangeSource
+): FirebaseFirestore.DocumentData {
+  return {
+    status: to,
+    [`statusTimestamps.${to}`]: FieldValue.serverTimestamp(),
+    statusChangedBy: changedBy,
+    updatedAt: FieldValue.serverTimestamp(),
+    ...changeContext(changedBy, source),
+  };
+}
+
+/**
+ * Move a booking to a new status inside a transaction, rejecting transitions
+ * the state machine does not allow. Extra fields are written alongside.
+ */
+export async function transitionBooking(
+  bookingRef: FirebaseFirestore.DocumentReference,
+  to: BookingStatus,
+  changedBy: string,
+  source: ChangeSource,
+  extraFields: FirebaseFirestore.DocumentData = {}
+): Promise<{ from: BookingStatus; to: BookingStatus }> {
+  return getFirestore().runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(bookingRef);
+    if (!snapshot.exists) {
+      throw new HttpsError("not-found", "Booking not found");
+    }
+
+    const from = (snapshot.data() as BookingData).status;
+    if (!canTransition(from, to)) {
+      throw new HttpsError(
+        "failed-precondition",
+        `Cannot change booking status from ${from} to ${to}`
+      );
+    }
+
+    transaction.update(bookingRef, {
+      ...extraFields,
+      ...statusChangeFields(to, changedBy, source),
+    });
+    return { from, to };
+  });
+}
+
+const PICKUP_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const MAX_PICKUP_LOCATION_LENGTH = 200;
+
+/**
+ * Pickup details sent with a confirmation; both parts are optional
+ */
+function parsePickup(input: unknown): PickupDetails | null {
+  if (!input || typeof input !== "object") {
+    return null;
+  }
+  const { location, time } = input as Record<string, unknown>;
+
+  const pickupLocation = typeof location === "string" ? location.trim() : "";
+  if (pickupLocation.length > MAX_PICKUP_LOCATION_LENGTH) {
+    throw new HttpsError(
+      "invalid-argument",
+      `Pickup location must be at most ${MAX_PICKUP_LOCATION_LENGTH} characters`
+    );
+  }
+  const pickupTime = typeof time === "string" ? time.trim() : "";
+  if (pickupTime && !PICKUP_TIME_PATTERN.test(pickupTime)) {
+    throw new HttpsError("invalid-argument", "Pickup time must be HH:MM");
+  }
+
+  if (!pickupLocation && !pickupTime) {
+    return null;
+  }
+  return { location: pickupLocation || null, time: pickupTime || null };
+}
+
+/**
+ * Admin changes the status of a booking. Confirmations may carry pickup
+ * details, which the customer receives with the confirmation message.
+ */
+export const updateBookingStatus = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated");
+  }
+
+  const { bookingId, status, pickup } = request.data || {};
+  if (!bookingId || !isBookingStatus(status)) {
+    throw new HttpsError(
+      "invalid-argument",
+      "bookingId and a valid status are required"
+    );
+  }
+
+  const requiredPermission =
+    status === "confirmed"
+      ? Permission.CONFIRM_BOOKINGS
+      : Permission.EDIT_BOOKINGS;
+  if (!hasPermission(request.auth.token, requiredPermission)) {
+    throw new HttpsError(
+      "permission-denied",
+      "Insufficient permissions to change booking status"
+    );
+  }
+
+  if (status === "deposit_paid") {
+    await assertPaymentsEnabled();
+  }
+  const pickupDetails = status === "confirmed" ? parsePickup(pickup) : null;
+
+  try {
+    const bookingRef = getFirestore().collection("bookings").doc(bookingId);
+    const result = await transitionBooking(
+      bookingRef,
+      status,
+      request.auth.uid,
+      "dashboard",
+      pickupDetails ? { pickup: pickupDetails } : {}
+    );
+    return { success: true, ...result };
+  } catch (error) {
+    console.error("Error updating booking status:", error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError("internal", "Failed to update booking status");
+  }
+});
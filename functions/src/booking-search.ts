@@ -0,0 +1,193 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import { getFirestore, FieldPath, Timestamp } from "firebase-admin/firestore";
+import { hasPermission, Permission } from "./admin";
+import { logFunctionMetrics } from "./monitoring";
+import { BookingData } from "./types";
+import { normalizeDate } from "./utils";
+
+/**
+ * Booking search fields
+ *
+ * Firestore has no free-text search, so every booking carries the fields
+ * the admin bookings table queries on: searchTerms, the words and prefixes
+ * of the customer's name, email and phone plus the booking ID (matched with
+ * array-contains), and serviceDate, the rental start or booking date, so
+ * both kinds of booking sort and filter on one field. indexBookingForSearch
+ * keeps them current on every write; reindexBookings fills them in on
+ * existing bookings. The dashboard builds its search term the same way (see
+ * src/app/utils/booking-search.ts).
+ */
+
+export const BOOKING_SEARCH_CONFIG = {
+  BOOKINGS_COLLECTION: "bookings",
+  // Words are indexed by every prefix between these lengths, and in full
+  MIN_PREFIX_LENGTH: 2,
+  MAX_PREFIX_LENGTH: 15,
+  // Mauritius country code, dropped so local numbers match too
+  PHONE_COUNTRY_CODE: "230",
+  REINDEX_PAGE_SIZE: 500,
+};
+
+export interface BookingSearchFields {
+  searchTerms: string[];
+  serviceDate: Timestamp | null;
+}
+
+/**
+ * Lower-case words with accents removed
+ */
+export function searchWords(text: string): string[] {
+  return text
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+function prefixes(word: string): string[] {
+  const terms = [word];
+  const longest = Math.min(
+    word.length - 1,
+    BOOKING_SEARCH_CONFIG.MAX_PREFIX_LENGTH
+  );
+  for (
+    let length = BOOKING_SEARCH_CONFIG.MIN_PREFIX_LENGTH;
+    length <= longest;
+    length++
+  ) {
+    terms.push(word.slice(0, length));
+  }
+  return terms;
+}
+
+function phoneTerms(phone: string): string[] {
+  const digits = phone.replace(/\D/g, "");
+  if (!digits) return [];
+  const local = digits.startsWith(BOOKING_SEARCH_CONFIG.PHONE_COUNTRY_CODE)
+    ? digits.slice(BOOKING_SEARCH_CONFIG.PHONE_COUNTRY_CODE.length)
+    : digits;
+  return [...prefixes(digits), ...prefixes(local)];
+}
+
+export function bookingSearchFields(
+  bookingId: string,
+  booking: BookingData
+): BookingSearchFields {
+  const email = (booking.customerEmail || "").trim().toLowerCase();
+  const terms = new Set<string>([
+    bookingId.toLowerCase(),
+    ...(email ? [email] : []),
+    ...searchWords(`${booking.customerName || ""} ${email}`).flatMap(prefixes),
+    ...phoneTerms(booking.customerPhone || ""),
+  ]);
+  const date = booking.rentalStart || booking.bookingDate;
+
+  return {
+    searchTerms: [...terms].sort(),
+    serviceDate: date ? Timestamp.fromDate(normalizeDate(date)) : null,
+  };
+}
+
+function isIndexed(
+  booking: FirebaseFirestore.DocumentData,
+  fields: BookingSearchFields
+): boolean {
+  const current: string[] = booking.searchTerms || [];
+  const sameDate =
+    fields.serviceDate === null
+      ? booking.serviceDate == null
+      : booking.serviceDate instanceof Timestamp &&
+        booking.serviceDate.isEqual(fields.serviceDate);
+  return (
+    sameDate &&
+    current.length === fields.searchTerms.length &&
+    current.every((term, index) => term === fields.searchTerms[index])
+  );
+}
+
+/**
+ * Refresh a booking's search fields when its customer details or dates
+ * change. The update leaves lastChange alone and the fields are not
+ * tracked in the booking history.
+ */
+export const indexBookingForSearch = onDocumentWritten(
+  "bookings/{bookingId}",
+  async (event) => {
+    const startTime = Date.now();
+    const snapshot = event.data?.after;
+    if (!snapshot?.exists) return;
+
+    const booking = snapshot.data() as BookingData;
+    const fields = bookingSearchFields(event.params.bookingId, booking);
+    if (isIndexed(booking, fields)) return;
+
+    try {
+      await snapshot.ref.update({ ...fields });
+      logFunctionMetrics("indexBookingForSearch", startTime);
+    } catch (error) {
+      console.error(
+        "Failed to index booking",
+        event.params.bookingId,
+        "for search:",
+        error
+      );
+      logFunctionMetrics("indexBookingForSearch", startTime, error as Error);
+    }
+  }
+);
+
+/**
+ * Fill in the search fields on every booking that lacks them or has stale
+ * ones, for bookings made before search existed
+ */
+export const reindexBookings = onCall(
+  { timeoutSeconds: 540, memory: "1GiB" },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated");
+    }
+    if (!hasPermission(request.auth.token, Permission.MANAGE_SYSTEM)) {
+      throw new HttpsError("permission-denied", "Insufficient permissions");
+    }
+
+    const db = getFirestore();
+    try {
+      const writer = db.bulkWriter();
+      let bookingCount = 0;
+      let updated = 0;
+      let last: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+
+      for (;;) {
+        let query = db
+          .collection(BOOKING_SEARCH_CONFIG.BOOKINGS_COLLECTION)
+          .orderBy(FieldPath.documentId())
+          .limit(BOOKING_SEARCH_CONFIG.REINDEX_PAGE_SIZE);
+        if (last) {
+          query = query.startAfter(last);
+        }
+        const page = await query.get();
+        if (page.empty) break;
+
+        page.docs.forEach((doc) => {
+          const booking = doc.data() as BookingData;
+          const fields = bookingSearchFields(doc.id, booking);
+          if (!isIndexed(booking, fields)) {
+            writer.update(doc.ref, { ...fields });
+            updated++;
+          }
+        });
+        bookingCount += page.size;
+        last = page.docs[page.docs.length - 1];
+      }
+      await writer.close();
+
+      console.log(`Reindexed ${updated} of ${bookingCount} bookings`);
+      return { success: true, bookings: bookingCount, updated };
+    } catch (error) {
+      console.error("Error reindexing bookings:", error);
+      throw new HttpsError("internal", "Failed to reindex bookings");
+    }
+  }
+);
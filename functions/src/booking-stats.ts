@@ -0,0 +1,392 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import {
+  getFirestore,
+  FieldPath,
+  FieldValue,
+  Timestamp,
+} from "firebase-admin/firestore";
+import { hasPermission, Permission } from "./admin";
+import { logFunctionMetrics } from "./monitoring";
+import { REVENUE_STATUSES } from "./booking-lifecycle";
+import { bookingRevenue } from "./pricing";
+import { BookingData, BookingStatus } from "./types";
+import { localDayKey, normalizeDate, toDayKey } from "./utils";
+
+/**
+ * Booking counters
+ *
+ * Aggregates of the bookings made on each Mauritius day, in each month and
+ * overall are kept in booking_stats (documents day_<yyyy-mm-dd>,
+ * month_<yyyy-mm> and all), so stats and dashboard cards read a few
+ * documents instead of every booking. updateBookingStats applies the
+ * difference on every booking write; rebuildBookingStats recomputes them
+ * all from the bookings, for existing data or after a correction.
+ */
+
+export const BOOKING_STATS_CONFIG = {
+  COLLECTION: "booking_stats",
+  BOOKINGS_COLLECTION: "bookings",
+  // Trigger events already applied, so a redelivered event is not counted
+  // twice. Give the collection a TTL policy on expireAt.
+  EVENTS_COLLECTION: "booking_stats_events",
+  EVENT_RETENTION_DAYS: 7,
+  // Longer lead times are counted as this many days
+  MAX_LEAD_TIME_DAYS: 365,
+  REBUILD_PAGE_SIZE: 500,
+  // Statuses that mean the booking was confirmed at some point
+  CONVERTED_STATUSES: [
+    "confirmed",
+    "in_progress",
+    "completed",
+    "no_show",
+  ] as BookingStatus[],
+};
+
+export type StatsPeriod = "day" | "month" | "all";
+
+export interface ServiceStats {
+  name: string;
+  bookings: number;
+  revenue: number;
+}
+
+export interface BookingStats {
+  bookings: number;
+  // Bookings that reached confirmed, whatever their status now
+  confirmed: number;
+  cancelled: number;
+  revenue: number;
+  byStatus: Partial<Record<BookingStatus, number>>;
+  // Keyed by service ID, or by name for bookings without one
+  byService: Record<string, ServiceStats>;
+  // Days between booking and service date -> number of bookings
+  leadTimeDays: Record<string, number>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function emptyStats(): BookingStats {
+  return {
+    bookings: 0,
+    confirmed: 0,
+    cancelled: 0,
+    revenue: 0,
+    byStatus: {},
+    byService: {},
+    leadTimeDays: {},
+  };
+}
+
+export function statsDocId(period: StatsPeriod, key?: string): string {
+  return period === "all" ? "all" : `${period}_${key}`;
+}
+
+// Firestore map keys cannot be empty and may not hold every character
+function serviceKey(booking: BookingData): string {
+  return (
+    booking.serviceId ||
+    booking.serviceName.replace(/[^\w-]+/g, "_") ||
+    "unknown"
+  );
+}
+
+/**
+ * Add one booking to (sign 1) or remove it from (sign -1) a set of stats
+ */
+export function addBooking(
+  stats: BookingStats,
+  booking: BookingData,
+  sign: 1 | -1
+): void {
+  const revenue = REVENUE_STATUSES.includes(booking.status)
+    ? bookingRevenue(booking)
+    : 0;
+
+  stats.bookings += sign;
+  stats.revenue += sign * revenue;
+  if (
+    BOOKING_STATS_CONFIG.CONVERTED_STATUSES.includes(booking.status) ||
+    booking.statusTimestamps?.confirmed
+  ) {
+    stats.confirmed += sign;
+  }
+  if (booking.status === "cancelled") {
+    stats.cancelled += sign;
+  }
+  stats.byStatus[booking.status] = (stats.byStatus[booking.status] || 0) + sign;
+
+  const key = serviceKey(booking);
+  const service = stats.byService[key] || {
+    name: booking.serviceName,
+    bookings: 0,
+    revenue: 0,
+  };
+  service.bookings += sign;
+  service.revenue += sign * revenue;
+  stats.byService[key] = service;
+
+  const serviceDay = booking.rentalStart || booking.bookingDate;
+  if (serviceDay) {
+    const leadDays = Math.round(
+      (Date.parse(`${toDayKey(normalizeDate(serviceDay))}T00:00:00Z`) -
+        Date.parse(`${bookingDay(booking)}T00:00:00Z`)) /
+        DAY_MS
+    );
+    if (leadDays >= 0) {
+      const bucket = String(
+        Math.min(leadDays, BOOKING_STATS_CONFIG.MAX_LEAD_TIME_DAYS)
+      );
+      stats.leadTimeDays[bucket] = (stats.leadTimeDays[bucket] || 0) + sign;
+    }
+  }
+}
+
+/**
+ * Sum one set of stats into another
+ */
+export function mergeStats(target: BookingStats, source: BookingStats): void {
+  target.bookings += source.bookings || 0;
+  target.confirmed += source.confirmed || 0;
+  target.cancelled += source.cancelled || 0;
+  target.revenue += source.revenue || 0;
+  Object.entries(source.byStatus || {}).forEach(([status, count]) => {
+    const key = status as BookingStatus;
+    target.byStatus[key] = (target.byStatus[key] || 0) + (count || 0);
+  });
+  Object.entries(source.byService || {}).forEach(([key, service]) => {
+    const existing = target.byService[key] || {
+      name: service.name,
+      bookings: 0,
+      revenue: 0,
+    };
+    existing.bookings += service.bookings || 0;
+    existing.revenue += service.revenue || 0;
+    target.byService[key] = existing;
+  });
+  Object.entries(source.leadTimeDays || {}).forEach(([days, count]) => {
+    target.leadTimeDays[days] = (target.leadTimeDays[days] || 0) + count;
+  });
+}
+
+// The Mauritius day the booking was made, which decides its documents
+function bookingDay(booking: BookingData): string {
+  return localDayKey(normalizeDate(booking.createdAt));
+}
+
+function statsDocIds(booking: BookingData): string[] {
+  const day = bookingDay(booking);
+  return [
+    statsDocId("day", day),
+    statsDocId("month", day.slice(0, 7)),
+    statsDocId("all"),
+  ];
+}
+
+/**
+ * Stats differences as a merge write: numbers become increments, and
+ * unchanged counters are left out. Undefined when nothing changed.
+ */
+function toIncrements(value: object): Record<string, unknown> | undefined {
+  const fields: Record<string, unknown> = {};
+  let changed = false;
+  Object.entries(value).forEach(([key, child]) => {
+    if (typeof child === "number") {
+      if (child !== 0) {
+        fields[key] = FieldValue.increment(child);
+        changed = true;
+      }
+    } else if (child && typeof child === "object") {
+      const nested = toIncrements(child);
+      if (nested) {
+        fields[key] = nested;
+        changed = true;
+      }
+    } else {
+      // Labels such as a service name go along with their counters
+      fields[key] = child;
+    }
+  });
+  return changed ? fields : undefined;
+}
+
+function periodFields(id: string): { period: StatsPeriod; key: string } {
+  if (id === "all") {
+    return { period: "all", key: "all" };
+  }
+  const [period, key] = id.split("_");
+  return { period: period as StatsPeriod, key };
+}
+
+/**
+ * Move a booking's contribution from its old to its new state
+ */
+export const updateBookingStats = onDocumentWritten(
+  "bookings/{bookingId}",
+  async (event) => {
+    const startTime = Date.now();
+    const before = event.data?.before.data() as BookingData | undefined;
+    const after = event.data?.after.data() as BookingData | undefined;
+
+    try {
+      const deltas = new Map<string, BookingStats>();
+      const apply = (booking: BookingData | undefined, sign: 1 | -1) => {
+        if (!booking?.createdAt) return;
+        statsDocIds(booking).forEach((id) => {
+          const stats = deltas.get(id) || emptyStats();
+          addBooking(stats, booking, sign);
+          deltas.set(id, stats);
+        });
+      };
+      apply(before, -1);
+      apply(after, 1);
+
+      const writes = [...deltas.entries()]
+        .map(([id, stats]) => [id, toIncrements(stats)] as const)
+        .filter(([, fields]) => fields !== undefined);
+      if (writes.length === 0) return;
+
+      const db = getFirestore();
+      const eventRef = db
+        .collection(BOOKING_STATS_CONFIG.EVENTS_COLLECTION)
+        .doc(event.id);
+      await db.runTransaction(async (transaction) => {
+        if ((await transaction.get(eventRef)).exists) {
+          return;
+        }
+        transaction.create(eventRef, {
+          bookingId: event.params.bookingId,
+          expireAt: Timestamp.fromMillis(
+            Date.now() + BOOKING_STATS_CONFIG.EVENT_RETENTION_DAYS * DAY_MS
+          ),
+        });
+        writes.forEach(([id, fields]) => {
+          transaction.set(
+            db.collection(BOOKING_STATS_CONFIG.COLLECTION).doc(id),
+            {
+              ...fields,
+              ...periodFields(id),
+              updatedAt: FieldValue.serverTimestamp(),
+            },
+            { merge: true }
+          );
+        });
+      });
+
+      logFunctionMetrics("updateBookingStats", startTime);
+    } catch (error) {
+      logFunctionMetrics("updateBookingStats", startTime, error as Error);
+      throw error;
+    }
+  }
+);
+
+/**
+ * Load the stats documents with the given IDs; missing ones count as empty
+ */
+export async function loadStats(
+  ids: string[]
+): Promise<Map<string, BookingStats>> {
+  const stats = new Map<string, BookingStats>();
+  if (ids.length === 0) return stats;
+
+  const collection = getFirestore().collection(BOOKING_STATS_CONFIG.COLLECTION);
+  const snapshots = await getFirestore().getAll(
+    ...ids.map((id) => collection.doc(id))
+  );
+  snapshots.forEach((snapshot) => {
+    const merged = emptyStats();
+    if (snapshot.exists) {
+      mergeStats(merged, snapshot.data() as BookingStats);
+    }
+    stats.set(snapshot.id, merged);
+  });
+  return stats;
+}
+
+/**
+ * Day keys from one day to another, inclusive
+ */
+export function dayKeysBetween(from: string, to: string): string[] {
+  const days: string[] = [];
+  for (
+    let time = Date.parse(`${from}T00:00:00Z`);
+    time <= Date.parse(`${to}T00:00:00Z`);
+    time += DAY_MS
+  ) {
+    days.push(toDayKey(new Date(time)));
+  }
+  return days;
+}
+
+/**
+ * Recompute every stats document from the bookings. Counters written by
+ * the trigger while this runs may be overwritten, so run it when the
+ * system is quiet.
+ */
+export const rebuildBookingStats = onCall(
+  { timeoutSeconds: 540, memory: "1GiB" },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated");
+    }
+    if (!hasPermission(request.auth.token, Permission.MANAGE_SYSTEM)) {
+      throw new HttpsError("permission-denied", "Insufficient permissions");
+    }
+
+    const db = getFirestore();
+    try {
+      const rebuilt = new Map<string, BookingStats>();
+      let bookingCount = 0;
+      let last: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+
+      for (;;) {
+        let query = db
+          .collection(BOOKING_STATS_CONFIG.BOOKINGS_COLLECTION)
+          .orderBy(FieldPath.documentId())
+          .limit(BOOKING_STATS_CONFIG.REBUILD_PAGE_SIZE);
+        if (last) {
+          query = query.startAfter(last);
+        }
+        const page = await query.get();
+        if (page.empty) break;
+
+        page.docs.forEach((doc) => {
+          const booking = doc.data() as BookingData;
+          if (!booking.createdAt) return;
+          statsDocIds(booking).forEach((id) => {
+            const stats = rebuilt.get(id) || emptyStats();
+            addBooking(stats, booking, 1);
+            rebuilt.set(id, stats);
+          });
+        });
+        bookingCount += page.size;
+        last = page.docs[page.docs.length - 1];
+      }
+
+      const writer = db.bulkWriter();
+      const collection = db.collection(BOOKING_STATS_CONFIG.COLLECTION);
+      const existing = await collection.listDocuments();
+      existing
+        .filter((ref) => !rebuilt.has(ref.id))
+        .forEach((ref) => writer.delete(ref));
+      rebuilt.forEach((stats, id) => {
+        writer.set(collection.doc(id), {
+          ...stats,
+          ...periodFields(id),
+          updatedAt: FieldValue.serverTimestamp(),
+          rebuiltBy: request.auth!.uid,
+        });
+      });
+      await writer.close();
+
+      console.log(
+        `Rebuilt ${rebuilt.size} stats documents from ${bookingCount} bookings`
+      );
+      return { success: true, bookings: bookingCount, documents: rebuilt.size };
+    } catch (error) {
+      console.error("Error rebuilding booking stats:", error);
+      throw new HttpsError("internal", "Failed to rebuild booking stats");
+    }
+  }
+);
@@ -0,0 +1,349 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { getFirestore, FieldValue } from "firebase-admin/firestore";
+import { clientIp, consumeRateLimit } from "./rate-limit";
+import { localDayKey, normalizeDate, toDayKey } from "./utils";
+import { changeContext } from "./booking-history";
+import { assertNotInMaintenance, getSystemStatus } from "./system-config";
+import { isTemplateLocale } from "./notification-templates";
+
+/**
+ * Booking Intake
+ * The public booking form submits through createBooking, which validates and
+ * normalises the request before writing it. Clients cannot create bookings
+ * directly in Firestore. Because every booking notifies the owner, the
+ * function also requires App Check and filters out bots, floods and
+ * double submissions.
+ */
+
+const BOOKING_CONFIG = {
+  BOOKINGS_COLLECTION: "bookings",
+  SERVICES_COLLECTION: "services",
+  // Services booked for a date range instead of a single day
+  RENTAL_SERVICES: ["Car Rental"],
+  // Country code assumed for local numbers entered without one (Mauritius)
+  DEFAULT_COUNTRY_CODE: "230",
+  MAX_NAME_LENGTH: 100,
+  MAX_NOTES_LENGTH: 1000,
+  MAX_RENTAL_DAYS: 60,
+  MAX_DAYS_AHEAD: 365,
+  // Submissions faster than this after opening the form are treated as bots
+  MIN_FILL_TIME_MS: 3000,
+  // Same phone, service and date within this window returns the first booking
+  DUPLICATE_WINDOW_MINUTES: parseInt(
+    process.env.BOOKING_DUPLICATE_WINDOW_MINUTES || "30",
+    10
+  ),
+  PHONE_RATE_LIMIT: {
+    limit: parseInt(process.env.BOOKING_LIMIT_PER_PHONE || "3", 10),
+    windowMs: 60 * 60 * 1000,
+  },
+  IP_RATE_LIMIT: {
+    limit: parseInt(process.env.BOOKING_LIMIT_PER_IP || "10", 10),
+    windowMs: 60 * 60 * 1000,
+  },
+  // Set BOOKING_REQUIRE_APP_CHECK=false only for local emulator testing
+  REQUIRE_APP_CHECK: process.env.BOOKING_REQUIRE_APP_CHECK !== "false",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface BookingRequest {
+  customerName?: unknown;
+  customerEmail?: unknown;
+  customerPhone?: unknown;
+  serviceName?: unknown;
+  bookingDate?: unknown;
+  startDate?: unknown;
+  endDate?: unknown;
+  notes?: unknown;
+  // Language and channel for customer messages
+  locale?: unknown;
+  preferredChannel?: unknown;
+  // Honeypot: hidden from people, filled in by naive bots
+  website?: unknown;
+  // Milliseconds between opening the form and submitting it
+  fillTimeMs?: unknown;
+}
+
+/**
+ * True when the request trips the honeypot or timing checks
+ */
+function looksAutomated(input: BookingRequest): boolean {
+  if (typeof input.website === "string" && input.website.trim()) {
+    return true;
+  }
+  return (
+    typeof input.fillTimeMs === "number" &&
+    input.fillTimeMs < BOOKING_CONFIG.MIN_FILL_TIME_MS
+  );
+}
+
+function bookingDayKey(booking: FirebaseFirestore.DocumentData): string {
+  const date = booking.rentalStart || booking.bookingDate;
+  return date ? toDayKey(normalizeDate(date)) : "";
+}
+
+/**
+ * Find a booking from the same phone for the same service and date created
+ * within the duplicate window
+ */
+async function findDuplicateBooking(
+  fields: Record<string, unknown>
+): Promise<string | null> {
+  const since = new Date(
+    Date.now() - BOOKING_CONFIG.DUPLICATE_WINDOW_MINUTES * 60 * 1000
+  );
+  const recent = await getFirestore()
+    .collection(BOOKING_CONFIG.BOOKINGS_COLLECTION)
+    .where("customerPhone", "==", fields.customerPhone)
+    .where("createdAt", ">=", since)
+    .orderBy("createdAt", "desc")
+    .get();
+
+  const dayKey = bookingDayKey(fields);
+  const duplicate = recent.docs.find((doc) => {
+    const data = doc.data();
+    return (
+      data.serviceName === fields.serviceName && bookingDayKey(data) === dayKey
+    );
+  });
+  return duplicate ? duplicate.id : null;
+}
+
+/**
+ * Normalise a phone number to +<country code><number>, or null if it is not
+ * a plausible phone number
+ */
+export function normalizePhone(phone: string): string | null {
+  let value = phone.trim().replace(/[\s\-().]/g, "");
+  if (value.startsWith("00")) {
+    value = `+${value.slice(2)}`;
+  }
+  if (!value.startsWith("+") && /^\d{7,8}$/.test(value)) {
+    value = `+${BOOKING_CONFIG.DEFAULT_COUNTRY_CODE}${value}`;
+  }
+  return /^\+\d{8,15}$/.test(value) ? value : null;
+}
+
+function requireString(value: unknown, message: string): string {
+  if (typeof value !== "string" || !value.trim()) {
+    throw new HttpsError("invalid-argument", message);
+  }
+  return value.trim();
+}
+
+/**
+ * Parse a yyyy-mm-dd form date that must be between today and the booking
+ * horizon
+ */
+function parseFormDate(value: unknown, label: string): Date {
+  if (typeof value !== "string" || !DATE_PATTERN.test(value)) {
+    throw new HttpsError("invalid-argument", `${label} is required`);
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime()) || toDayKey(date) !== value) {
+    throw new HttpsError("invalid-argument", `${label} is not a valid date`);
+  }
+
+  // Booking dates are Mauritius calendar days, so "today" is the local day
+  const today = new Date(`${localDayKey()}T00:00:00Z`);
+  if (date.getTime() < today.getTime()) {
+    throw new HttpsError("invalid-argument", `${label} cannot be in the past`);
+  }
+  if (
+    date.getTime() - today.getTime() >
+    BOOKING_CONFIG.MAX_DAYS_AHEAD * DAY_MS
+  ) {
+    throw new HttpsError(
+      "invalid-argument",
+      `${label} is too far ahead. Please contact us directly.`
+    );
+  }
+  return date;
+}
+
+/**
+ * Validate a booking request and build the Firestore document fields
+ */
+export function validateBookingRequest(
+  input: BookingRequest
+): Record<string, unknown> {
+  const customerName = requireString(input.customerName, "Name is required");
+  if (
+    customerName.length < 2 ||
+    customerName.length > BOOKING_CONFIG.MAX_NAME_LENGTH
+  ) {
+    throw new HttpsError(
+      "invalid-argument",
+      `Name must be between 2 and ${BOOKING_CONFIG.MAX_NAME_LENGTH} characters`
+    );
+  }
+
+  const customerPhone = normalizePhone(
+    requireString(input.customerPhone, "Phone number is required")
+  );
+  if (!customerPhone) {
+    throw new HttpsError(
+      "invalid-argument",
+      "Please enter a valid phone number, including the country code if outside Mauritius"
+    );
+  }
+
+  const fields: Record<string, unknown> = {
+    customerName,
+    customerPhone,
+    serviceName: requireString(input.serviceName, "Service is required"),
+  };
+
+  if (typeof input.customerEmail === "string" && input.customerEmail.trim()) {
+    const email = input.customerEmail.trim().toLowerCase();
+    if (!EMAIL_PATTERN.test(email)) {
+      throw new HttpsError(
+        "invalid-argument",
+        "Please enter a valid email address"
+      );
+    }
+    fields.customerEmail = email;
+  }
+
+  const notes = typeof input.notes === "string" ? input.notes.trim() : "";
+  if (notes.length > BOOKING_CONFIG.MAX_NOTES_LENGTH) {
+    throw new HttpsError(
+      "invalid-argument",
+      `Notes must be at most ${BOOKING_CONFIG.MAX_NOTES_LENGTH} characters`
+    );
+  }
+  fields.notes = notes;
+
+  if (isTemplateLocale(input.locale)) {
+    fields.locale = input.locale;
+  }
+  if (
+    input.preferredChannel === "email" ||
+    input.preferredChannel === "whatsapp"
+  ) {
+    fields.preferredChannel = input.preferredChannel;
+  }
+
+  return {
+    ...fields,
+    ...validateBookingDates(
+      BOOKING_CONFIG.RENTAL_SERVICES.includes(fields.serviceName as string),
+      input
+    ),
+  };
+}
+
+/**
+ * Validate the service dates of a booking request: a date range for
+ * rentals, a single day otherwise. Customer date change requests go
+ * through the same rules.
+ */
+export function validateBookingDates(
+  isRental: boolean,
+  input: Pick<BookingRequest, "bookingDate" | "startDate" | "endDate">
+): Record<string, Date> {
+  if (!isRental) {
+    return { bookingDate: parseFormDate(input.bookingDate, "Booking date") };
+  }
+
+  const rentalStart = parseFormDate(input.startDate, "Start date");
+  const rentalEnd = parseFormDate(input.endDate, "End date");
+  if (rentalEnd.getTime() < rentalStart.getTime()) {
+    throw new HttpsError(
+      "invalid-argument",
+      "End date cannot be before start date"
+    );
+  }
+  if (
+    (rentalEnd.getTime() - rentalStart.getTime()) / DAY_MS + 1 >
+    BOOKING_CONFIG.MAX_RENTAL_DAYS
+  ) {
+    throw new HttpsError(
+      "invalid-argument",
+      `Rentals longer than ${BOOKING_CONFIG.MAX_RENTAL_DAYS} days must be arranged with us directly`
+    );
+  }
+  return { rentalStart, rentalEnd };
+}
+
+/**
+ * Public booking form submission
+ */
+export const createBooking = onCall(
+  { enforceAppCheck: BOOKING_CONFIG.REQUIRE_APP_CHECK },
+  async (request) => {
+    const input: BookingRequest = request.data || {};
+    const db = getFirestore();
+
+    if (looksAutomated(input)) {
+      // Answer like a success so bots get no signal, but store nothing
+      console.warn("Discarded automated booking submission");
+      return {
+        success: true,
+        bookingId: db.collection(BOOKING_CONFIG.BOOKINGS_COLLECTION).doc().id,
+      };
+    }
+
+    await assertNotInMaintenance();
+    await consumeRateLimit(
+      "booking_ip",
+      clientIp(request.rawRequest),
+      BOOKING_CONFIG.IP_RATE_LIMIT
+    );
+    const fields = validateBookingRequest(input);
+    const { paymentsEnabled } = await getSystemStatus();
+
+    try {
+      const duplicateId = await findDuplicateBooking(fields);
+      if (duplicateId) {
+        return { success: true, bookingId: duplicateId, duplicate: true };
+      }
+
+      await consumeRateLimit(
+        "booking_phone",
+        fields.customerPhone as string,
+        BOOKING_CONFIG.PHONE_RATE_LIMIT
+      );
+
+      const services = await db
+        .collection(BOOKING_CONFIG.SERVICES_COLLECTION)
+        .where("name", "==", fields.serviceName)
+        .where("active", "==", true)
+        .limit(1)
+        .get();
+      if (services.empty) {
+        throw new HttpsError(
+          "invalid-argument",
+          "The selected service is not available"
+        );
+      }
+
+      const bookingRef = await db
+        .collection(BOOKING_CONFIG.BOOKINGS_COLLECTION)
+        .add({
+          ...fields,
+          serviceId: services.docs[0].id,
+          status: "pending",
+          statusTimestamps: { pending: FieldValue.serverTimestamp() },
+          // Taken while payments were switched off: staff follow up by phone
+          ...(paymentsEnabled ? {} : { enquiryOnly: true }),
+          ...(request.auth ? { userId: request.auth.uid } : {}),
+          createdAt: FieldValue.serverTimestamp(),
+          updatedAt: FieldValue.serverTimestamp(),
+          ...changeContext(request.auth?.uid ?? null, "customer"),
+        });
+
+      return { success: true, bookingId: bookingRef.id };
+    } catch (error) {
+      console.error("Error creating booking:", error);
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      throw new HttpsError("internal", "Failed to create booking");
+    }
+  }
+);
@@ -0,0 +1,429 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { getFirestore, FieldValue } from "firebase-admin/firestore";
+import { createHash, createHmac, randomInt, timingSafeEqual } from "crypto";
+import { BookingData } from "./types";
+import { normalizeDate } from "./utils";
+import { canTransition, transitionBooking } from "./booking-lifecycle";
+import { changeContext } from "./booking-history";
+import { validateBookingDates } from "./bookings";
+import { isEmailConfigured, sendEmail } from "./email";
+import { resolveLocale } from "./notification-templates";
+import {
+  isCloudApiConfigured,
+  sendCloudMessage,
+  WHATSAPP_CONFIG,
+} from "./whatsapp";
+
+/**
+ * Customer Self-Service Portal
+ * Lets customers look up, cancel or request a date change for their booking
+ * after proving ownership with a signed link or a one-time code sent to the
+ * phone number on the booking. Date change requests are approved or declined
+ * from the dashboard (see date-changes.ts).
+ */
+
+const PORTAL_CONFIG = {
+  BOOKINGS_COLLECTION: "bookings",
+  OTP_COLLECTION: "booking_otps",
+  // system_config document holding the live cutoff settings
+  CONFIG_DOC: "customer_portal",
+  // Hours before the service start after which customers can no longer
+  // cancel or request changes online (overridable in system_config)
+  DEFAULT_CHANGE_CUTOFF_HOURS: Number(
+    process.env.CUSTOMER_CHANGE_CUTOFF_HOURS || 48
+  ),
+  OTP_TTL_MS: 10 * 60 * 1000,
+  OTP_RESEND_COOLDOWN_MS: 60 * 1000,
+  OTP_MAX_ATTEMPTS: 5,
+  // Lifetime of the signed links in emails and of sessions opened via OTP
+  LINK_TOKEN_TTL_MS: 60 * 24 * 60 * 60 * 1000,
+  SESSION_TOKEN_TTL_MS: 60 * 60 * 1000,
+  MAX_REASON_LENGTH: 500,
+};
+
+const linkSecret = process.env.BOOKING_LINK_SECRET;
+const publicSiteUrl = process.env.PUBLIC_SITE_URL;
+const whatsappWebhookUrl = process.env.WHATSAPP_WEBHOOK_URL;
+const whatsappApiToken = process.env.WHATSAPP_API_TOKEN;
+
+function requireSecret(): string {
+  if (!linkSecret) {
+    throw new HttpsError(
+      "failed-precondition",
+      "Customer booking access is not configured"
+    );
+  }
+  return linkSecret;
+}
+
+function sign(payload: string): string {
+  return createHmac("sha256", requireSecret())
+    .update(payload)
+    .digest("base64url");
+}
+
+/**
+ * Create a signed access token for a booking. Tokens embed their expiry and
+ * are verified statelessly.
+ */
+export function createBookingAccessToken(
+  bookingId: string,
+  ttlMs: number = PORTAL_CONFIG.LINK_TOKEN_TTL_MS
+): string {
+  const payload = `${bookingId}.${Date.now() + ttlMs}`;
+  return `${Buffer.from(payload).toString("base64url")}.${sign(payload)}`;
+}
+
+/**
+ * Build the customer-facing link to manage a booking, or null when the site
+ * URL or signing secret are not configured.
+ */
+export function buildBookingPortalLink(bookingId: string): string | null {
+  if (!publicSiteUrl || !linkSecret) {
+    return null;
+  }
+  const baseUrl = publicSiteUrl.replace(/\/$/, "");
+  const token = createBookingAccessToken(bookingId);
+  return `${baseUrl}/booking/${bookingId}?token=${token}`;
+}
+
+function verifyBookingAccessToken(bookingId: string, token: unknown): void {
+  if (typeof token !== "string" || !token.includes(".")) {
+    throw new HttpsError("unauthenticated", "A valid access token is required");
+  }
+
+  const [encodedPayload, signature] = token.split(".");
+  const payload = Buffer.from(encodedPayload, "base64url").toString();
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature || "");
+
+  const [tokenBookingId, expiresAt] = payload.split(".");
+  if (
+    actual.length !== expected.length ||
+    !timingSafeEqual(actual, expected) ||
+    tokenBookingId !== bookingId
+  ) {
+    throw new HttpsError("unauthenticated", "Invalid access token");
+  }
+
+  if (Number(expiresAt) < Date.now()) {
+    throw new HttpsError("unauthenticated", "Access token has expired");
+  }
+}
+
+function digitsOnly(phone: string): string {
+  return (phone || "").replace(/\D/g, "");
+}
+
+/**
+ * Phone numbers match when the shorter one is a suffix of the longer, so that
+ * "+230 5707 1414" and "57071414" are treated as the same number.
+ */
+function phonesMatch(a: string, b: string): boolean {
+  const [shorter, longer] = [digitsOnly(a), digitsOnly(b)].sort(
+    (x, y) => x.length - y.length
+  );
+  return shorter.length >= 7 && longer.endsWith(shorter);
+}
+
+function hashOtp(bookingId: string, code: string): string {
+  return createHash("sha256").update(`${bookingId}:${code}`).digest("hex");
+}
+
+async function loadBooking(
+  bookingId: unknown
+): Promise<{ ref: FirebaseFirestore.DocumentReference; data: BookingData }> {
+  if (typeof bookingId !== "string" || !bookingId) {
+    throw new HttpsError("invalid-argument", "bookingId is required");
+  }
+
+  const ref = getFirestore()
+    .collection(PORTAL_CONFIG.BOOKINGS_COLLECTION)
+    .doc(bookingId);
+  const snapshot = await ref.get();
+  if (!snapshot.exists) {
+    throw new HttpsError("not-found", "Booking not found");
+  }
+  return { ref, data: snapshot.data() as BookingData };
+}
+
+async function getChangeCutoffHours(): Promise<number> {
+  const configDoc = await getFirestore()
+    .collection("system_config")
+    .doc(PORTAL_CONFIG.CONFIG_DOC)
+    .get();
+  const configured = configDoc.data()?.changeCutoffHours;
+  return typeof configured === "number"
+    ? configured
+    : PORTAL_CONFIG.DEFAULT_CHANGE_CUTOFF_HOURS;
+}
+
+function serviceStart(booking: BookingData): Date | null {
+  const start = booking.rentalStart || booking.bookingDate;
+  return start ? normalizeDate(start) : null;
+}
+
+function toIso(
+  value: BookingData["bookingDate"] | undefined | null
+): string | null {
+  return value ? normalizeDate(value).toISOString() : null;
+}
+
+/**
+ * Customer-safe view of a booking, including whether changes are still allowed
+ */
+function toCustomerView(
+  bookingId: string,
+  booking: BookingData,
+  cutoffHours: number
+) {
+  const start = serviceStart(booking);
+  const changeDeadline = start
+    ? new Date(start.getTime() - cutoffHours * 60 * 60 * 1000)
+    : null;
+  const canModify =
+    canTransition(booking.status, "cancelled") &&
+    booking.status !== "suspended" &&
+    (!changeDeadline || Date.now() < changeDeadline.getTime());
+
+  return {
+    id: bookingId,
+    customerName: booking.customerName,
+    serviceName: booking.serviceName,
+    status: booking.status,
+    bookingDate: toIso(booking.bookingDate),
+    rentalStart: toIso(booking.rentalStart),
+    rentalEnd: toIso(booking.rentalEnd),
+    notes: booking.notes || "",
+    quote: booking.quote || null,
+    dateChangeRequest: booking.dateChangeRequest
+      ? {
+          ...booking.dateChangeRequest,
+          bookingDate: toIso(booking.dateChangeRequest.bookingDate),
+          rentalStart: toIso(booking.dateChangeRequest.rentalStart),
+          rentalEnd: toIso(booking.dateChangeRequest.rentalEnd),
+          requestedAt: toIso(booking.dateChangeRequest.requestedAt),
+          resolvedAt: toIso(booking.dateChangeRequest.resolvedAt),
+        }
+      : null,
+    canModify,
+    changeDeadline: changeDeadline ? changeDeadline.toISOString() : null,
+  };
+}
+
+async function deliverOtp(booking: BookingData, code: string): Promise<string> {
+  const message = `Your Shanal Tours verification code is ${code}. It expires in 10 minutes.`;
+
+  if (isCloudApiConfigured()) {
+    try {
+      await sendCloudMessage(booking.customerPhone, message, {
+        name: WHATSAPP_CONFIG.OTP_TEMPLATE,
+        language: WHATSAPP_CONFIG.LANGUAGE_CODES[resolveLocale(booking.locale)],
+        parameters: [code],
+        buttonParameter: code,
+      });
+      return "whatsapp";
+    } catch (error) {
+      console.error("OTP WhatsApp delivery failed:", error);
+    }
+  } else if (whatsappWebhookUrl) {
+    const response = await fetch(whatsappWebhookUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(whatsappApiToken
+          ? { Authorization: `Bearer ${whatsappApiToken}` }
+          : {}),
+      },
+      body: JSON.stringify({ to: digitsOnly(booking.customerPhone), message }),
+    });
+    if (response.ok) {
+      return "whatsapp";
+    }
+    console.error(`OTP WhatsApp delivery failed: ${await response.text()}`);
+  }
+
+  if (isEmailConfigured() && booking.customerEmail) {
+    try {
+      await sendEmail({
+        to: booking.customerEmail,
+        subject: "Your Shanal Tours verification code",
+        text: message,
+      });
+      return "email";
+    } catch (error) {
+      console.error("OTP email delivery failed:", error);
+    }
+  }
+
+  throw new HttpsError(
+    "unavailable",
+    "We could not send a verification code. Please contact us directly."
+  );
+}
+
+/**
+ * Send a one-time code to the customer after checking the phone number
+ * matches the booking
+ */
+export const requestBookingOtp = onCall(async (request) => {
+  const { bookingId, phone } = request.data || {};
+  if (typeof phone !== "string" || !phone.trim()) {
+    throw new HttpsError("invalid-argument", "phone is required");
+  }
+
+  const { data: booking } = await loadBooking(bookingId);
+  if (!phonesMatch(phone, booking.customerPhone)) {
+    // Same error as a missing booking so IDs cannot be probed by phone
+    throw new HttpsError("not-found", "Booking not found");
+  }
+
+  const otpRef = getFirestore()
+    .collection(PORTAL_CONFIG.OTP_COLLECTION)
+    .doc(bookingId);
+  const existing = (await otpRef.get()).data();
+  if (
+    existing?.sentAt &&
+    Date.now() - existing.sentAt < PORTAL_CONFIG.OTP_RESEND_COOLDOWN_MS
+  ) {
+    throw new HttpsError(
+      "resource-exhausted",
+      "Please wait a minute before requesting another code"
+    );
+  }
+
+  const code = randomInt(0, 1000000).toString().padStart(6, "0");
+  await otpRef.set({
+    codeHash: hashOtp(bookingId, code),
+    expiresAt: Date.now() + PORTAL_CONFIG.OTP_TTL_MS,
+    sentAt: Date.now(),
+    attempts: 0,
+  });
+
+  const channel = await deliverOtp(booking, code);
+  return { success: true, channel };
+});
+
+/**
+ * Exchange a valid one-time code for a short-lived access token
+ */
+export const verifyBookingOtp = onCall(async (request) => {
+  const { bookingId, code } = request.data || {};
+  if (typeof bookingId !== "string" || typeof code !== "string") {
+    throw new HttpsError("invalid-argument", "bookingId and code are required");
+  }
+
+  const otpRef = getFirestore()
+    .collection(PORTAL_CONFIG.OTP_COLLECTION)
+    .doc(bookingId);
+
+  const verified = await getFirestore().runTransaction(async (transaction) => {
+    const otp = (await transaction.get(otpRef)).data();
+    if (!otp || otp.expiresAt < Date.now()) {
+      throw new HttpsError(
+        "deadline-exceeded",
+        "Code expired. Request a new one."
+      );
+    }
+    if (otp.attempts >= PORTAL_CONFIG.OTP_MAX_ATTEMPTS) {
+      throw new HttpsError(
+        "resource-exhausted",
+        "Too many attempts. Request a new code."
+      );
+    }
+
+    if (otp.codeHash !== hashOtp(bookingId, code.trim())) {
+      transaction.update(otpRef, { attempts: FieldValue.increment(1) });
+      return false;
+    }
+
+    transaction.delete(otpRef);
+    return true;
+  });
+
+  if (!verified) {
+    throw new HttpsError("permission-denied", "Incorrect code");
+  }
+
+  return {
+    token: createBookingAccessToken(
+      bookingId,
+      PORTAL_CONFIG.SESSION_TOKEN_TTL_MS
+    ),
+  };
+});
+
+/**
+ * Get the customer view of a booking
+ */
+export const getCustomerBooking = onCall(async (request) => {
+  const { bookingId, token } = request.data || {};
+  verifyBookingAccessToken(bookingId, token);
+  const { data: booking } = await loadBooking(bookingId);
+
+  const cutoffHours = await getChangeCutoffHours();
+  return { booking: toCustomerView(bookingId, booking, cutoffHours) };
+});
+
+/**
+ * Cancel a booking or request new dates on behalf of the customer, enforcing
+ * the change cutoff
+ */
+export const updateCustomerBooking = onCall(async (request) => {
+  const {
+    bookingId,
+    token,
+    action,
+    reason,
+    bookingDate,
+    rentalStart,
+    rentalEnd,
+  } = request.data || {};
+  verifyBookingAccessToken(bookingId, token);
+  const { ref, data: booking } = await loadBooking(bookingId);
+
+  if (reason && String(reason).length > PORTAL_CONFIG.MAX_REASON_LENGTH) {
+    throw new HttpsError("invalid-argument", "Reason is too long");
+  }
+
+  const cutoffHours = await getChangeCutoffHours();
+  if (!toCustomerView(bookingId, booking, cutoffHours).canModify) {
+    throw new HttpsError(
+      "failed-precondition",
+      `Online changes close ${cutoffHours} hours before the service. Please contact us directly.`
+    );
+  }
+
+  if (action === "cancel") {
+    await transitionBooking(ref, "cancelled", "customer", "customer", {
+      cancelledBy: "customer",
+      cancelledAt: FieldValue.serverTimestamp(),
+      cancellationReason: reason || null,
+    });
+  } else if (action === "request_date_change") {
+    const requested = validateBookingDates(!!booking.rentalStart, {
+      bookingDate,
+      startDate: rentalStart,
+      endDate: rentalEnd,
+    });
+
+    await ref.update({
+      dateChangeRequest: {
+        ...requested,
+        reason: reason || null,
+        status: "pending",
+        requestedAt: FieldValue.serverTimestamp(),
+      },
+      updatedAt: FieldValue.serverTimestamp(),
+      ...changeContext("customer", "customer"),
+    });
+  } else {
+    throw new HttpsError(
+      "invalid-argument",
+      "Invalid action. Must be 'cancel' or 'request_date_change'"
+    );
+  }
+
+  const updated = (await ref.get()).data() as BookingData;
+  return { booking: toCustomerView(bookingId, updated, cutoffHours) };
+});
@@ -0,0 +1,185 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { getFirestore, FieldValue } from "firebase-admin/firestore";
+import { hasPermission, Permission } from "./admin";
+import { BookingData } from "./types";
+import { localDayKey, normalizeDate, toDayKey } from "./utils";
+import { canTransition } from "./booking-lifecycle";
+import { changeContext } from "./booking-history";
+import { findVehicleForDates } from "./fleet";
+import { quoteBooking } from "./pricing";
+import { describeStaffClash, findStaffClash } from "./staff";
+
+/**
+ * Date changes
+ *
+ * Customers ask for new dates from the self-service portal
+ * (customer-portal.ts); staff approve or decline the request here.
+ */
+
+const DATE_CHANGE_CONFIG = {
+  BOOKINGS_COLLECTION: "bookings",
+};
+
+/**
+ * Staff approve or decline a customer's date change request. Approving moves
+ * the booking to the requested dates, keeping or reassigning its car for
+ * rentals and checking the assigned driver or guide is still free; the
+ * customer is told of the new dates by notifyCustomerOnBookingChange.
+ */
+export const resolveDateChangeRequest = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated");
+  }
+  if (!hasPermission(request.auth.token, Permission.EDIT_BOOKINGS)) {
+    throw new HttpsError(
+      "permission-denied",
+      "Insufficient permissions to change booking dates"
+    );
+  }
+
+  const { bookingId, action } = request.data || {};
+  if (!bookingId || !["approve", "decline"].includes(action)) {
+    throw new HttpsError(
+      "invalid-argument",
+      "bookingId and an action of 'approve' or 'decline' are required"
+    );
+  }
+
+  const db = getFirestore();
+  const uid = request.auth.uid;
+  const ref = db
+    .collection(DATE_CHANGE_CONFIG.BOOKINGS_COLLECTION)
+    .doc(bookingId);
+
+  try {
+    return await db.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      const booking = snapshot.data() as BookingData | undefined;
+      if (!booking) {
+        throw new HttpsError("not-found", "Booking not found");
+      }
+
+      const change = booking.dateChangeRequest;
+      if (change?.status !== "pending") {
+        throw new HttpsError(
+          "failed-precondition",
+          "There is no pending date change request for this booking"
+        );
+      }
+
+      if (action === "decline") {
+        transaction.update(ref, {
+          dateChangeRequest: {
+            ...change,
+            status: "declined",
+            resolvedAt: FieldValue.serverTimestamp(),
+          },
+          updatedAt: FieldValue.serverTimestamp(),
+          ...changeContext(uid, "dashboard"),
+        });
+        return { success: true, message: "Date change declined" };
+      }
+
+      if (!canTransition(booking.status, "cancelled")) {
+        throw new HttpsError(
+          "failed-precondition",
+          "Only open bookings can be moved to new dates"
+        );
+      }
+
+      const requestedDates = booking.rentalStart
+        ? [change.rentalStart, change.rentalEnd]
+        : [change.bookingDate];
+      if (requestedDates.some((date) => !date)) {
+        throw new HttpsError(
+          "failed-precondition",
+          "The request does not include new dates"
+        );
+      }
+
+      const updates: Record<string, unknown> = {};
+      let firstDay: Date;
+      if (booking.rentalStart) {
+        const rentalStart = normalizeDate(change.rentalStart!);
+        const rentalEnd = normalizeDate(change.rentalEnd!);
+        firstDay = rentalStart;
+
+        const vehicle = await findVehicleForDates(
+          transaction,
+          bookingId,
+          booking.vehicleId,
+          rentalStart,
+          rentalEnd
+        );
+        if (!vehicle) {
+          throw new HttpsError(
+            "already-exists",
+            `No car is free from ${toDayKey(rentalStart)} to ${toDayKey(
+              rentalEnd
+            )}`
+          );
+        }
+
+        Object.assign(updates, {
+          rentalStart,
+          rentalEnd,
+          ...vehicle,
+          availabilityConflict: false,
+        });
+        if (booking.quote) {
+          updates.quote = quoteBooking(
+            { ...booking, rentalStart, rentalEnd },
+            booking.quote.unitPrice
+          );
+        }
+      } else {
+        const bookingDate = normalizeDate(change.bookingDate!);
+        firstDay = bookingDate;
+
+        if (booking.staffId) {
+          const clash = await findStaffClash(
+            transaction,
+            booking.staffId,
+            bookingId,
+            { ...booking, bookingDate }
+          );
+          if (clash) {
+            throw new HttpsError(
+              "already-exists",
+              `${describeStaffClash(
+                booking.staffName || "The assigned driver",
+                clash
+              )}. Unassign them first.`
+            );
+          }
+        }
+        updates.bookingDate = bookingDate;
+      }
+
+      if (toDayKey(firstDay) < localDayKey()) {
+        throw new HttpsError(
+          "failed-precondition",
+          "The requested dates have already passed"
+        );
+      }
+
+      transaction.update(ref, {
+        ...updates,
+        dateChangeRequest: {
+          ...change,
+          status: "approved",
+          resolvedAt: FieldValue.serverTimestamp(),
+        },
+        updatedAt: FieldValue.serverTimestamp(),
+        ...changeContext(uid, "dashboard"),
+      });
+      return { success: true, message: "Booking moved to the new dates" };
+    });
+  } catch (error) {
+    console.error("Error resolving date change request:", error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError("internal", "Failed to resolve date change request");
+  }
+});
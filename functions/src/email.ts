@@ -0,0 +1,191 @@
+import { mkdir, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createTransport } from "nodemailer";
+
+/**
+ * Email providers
+ *
+ * All email goes through sendEmail(), which hands it to the provider chosen
+ * by EMAIL_PROVIDER: SendGrid, any SMTP server, or a sink that writes each
+ * message to a local folder instead of sending it. Without EMAIL_PROVIDER
+ * the provider follows from the credentials present, and the Functions
+ * emulator falls back to the sink, so notification flows can be tested
+ * offline.
+ */
+
+export type EmailProviderName = "sendgrid" | "smtp" | "sink";
+
+export const EMAIL_CONFIG = {
+  PROVIDER: process.env.EMAIL_PROVIDER as EmailProviderName | undefined,
+  FROM: process.env.NOTIFICATION_EMAIL_FROM || "notifications@shanalcars.com",
+  SENDGRID_API_KEY: process.env.SENDGRID_API_KEY,
+  SMTP_HOST: process.env.SMTP_HOST,
+  SMTP_PORT: Number(process.env.SMTP_PORT || 587),
+  SMTP_USER: process.env.SMTP_USER,
+  SMTP_PASS: process.env.SMTP_PASS,
+  // Folder the sink writes to; one JSON file (plus .html) per message
+  SINK_DIR: process.env.EMAIL_SINK_DIR || join(tmpdir(), "shanal-mail"),
+};
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface EmailProvider {
+  name: EmailProviderName;
+  // Resolves with the provider's message ID where it gives one
+  send(message: EmailMessage): Promise<string | void>;
+}
+
+function sendgridProvider(): EmailProvider {
+  return {
+    name: "sendgrid",
+    async send(message) {
+      if (!EMAIL_CONFIG.SENDGRID_API_KEY) {
+        throw new Error("SendGrid is not configured");
+      }
+
+      const response = await fetch("https://api.sendgrid.com/v3/mail/send", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${EMAIL_CONFIG.SENDGRID_API_KEY}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          personalizations: [{ to: [{ email: message.to }] }],
+          from: { email: EMAIL_CONFIG.FROM },
+          subject: message.subject,
+          content: [
+            { type: "text/plain", value: message.text },
+            ...(message.html
+              ? [{ type: "text/html", value: message.html }]
+              : []),
+          ],
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(
+          `SendGrid failed with status ${response.status}: ${errorText}`
+        );
+      }
+      return response.headers.get("x-message-id") || undefined;
+    },
+  };
+}
+
+function smtpProvider(): EmailProvider {
+  if (!EMAIL_CONFIG.SMTP_HOST) {
+    throw new Error("SMTP is not configured");
+  }
+
+  const transport = createTransport({
+    host: EMAIL_CONFIG.SMTP_HOST,
+    port: EMAIL_CONFIG.SMTP_PORT,
+    // Port 465 is TLS from the start; others upgrade with STARTTLS
+    secure: EMAIL_CONFIG.SMTP_PORT === 465,
+    ...(EMAIL_CONFIG.SMTP_USER
+      ? { auth: { user: EMAIL_CONFIG.SMTP_USER, pass: EMAIL_CONFIG.SMTP_PASS } }
+      : {}),
+  });
+
+  return {
+    name: "smtp",
+    async send(message) {
+      const info = await transport.sendMail({
+        from: EMAIL_CONFIG.FROM,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        ...(message.html ? { html: message.html } : {}),
+      });
+      return info.messageId;
+    },
+  };
+}
+
+function sinkProvider(): EmailProvider {
+  return {
+    name: "sink",
+    async send(message) {
+      const id = `${Date.now()}-${message.to.replace(/[^a-z0-9]+/gi, "_")}`;
+      await mkdir(EMAIL_CONFIG.SINK_DIR, { recursive: true });
+      await writeFile(
+        join(EMAIL_CONFIG.SINK_DIR, `${id}.json`),
+        JSON.stringify(
+          { from: EMAIL_CONFIG.FROM, ...message, sentAt: new Date() },
+          null,
+          2
+        )
+      );
+      if (message.html) {
+        await writeFile(
+          join(EMAIL_CONFIG.SINK_DIR, `${id}.html`),
+          message.html
+        );
+      }
+      console.log(
+        `Email to ${message.to} ("${message.subject}") written to ${EMAIL_CONFIG.SINK_DIR}`
+      );
+      return id;
+    },
+  };
+}
+
+const EMAIL_PROVIDERS: Record<EmailProviderName, () => EmailProvider> = {
+  sendgrid: sendgridProvider,
+  smtp: smtpProvider,
+  sink: sinkProvider,
+};
+
+function configuredProviderName(): EmailProviderName | null {
+  if (EMAIL_CONFIG.PROVIDER) {
+    return EMAIL_CONFIG.PROVIDER;
+  }
+  if (EMAIL_CONFIG.SENDGRID_API_KEY) {
+    return "sendgrid";
+  }
+  if (EMAIL_CONFIG.SMTP_HOST) {
+    return "smtp";
+  }
+  if (process.env.FUNCTIONS_EMULATOR === "true") {
+    return "sink";
+  }
+  return null;
+}
+
+let provider: EmailProvider | null | undefined;
+
+/**
+ * The configured provider, or null if email is not set up
+ */
+export function emailProvider(): EmailProvider | null {
+  if (provider === undefined) {
+    const name = configuredProviderName();
+    if (name && !EMAIL_PROVIDERS[name]) {
+      throw new Error(`Unknown EMAIL_PROVIDER "${name}"`);
+    }
+    provider = name ? EMAIL_PROVIDERS[name]() : null;
+  }
+  return provider;
+}
+
+export function isEmailConfigured(): boolean {
+  return configuredProviderName() !== null;
+}
+
+/**
+ * Send an email through the configured provider
+ */
+export async function sendEmail(message: EmailMessage): Promise<string | void> {
+  const configured = emailProvider();
+  if (!configured) {
+    throw new Error("No email provider is configured");
+  }
+  return configured.send(message);
+}
@@ -2,6 +2,10 @@ import { onCall } from "firebase-functions/v2/https";
 import { getAuth } from "firebase-admin/auth";
 import { getFirestore, FieldValue } from "firebase-admin/firestore";
 import { HttpsError } from "firebase-functions/v2/https";
+import { statusChangeFields } from "./booking-lifecycle";
+import { appendAuditEntry } from "./audit-chain";
+import { restoreBackup, startBackup } from "./backups";
+import { publishSystemStatus } from "./system-config";
 
 /**
  * Emergency Response System
@@ -113,7 +117,6 @@ async function logEmergencyAction(
       action,
       performedBy,
       details,
-      timestamp: FieldValue.serverTimestamp(),
       ipAddress: ipAddress || "unknown",
       userAgent: userAgent || "unknown",
       sessionId: details.sessionId || "unknown",
@@ -123,18 +126,12 @@ async function logEmergencyAction(
         severity: details.severity || "unknown",
         justification: details.justification || "unknown",
       },
-      // Add cryptographic hash for integrity verification
-      integrityHash: await generateEmergencyIntegrityHash(
-        functionName,
-        performedBy,
-        action,
-        details
-      ),
     };
 
-    await getFirestore()
-      .collection(EMERGENCY_CONFIG.EMERGENCY_AUDIT_COLLECTION)
-      .add(auditLog);
+    await appendAuditEntry(
+      EMERGENCY_CONFIG.EMERGENCY_AUDIT_COLLECTION,
+      auditLog
+    );
 
     // Also update emergency status
     await getFirestore()
@@ -159,22 +156,6 @@ async function logEmergencyAction(
   }
 }
 
-/**
- * Generate integrity hash for emergency audit log verification
- */
-async function generateEmergencyIntegrityHash(
-  functionName: string,
-  performedBy: string,
-  action: string,
-  details: any
-): Promise<string> {
-  const crypto = require("crypto");
-  const data = `${functionName}:${performedBy}:${action}:${JSON.stringify(
-    details
-  )}:${Date.now()}`;
-  return crypto.createHash("sha256").update(data).digest("hex");
-}
-
 /**
  * Emergency function to disable all payment processing
  */
@@ -231,17 +212,20 @@ export const emergencyDisablePayments = onCall(async (request) => {
       },
       { merge: true }
     );
+    await publishSystemStatus();
 
-    // Update all pending payments to "suspended" status
+    // Suspend bookings still waiting for a first payment. Bookings with a
+    // deposit paid are left alone: a suspended booking can only be reopened
+    // as pending, which would lose the record of the deposit.
     const pendingPayments = await getFirestore()
       .collection("bookings")
-      .where("status", "in", ["pending_payment", "pending"])
+      .where("status", "in", ["pending", "quoted"])
       .get();
 
     const batch = getFirestore().batch();
     pendingPayments.docs.forEach((doc) => {
       batch.update(doc.ref, {
-        status: "suspended",
+        ...statusChangeFields("suspended", emergencyTeamMemberUid, "emergency"),
         suspendedAt: FieldValue.serverTimestamp(),
         suspendedBy: emergencyTeamMemberUid,
         incidentId,
@@ -330,6 +314,7 @@ export const emergencyEnablePayments = onCall(async (request) => {
       },
       { merge: true }
     );
+    await publishSystemStatus();
 
     // Log the emergency action
     await logEmergencyAction(
@@ -395,19 +380,14 @@ export const emergencyDatabaseBackup = onCall(async (request) => {
   }
 
   try {
-    // Create emergency backup
-    const backupId = `emergency_backup_${Date.now()}`;
-
-    // In a real implementation, this would trigger a Firebase backup
-    // For now, we'll create a backup record
-    await getFirestore().collection("emergency_backups").doc(backupId).set({
-      backupId,
+    // The export runs in runDatabaseBackup; progress is tracked on the
+    // emergency_backups document
+    const backupId = await startBackup({
       incidentId,
       severity,
-      createdBy: emergencyTeamMemberUid,
-      createdAt: FieldValue.serverTimestamp(),
-      status: "IN_PROGRESS",
       justification,
+      createdBy: emergencyTeamMemberUid,
+      reason: "emergency",
     });
 
     // Log the emergency action
@@ -446,6 +426,92 @@ export const emergencyDatabaseBackup = onCall(async (request) => {
   }
 });
 
+/**
+ * Restore a completed backup. Defaults to a dry run, which reports what
+ * would be created or overwritten without writing anything.
+ */
+export const restoreDatabaseBackup = onCall(
+  { timeoutSeconds: 540, memory: "1GiB" },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated");
+    }
+
+    const {
+      backupId,
+      collections,
+      dryRun = true,
+      incidentId,
+      severity,
+      justification,
+    } = request.data || {};
+    const emergencyTeamMemberUid = request.auth.uid;
+
+    if (!backupId) {
+      throw new HttpsError("invalid-argument", "backupId is required");
+    }
+    if (collections !== undefined && !Array.isArray(collections)) {
+      throw new HttpsError("invalid-argument", "collections must be a list");
+    }
+    if (!dryRun && (!incidentId || !severity || !justification)) {
+      throw new HttpsError(
+        "invalid-argument",
+        "Missing required fields: incidentId, severity, justification"
+      );
+    }
+
+    const isEmergencyTeamMember = await verifyEmergencyTeamMember(
+      emergencyTeamMemberUid
+    );
+    if (!isEmergencyTeamMember) {
+      throw new HttpsError(
+        "permission-denied",
+        "Only emergency response team members can execute emergency functions"
+      );
+    }
+
+    try {
+      const report = await restoreBackup(backupId, {
+        dryRun: dryRun !== false,
+        collections,
+        restoredBy: emergencyTeamMemberUid,
+      });
+
+      if (!report.dryRun) {
+        await logEmergencyAction(
+          "restoreDatabaseBackup",
+          emergencyTeamMemberUid,
+          "restore_backup",
+          {
+            incidentId,
+            severity,
+            justification,
+            backupId,
+            collections: report.collections,
+          },
+          request.rawRequest?.ip,
+          request.rawRequest?.headers?.["user-agent"]
+        );
+
+        await sendEmergencyNotifications("DATABASE_BACKUP_RESTORED", {
+          incidentId,
+          severity,
+          performedBy: emergencyTeamMemberUid,
+          backupId,
+        });
+      }
+
+      return { success: true, ...report };
+    } catch (error) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      console.error("Error restoring database backup:", error);
+      throw new HttpsError("internal", "Failed to restore backup");
+    }
+  }
+);
+
 /**
  * Get emergency status and recent actions
  */
@@ -0,0 +1,401 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { onDocumentCreated } from "firebase-functions/v2/firestore";
+import { getFirestore, FieldValue } from "firebase-admin/firestore";
+import { hasPermission, Permission } from "./admin";
+import { logFunctionMetrics } from "./monitoring";
+import { BookingData, VehicleData } from "./types";
+import { normalizeDate, toDayKey } from "./utils";
+import { RELEASED_STATUSES } from "./booking-lifecycle";
+import { changeContext } from "./booking-history";
+
+/**
+ * Fleet Inventory and Availability for Car Rental bookings
+ * Assigns vehicles to rentals and prevents double-booking of cars
+ */
+
+// Fleet configuration
+const FLEET_CONFIG = {
+  VEHICLES_COLLECTION: "vehicles",
+  BOOKINGS_COLLECTION: "bookings",
+  // Bookings with this service name occupy a vehicle for their rental period
+  CAR_RENTAL_SERVICE: "Car Rental",
+  // Default and maximum number of days returned by availability lookups
+  DEFAULT_AVAILABILITY_DAYS: 90,
+  MAX_AVAILABILITY_DAYS: 180,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface RentalRecord {
+  id: string;
+  vehicleId: string | null;
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Inclusive overlap check for two rental periods
+ */
+function periodsOverlap(
+  startA: Date,
+  endA: Date,
+  startB: Date,
+  endB: Date
+): boolean {
+  return (
+    startA.getTime() <= endB.getTime() && startB.getTime() <= endA.getTime()
+  );
+}
+
+/**
+ * Query for rentals that end on or after the given date. Rentals that start
+ * after the window are filtered out in memory by the callers.
+ */
+function rentalsEndingFromQuery(from: Date): FirebaseFirestore.Query {
+  return getFirestore()
+    .collection(FLEET_CONFIG.BOOKINGS_COLLECTION)
+    .where("serviceName", "==", FLEET_CONFIG.CAR_RENTAL_SERVICE)
+    .where("rentalEnd", ">=", from);
+}
+
+function activeVehiclesQuery(): FirebaseFirestore.Query {
+  return getFirestore()
+    .collection(FLEET_CONFIG.VEHICLES_COLLECTION)
+    .where("active", "==", true);
+}
+
+/**
+ * Collect rentals overlapping the given period that still hold a vehicle
+ */
+function toOverlappingRentals(
+  snapshot: FirebaseFirestore.QuerySnapshot,
+  start: Date,
+  end: Date,
+  excludeBookingId?: string
+): RentalRecord[] {
+  const rentals: RentalRecord[] = [];
+
+  snapshot.docs.forEach((doc) => {
+    if (doc.id === excludeBookingId) {
+      return;
+    }
+
+    const data = doc.data() as BookingData;
+    if (
+      RELEASED_STATUSES.includes(data.status) ||
+      !data.rentalStart ||
+      !data.rentalEnd
+    ) {
+      return;
+    }
+
+    const rentalStart = normalizeDate(data.rentalStart);
+    const rentalEnd = normalizeDate(data.rentalEnd);
+    if (!periodsOverlap(rentalStart, rentalEnd, start, end)) {
+      return;
+    }
+
+    rentals.push({
+      id: doc.id,
+      vehicleId: data.vehicleId || null,
+      start: rentalStart,
+      end: rentalEnd,
+    });
+  });
+
+  return rentals;
+}
+
+/**
+ * Pick the first active vehicle that has no overlapping rental assigned
+ */
+function findFreeVehicle(
+  vehicles: FirebaseFirestore.QuerySnapshot,
+  rentals: RentalRecord[]
+): FirebaseFirestore.QueryDocumentSnapshot | null {
+  const busyVehicleIds = new Set(
+    rentals.map((rental) => rental.vehicleId).filter((id) => !!id)
+  );
+
+  return vehicles.docs.find((doc) => !busyVehicleIds.has(doc.id)) || null;
+}
+
+/**
+ * Vehicle for a rental moving to new dates: its current vehicle if that is
+ * still free, otherwise the first free one. Returns null when every car is
+ * taken, and no vehicle when the fleet has not been configured.
+ */
+export async function findVehicleForDates(
+  transaction: FirebaseFirestore.Transaction,
+  bookingId: string,
+  currentVehicleId: string | null | undefined,
+  start: Date,
+  end: Date
+): Promise<{ vehicleId: string | null; vehicleName: string | null } | null> {
+  const vehicles = await transaction.get(activeVehiclesQuery());
+  if (vehicles.empty) {
+    return { vehicleId: null, vehicleName: null };
+  }
+
+  const rentals = toOverlappingRentals(
+    await transaction.get(rentalsEndingFromQuery(start)),
+    start,
+    end,
+    bookingId
+  );
+  const current = vehicles.docs.find((doc) => doc.id === currentVehicleId);
+  const vehicle =
+    current && !rentals.some((rental) => rental.vehicleId === current.id)
+      ? current
+      : findFreeVehicle(vehicles, rentals);
+  if (!vehicle) {
+    return null;
+  }
+  return {
+    vehicleId: vehicle.id,
+    vehicleName: (vehicle.data() as VehicleData).name,
+  };
+}
+
+/**
+ * Public lookup of dates on which every car in the fleet is already taken.
+ * Only rentals holding a vehicle count, as when a car is assigned: a rental
+ * flagged with a conflict has no car and takes none away from new
+ * customers. An empty fleet means inventory has not been configured yet, so
+ * no dates are reported as unavailable.
+ */
+export const getRentalAvailability = onCall(async (request) => {
+  const { from, days } = request.data || {};
+
+  const startDate = from ? new Date(from) : new Date(toDayKey(new Date()));
+  if (isNaN(startDate.getTime())) {
+    throw new HttpsError("invalid-argument", "Invalid start date");
+  }
+
+  const windowDays = Math.min(
+    Math.max(Number(days) || FLEET_CONFIG.DEFAULT_AVAILABILITY_DAYS, 1),
+    FLEET_CONFIG.MAX_AVAILABILITY_DAYS
+  );
+  const endDate = new Date(startDate.getTime() + (windowDays - 1) * DAY_MS);
+
+  try {
+    const [vehicles, rentalsSnapshot] = await Promise.all([
+      activeVehiclesQuery().get(),
+      rentalsEndingFromQuery(startDate).get(),
+    ]);
+
+    const fleetSize = vehicles.size;
+    const fleetIds = new Set(vehicles.docs.map((doc) => doc.id));
+    if (fleetSize === 0) {
+      return { fleetSize, unavailableDates: [] as string[] };
+    }
+
+    const rentals = toOverlappingRentals(rentalsSnapshot, startDate, endDate);
+    const unavailableDates: string[] = [];
+
+    for (let day = 0; day < windowDays; day++) {
+      const date = new Date(startDate.getTime() + day * DAY_MS);
+      const occupied = new Set(
+        rentals
+          .filter((rental) => rental.start <= date && rental.end >= date)
+          .map((rental) => rental.vehicleId)
+          .filter((id): id is string => !!id && fleetIds.has(id))
+      );
+
+      if (occupied.size >= fleetSize) {
+        unavailableDates.push(toDayKey(date));
+      }
+    }
+
+    return { fleetSize, unavailableDates };
+  } catch (error) {
+    console.error("Error getting rental availability:", error);
+    throw new HttpsError("internal", "Failed to get rental availability");
+  }
+});
+
+/**
+ * Triggered when a new booking is created.
+ * Assigns a free vehicle to car rentals, or flags the booking when every car
+ * is already taken for the requested period.
+ */
+export const assignVehicleOnBooking = onDocumentCreated(
+  "bookings/{bookingId}",
+  async (event) => {
+    const startTime = Date.now();
+    const bookingId = event.params.bookingId;
+    const bookingData = event.data?.data() as BookingData | undefined;
+
+    if (
+      !bookingData ||
+      bookingData.restoredFrom ||
+      bookingData.serviceName !== FLEET_CONFIG.CAR_RENTAL_SERVICE ||
+      !bookingData.rentalStart ||
+      !bookingData.rentalEnd
+    ) {
+      return;
+    }
+
+    const rentalStart = normalizeDate(bookingData.rentalStart);
+    const rentalEnd = normalizeDate(bookingData.rentalEnd);
+    const db = getFirestore();
+
+    try {
+      const assignment = await db.runTransaction(async (transaction) => {
+        const vehicles = await transaction.get(activeVehiclesQuery());
+        if (vehicles.empty) {
+          return null;
+        }
+
+        const rentalsSnapshot = await transaction.get(
+          rentalsEndingFromQuery(rentalStart)
+        );
+        const rentals = toOverlappingRentals(
+          rentalsSnapshot,
+          rentalStart,
+          rentalEnd,
+          bookingId
+        );
+        const vehicle = findFreeVehicle(vehicles, rentals);
+        const bookingRef = db
+          .collection(FLEET_CONFIG.BOOKINGS_COLLECTION)
+          .doc(bookingId);
+
+        if (!vehicle) {
+          transaction.update(bookingRef, {
+            vehicleId: null,
+            vehicleName: null,
+            availabilityConflict: true,
+            updatedAt: FieldValue.serverTimestamp(),
+            ...changeContext(null, "function"),
+          });
+          return { vehicleId: null };
+        }
+
+        const vehicleData = vehicle.data() as VehicleData;
+        transaction.update(bookingRef, {
+          vehicleId: vehicle.id,
+          vehicleName: vehicleData.name,
+          availabilityConflict: false,
+          updatedAt: FieldValue.serverTimestamp(),
+          ...changeContext(null, "function"),
+        });
+        return { vehicleId: vehicle.id };
+      });
+
+      if (assignment && !assignment.vehicleId) {
+        console.warn(
+          `No vehicle available for booking ${bookingId}; flagged as conflict`
+        );
+      }
+      logFunctionMetrics("assignVehicleOnBooking", startTime);
+    } catch (error) {
+      console.error("Failed to assign vehicle for", bookingId, error);
+      logFunctionMetrics("assignVehicleOnBooking", startTime, error as Error);
+    }
+  }
+);
+
+/**
+ * Admin assigns (or unassigns) a vehicle for a car rental booking.
+ * Rejects assignments that overlap another rental of the same vehicle.
+ */
+export const assignVehicle = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated");
+  }
+
+  if (!hasPermission(request.auth.token, Permission.EDIT_BOOKINGS)) {
+    throw new HttpsError(
+      "permission-denied",
+      "Insufficient permissions to assign vehicles"
+    );
+  }
+
+  const { bookingId, vehicleId } = request.data || {};
+  if (!bookingId) {
+    throw new HttpsError("invalid-argument", "bookingId is required");
+  }
+
+  const db = getFirestore();
+  const uid = request.auth.uid;
+
+  try {
+    return await db.runTransaction(async (transaction) => {
+      const bookingRef = db
+        .collection(FLEET_CONFIG.BOOKINGS_COLLECTION)
+        .doc(bookingId);
+      const bookingDoc = await transaction.get(bookingRef);
+      if (!bookingDoc.exists) {
+        throw new HttpsError("not-found", "Booking not found");
+      }
+
+      const booking = bookingDoc.data() as BookingData;
+      if (
+        booking.serviceName !== FLEET_CONFIG.CAR_RENTAL_SERVICE ||
+        !booking.rentalStart ||
+        !booking.rentalEnd
+      ) {
+        throw new HttpsError(
+          "failed-precondition",
+          "Vehicles can only be assigned to car rentals"
+        );
+      }
+
+      if (!vehicleId) {
+        transaction.update(bookingRef, {
+          vehicleId: null,
+          vehicleName: null,
+          updatedAt: FieldValue.serverTimestamp(),
+          ...changeContext(uid, "dashboard"),
+        });
+        return { success: true, message: "Vehicle unassigned" };
+      }
+
+      const vehicleDoc = await transaction.get(
+        db.collection(FLEET_CONFIG.VEHICLES_COLLECTION).doc(vehicleId)
+      );
+      const vehicle = vehicleDoc.data() as VehicleData | undefined;
+      if (!vehicle || !vehicle.active) {
+        throw new HttpsError("not-found", "Vehicle not found or inactive");
+      }
+
+      const rentalStart = normalizeDate(booking.rentalStart);
+      const rentalEnd = normalizeDate(booking.rentalEnd);
+      const rentalsSnapshot = await transaction.get(
+        rentalsEndingFromQuery(rentalStart)
+      );
+      const clash = toOverlappingRentals(
+        rentalsSnapshot,
+        rentalStart,
+        rentalEnd,
+        bookingId
+      ).find((rental) => rental.vehicleId === vehicleId);
+
+      if (clash) {
+        throw new HttpsError(
+          "already-exists",
+          `${vehicle.name} is already booked from ${toDayKey(
+            clash.start
+          )} to ${toDayKey(clash.end)}`
+        );
+      }
+
+      transaction.update(bookingRef, {
+        vehicleId,
+        vehicleName: vehicle.name,
+        availabilityConflict: false,
+        updatedAt: FieldValue.serverTimestamp(),
+        ...changeContext(uid, "dashboard"),
+      });
+
+      return { success: true, message: `${vehicle.name} assigned` };
+    });
+  } catch (error) {
+    console.error("Error assigning vehicle:", error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError("internal", "Failed to assign vehicle");
+  }
+});
@@ -1,272 +1,83 @@
 import { onDocumentCreated } from "firebase-functions/v2/firestore";
-import { onRequest } from "firebase-functions/v2/https";
+import { HttpsError, onRequest } from "firebase-functions/v2/https";
 import { initializeApp } from "firebase-admin/app";
 import { FieldValue, getFirestore } from "firebase-admin/firestore";
-import { getAuth } from "firebase-admin/auth";
 import { logFunctionMetrics } from "./monitoring";
+import { authorizeRequest, Permission } from "./admin";
+import { BookingData } from "./types";
+import {
+  BookingStats,
+  dayKeysBetween,
+  emptyStats,
+  loadStats,
+  mergeStats,
+  statsDocId,
+} from "./booking-stats";
+import { localDayKey } from "./utils";
+import { BOOKING_STATUSES, transitionBooking } from "./booking-lifecycle";
+import { queueNewBookingNotifications } from "./notifications";
+export { createBooking } from "./bookings";
+export { updateBookingStatus } from "./booking-lifecycle";
+export { recordPayment } from "./payments";
+export { recordBookingHistory } from "./booking-history";
+export {
+  notifyCustomerOnBookingChange,
+  processNotificationOutbox,
+  retryNotification,
+} from "./notifications";
+export { previewNotificationTemplate } from "./notification-templates";
+export { sendBookingReminders, sendDailyDigest } from "./reminders";
+export { whatsappWebhook } from "./whatsapp";
+export { getBookingAnalytics } from "./analytics";
+export { updateBookingStats, rebuildBookingStats } from "./booking-stats";
+export { indexBookingForSearch, reindexBookings } from "./booking-search";
+export { assignStaff, getMyJobs, updateJobStatus } from "./staff";
 export { healthCheck, systemHealthMonitor } from "./monitoring";
+export {
+  setAdminRole,
+  removeAdminRole,
+  refreshAdminPermissions,
+  getUserPermissions,
+  listAdminUsers,
+} from "./admin";
+export {
+  requestRoleAssignment,
+  inviteAdminUser,
+  approveRoleAssignment,
+  getPendingRoleRequests,
+} from "./super-admin";
+export { verifyAuditChain, anchorAuditChains } from "./audit-chain";
+export {
+  emergencyDisablePayments,
+  emergencyEnablePayments,
+  emergencyDatabaseBackup,
+  restoreDatabaseBackup,
+  getEmergencyStatus,
+} from "./emergency";
+export { setMaintenanceMode } from "./system-config";
+export { runDatabaseBackup, scheduledDatabaseBackup } from "./backups";
+export {
+  getRentalAvailability,
+  assignVehicleOnBooking,
+  assignVehicle,
+} from "./fleet";
+export { snapshotQuoteOnBooking } from "./pricing";
+export {
+  requestBookingOtp,
+  verifyBookingOtp,
+  getCustomerBooking,
+  updateCustomerBooking,
+} from "./customer-portal";
+export { resolveDateChangeRequest } from "./date-changes";
 
 // Initialize Firebase Admin
 const app = initializeApp();
 const db = getFirestore(app);
-const auth = getAuth(app);
-
-// Service pricing used for rough revenue estimates
-const SERVICE_PRICES: Record<string, number> = {
-  "Car Rental": 50,
-  "Sightseeing Tour": 80,
-  "Catamaran Trip": 120,
-  "Ile Aux Cerfs Island Trip": 100,
-  "Airport Transfers": 30,
-};
-
-type BookingStatus = "pending" | "confirmed" | "cancelled";
-
-interface BookingData {
-  id?: string;
-  customerName: string;
-  customerEmail?: string;
-  customerPhone: string;
-  serviceName: string;
-  bookingDate: FirebaseFirestore.Timestamp | Date | string;
-  notes?: string;
-  status: BookingStatus;
-  createdAt: FirebaseFirestore.Timestamp | Date | string;
-  updatedAt: FirebaseFirestore.Timestamp | Date | string;
-}
-
-const notificationEmailTo = process.env.NOTIFICATION_EMAIL_TO;
-const notificationEmailFrom =
-  process.env.NOTIFICATION_EMAIL_FROM || "notifications@shanalcars.com";
-const sendgridApiKey = process.env.SENDGRID_API_KEY;
-const whatsappWebhookUrl = process.env.WHATSAPP_WEBHOOK_URL;
-const whatsappApiToken = process.env.WHATSAPP_API_TOKEN;
-const whatsappRecipient = process.env.OWNER_WHATSAPP_NUMBER;
-
-function normalizeDate(
-  date: FirebaseFirestore.Timestamp | Date | string
-): Date {
-  if (date instanceof Date) {
-    return date;
-  }
-
-  if (typeof date === "string") {
-    return new Date(date);
-  }
-
-  if (
-    date &&
-    typeof (date as FirebaseFirestore.Timestamp).toDate === "function"
-  ) {
-    return (date as FirebaseFirestore.Timestamp).toDate();
-  }
-
-  return new Date();
-}
-
-function buildNotificationMessage(
-  bookingId: string,
-  booking: BookingData,
-  formattedDate: string
-) {
-  return (
-    `A new booking has been submitted on Shanal Cars.\n\n` +
-    `Booking ID: ${bookingId}\n` +
-    `Customer Name: ${booking.customerName}\n` +
-    (booking.customerEmail
-      ? `Customer Email: ${booking.customerEmail}\n`
-      : "") +
-    `Customer Phone: ${booking.customerPhone}\n` +
-    `Service: ${booking.serviceName}\n` +
-    `Preferred Date: ${formattedDate}\n` +
-    (booking.notes ? `Notes: ${booking.notes}\n\n` : "\n") +
-    `Please contact the customer to confirm availability and arrange manual payment (cash, EFT, or local mobile wallet).`
-  );
-}
-
-async function trySendEmail(
-  bookingId: string,
-  booking: BookingData,
-  formattedDate: string
-): Promise<boolean> {
-  if (!sendgridApiKey || !notificationEmailTo) {
-    return false;
-  }
-
-  const message = buildNotificationMessage(bookingId, booking, formattedDate);
-  const response = await fetch("https://api.sendgrid.com/v3/mail/send", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${sendgridApiKey}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      personalizations: [
-        {
-          to: [{ email: notificationEmailTo }],
-        },
-      ],
-      from: { email: notificationEmailFrom },
-      subject: `New Booking Request: ${booking.serviceName} on ${formattedDate}`,
-      content: [{ type: "text/plain", value: message }],
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(
-      `SendGrid notification failed with status ${response.status}: ${errorText}`
-    );
-  }
-
-  return true;
-}
-
-async function trySendWhatsApp(
-  bookingId: string,
-  booking: BookingData,
-  formattedDate: string
-): Promise<boolean> {
-  if (!whatsappWebhookUrl || !whatsappRecipient) {
-    return false;
-  }
-
-  const message = buildNotificationMessage(bookingId, booking, formattedDate);
-  const response = await fetch(whatsappWebhookUrl, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      ...(whatsappApiToken
-        ? { Authorization: `Bearer ${whatsappApiToken}` }
-        : {}),
-    },
-    body: JSON.stringify({
-      to: whatsappRecipient,
-      message,
-      metadata: {
-        bookingId,
-        serviceName: booking.serviceName,
-        bookingDate: formattedDate,
-      },
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(
-      `WhatsApp notification failed with status ${response.status}: ${errorText}`
-    );
-  }
-
-  return true;
-}
-
-async function sendCustomerConfirmation(
-  bookingId: string,
-  booking: BookingData
-) {
-  const bookingDate = normalizeDate(booking.bookingDate);
-  const formattedDate = bookingDate.toLocaleString("en-US", {
-    year: "numeric",
-    month: "short",
-    day: "numeric",
-    hour: "2-digit",
-    minute: "2-digit",
-  });
-
-  if (!booking.customerEmail || !sendgridApiKey) {
-    return; // Skip if no email or SendGrid not configured
-  }
-
-  const message =
-    `Dear ${booking.customerName},\n\n` +
-    `Thank you for choosing Shanal Tours! We have received your booking request and are excited to help you explore Mauritius.\n\n` +
-    `Booking Details:\n` +
-    `• Service: ${booking.serviceName}\n` +
-    `• Date: ${formattedDate}\n` +
-    `• Booking ID: ${bookingId}\n\n` +
-    `What happens next?\n` +
-    `1. Our team will contact you within 2 hours to confirm availability\n` +
-    `2. We'll arrange payment (cash, EFT, or mobile wallet)\n` +
-    `3. You'll receive final confirmation with pickup details\n\n` +
-    `Contact Information:\n` +
-    `📞 Phone: +230 283 1414\n` +
-    `📱 WhatsApp: +230 5707 1414\n` +
-    `📧 Email: shanal@intnet.mu\n\n` +
-    `We look forward to providing you with an unforgettable Mauritius experience!\n\n` +
-    `Best regards,\n` +
-    `The Shanal Tours Team`;
-
-  try {
-    const response = await fetch("https://api.sendgrid.com/v3/mail/send", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${sendgridApiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        personalizations: [
-          {
-            to: [{ email: booking.customerEmail }],
-          },
-        ],
-        from: { email: notificationEmailFrom },
-        subject: `Booking Confirmation - ${booking.serviceName} on ${formattedDate}`,
-        content: [{ type: "text/plain", value: message }],
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`Customer confirmation email failed: ${errorText}`);
-    }
-  } catch (error) {
-    console.error("Error sending customer confirmation:", error);
-  }
-}
-
-async function sendOwnerNotification(bookingId: string, booking: BookingData) {
-  const bookingDate = normalizeDate(booking.bookingDate);
-  const formattedDate = bookingDate.toLocaleString("en-US", {
-    year: "numeric",
-    month: "short",
-    day: "numeric",
-    hour: "2-digit",
-    minute: "2-digit",
-  });
-
-  const attempts: Array<() => Promise<boolean>> = [];
-  attempts.push(() => trySendEmail(bookingId, booking, formattedDate));
-  attempts.push(() => trySendWhatsApp(bookingId, booking, formattedDate));
-
-  let delivered = false;
-  const errors: Error[] = [];
-
-  for (const attempt of attempts) {
-    try {
-      delivered = (await attempt()) || delivered;
-      if (delivered) {
-        break;
-      }
-    } catch (error) {
-      errors.push(error as Error);
-    }
-  }
-
-  if (!delivered) {
-    errors.forEach((error) =>
-      console.error("Notification attempt failed for", bookingId, error)
-    );
-    throw new Error(
-      "No notification channel configured. Provide SendGrid or WhatsApp credentials to enable owner alerts."
-    );
-  }
-}
 
 /**
  * Triggered when a new booking is created.
- * Sends an email notification to the business owner so that payments can be
- * arranged manually with the customer.
+ * Notifies the business owner so that payments can be arranged manually with
+ * the customer, and sends the customer a confirmation email.
  */
 export const notifyOwnerOnBooking = onDocumentCreated(
   "bookings/{bookingId}",
@@ -279,19 +90,14 @@ export const notifyOwnerOnBooking = onDocumentCreated(
       console.warn("Booking data missing for", bookingId);
       return;
     }
+    if (bookingData.restoredFrom) {
+      return;
+    }
 
     try {
-      // Send notifications in parallel
-      await Promise.all([
-        sendOwnerNotification(bookingId, bookingData),
-        sendCustomerConfirmation(bookingId, bookingData),
-      ]);
-
-      await event.data?.ref.update({
-        updatedAt: FieldValue.serverTimestamp(),
-        ownerNotifiedAt: FieldValue.serverTimestamp(),
-        customerNotifiedAt: FieldValue.serverTimestamp(),
-      });
+      // Delivery, retries and the ownerNotifiedAt / customerNotifiedAt
+      // timestamps are handled by the notification outbox
+      await queueNewBookingNotifications(bookingId, bookingData);
       logFunctionMetrics("notifyOwnerOnBooking", startTime);
     } catch (error) {
       console.error("Failed to send notifications for", bookingId, error);
@@ -309,33 +115,38 @@ export const confirmBooking = onRequest({ cors: true }, async (req, res) => {
     return;
   }
 
-  const { bookingId, adminId } = req.body;
+  const caller = await authorizeRequest(req, res, Permission.CONFIRM_BOOKINGS);
+  if (!caller) {
+    return;
+  }
+  const adminId = caller.uid;
+
+  const { bookingId } = req.body;
 
-  if (!bookingId || !adminId) {
+  if (!bookingId) {
     res.status(400).send("Missing required fields");
     return;
   }
 
   try {
-    const adminUser = await auth.getUser(adminId);
-    if (!adminUser.customClaims?.admin) {
-      res.status(403).send("Admin access required");
-      return;
-    }
-
-    await db
-      .collection("bookings")
-      .doc(bookingId)
-      .update({
-        status: "confirmed" as BookingStatus,
+    await transitionBooking(
+      db.collection("bookings").doc(bookingId),
+      "confirmed",
+      adminId,
+      "function",
+      {
         confirmedBy: adminId,
         confirmedAt: FieldValue.serverTimestamp(),
-        updatedAt: FieldValue.serverTimestamp(),
-      });
+      }
+    );
 
     res.json({ success: true, message: "Booking confirmed" });
   } catch (error) {
     console.error("Error confirming booking:", error);
+    if (error instanceof HttpsError) {
+      res.status(409).send(error.message);
+      return;
+    }
     res.status(500).send("Internal server error");
   }
 });
@@ -344,28 +155,33 @@ export const confirmBooking = onRequest({ cors: true }, async (req, res) => {
  * Callable function to get booking statistics
  */
 export const getBookingStats = onRequest({ cors: true }, async (req, res) => {
-  try {
-    const now = new Date();
-    const oneWeekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-    const oneMonthAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-
-    const weeklyBookings = await db
-      .collection("bookings")
-      .where("createdAt", ">=", oneWeekAgo)
-      .get();
-
-    const monthlyBookings = await db
-      .collection("bookings")
-      .where("createdAt", ">=", oneMonthAgo)
-      .get();
+  if (!(await authorizeRequest(req, res, Permission.VIEW_ANALYTICS))) {
+    return;
+  }
 
-    const weeklyStats = calculateBookingStats(weeklyBookings);
-    const monthlyStats = calculateBookingStats(monthlyBookings);
+  try {
+    // Read from the daily counters kept by updateBookingStats
+    const today = localDayKey();
+    const days = dayKeysBetween(
+      localDayKey(new Date(Date.now() - 29 * 24 * 60 * 60 * 1000)),
+      today
+    );
+    const daily = await loadStats(days.map((day) => statsDocId("day", day)));
+
+    const weekly = emptyStats();
+    const monthly = emptyStats();
+    days.forEach((day, index) => {
+      const stats = daily.get(statsDocId("day", day))!;
+      mergeStats(monthly, stats);
+      if (index >= days.length - 7) {
+        mergeStats(weekly, stats);
+      }
+    });
 
     res.json({
-      weekly: weeklyStats,
-      monthly: monthlyStats,
-      totalBookings: monthlyBookings.size,
+      weekly: summarizeBookingStats(weekly),
+      monthly: summarizeBookingStats(monthly),
+      totalBookings: monthly.bookings,
     });
   } catch (error) {
     console.error("Error getting booking stats:", error);
@@ -373,28 +189,13 @@ export const getBookingStats = onRequest({ cors: true }, async (req, res) => {
   }
 });
 
-function calculateBookingStats(snapshot: FirebaseFirestore.QuerySnapshot) {
-  const stats: Record<string, number> = {
-    total: snapshot.size,
-    pending: 0,
-    confirmed: 0,
-    cancelled: 0,
-    revenue: 0,
+function summarizeBookingStats(stats: BookingStats) {
+  const summary: Record<string, number> = {
+    total: stats.bookings,
+    revenue: stats.revenue,
   };
-
-  snapshot.docs.forEach((doc) => {
-    const data = doc.data() as BookingData;
-    const status = data.status as BookingStatus;
-
-    if (stats[status] !== undefined) {
-      stats[status]++;
-    }
-
-    if (status === "confirmed") {
-      const servicePrice = SERVICE_PRICES[data.serviceName] || 50;
-      stats.revenue += servicePrice;
-    }
-  });
-
-  return stats;
+  BOOKING_STATUSES.forEach(
+    (status) => (summary[status] = stats.byStatus[status] || 0)
+  );
+  return summary;
 }
@@ -0,0 +1,1280 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { hasPermission, Permission } from "./admin";
+import { buildBookingPortalLink } from "./customer-portal";
+import { BookingData, FirestoreDate } from "./types";
+import { normalizeDate } from "./utils";
+
+/**
+ * Notification templates
+ *
+ * Each template has a subject, an HTML and a plain-text email body and a
+ * WhatsApp body for every supported locale. Bodies use {{variable}}
+ * placeholders; {{#variable}}...{{/variable}} keeps its content only when the
+ * variable is set. Values are HTML-escaped in the HTML variant.
+ */
+
+export type TemplateLocale = "en" | "fr" | "mfe";
+
+export const TEMPLATE_CONFIG = {
+  // Dates are always shown in local time, wherever the function runs
+  TIMEZONE: "Indian/Mauritius",
+  DEFAULT_LOCALE: "en" as TemplateLocale,
+  LOCALES: ["en", "fr", "mfe"] as TemplateLocale[],
+  // Intl locale used to format dates for each template locale
+  DATE_LOCALES: {
+    en: "en-MU",
+    fr: "fr-MU",
+    mfe: "mfe",
+  } as Record<TemplateLocale, string>,
+  OWNER_LOCALE: process.env.OWNER_LOCALE || "en",
+  BUSINESS_NAME: "Shanal Tours",
+  BUSINESS_PHONE: process.env.BUSINESS_PHONE || "+230 283 1414",
+  BUSINESS_WHATSAPP: process.env.BUSINESS_WHATSAPP || "+230 5707 1414",
+  BUSINESS_EMAIL: process.env.BUSINESS_EMAIL || "shanal@intnet.mu",
+};
+
+export type TemplateVariables = Record<string, string | null | undefined>;
+
+export interface TemplateContent {
+  subject: string;
+  text: string;
+  html: string;
+  whatsapp: string;
+}
+
+export interface NotificationTemplate {
+  description: string;
+  // Variables the template expects, besides the business contact details
+  variables: string[];
+  // Values used by the admin preview
+  sample: TemplateVariables;
+  locales: Record<TemplateLocale, TemplateContent>;
+}
+
+export type RenderedNotification = TemplateContent;
+
+const lines = (...parts: string[]) => parts.join("\n");
+
+const SAMPLE_BOOKING: TemplateVariables = {
+  bookingId: "aBc123XyZ",
+  customerName: "Marie Laval",
+  customerEmail: "marie@example.com",
+  customerPhone: "+230 5712 3456",
+  serviceName: "Island Tour",
+  bookingDate: "2026-12-05",
+  notes: "Pickup from the hotel lobby, 2 adults and 1 child",
+  pickupLocation: "Hotel lobby, Le Méridien, Pointe aux Piments",
+  pickupTime: "08:30",
+  portalLink: "https://shanalcars.com/booking/aBc123XyZ?token=preview",
+};
+
+const SAMPLE_DATE_VARIABLES = [
+  "bookingDate",
+  "previousDate",
+  "returnDate",
+  "date",
+];
+
+export const NOTIFICATION_TEMPLATES: Record<string, NotificationTemplate> = {
+  owner_new_booking: {
+    description: "Alert to the owner when a booking is submitted",
+    variables: [
+      "bookingId",
+      "customerName",
+      "customerEmail",
+      "customerPhone",
+      "serviceName",
+      "bookingDate",
+      "notes",
+    ],
+    sample: SAMPLE_BOOKING,
+    locales: {
+      en: {
+        subject: "New Booking Request: {{serviceName}} on {{bookingDate}}",
+        text: lines(
+          "A new booking has been submitted on Shanal Cars.",
+          "",
+          "Booking ID: {{bookingId}}",
+          "Customer Name: {{customerName}}",
+          "{{#customerEmail}}Customer Email: {{customerEmail}}{{/customerEmail}}",
+          "Customer Phone: {{customerPhone}}",
+          "Service: {{serviceName}}",
+          "Preferred Date: {{bookingDate}}",
+          "{{#notes}}Notes: {{notes}}{{/notes}}",
+          "",
+          "Please contact the customer to confirm availability and arrange manual payment (cash, EFT, or local mobile wallet)."
+        ),
+        html: lines(
+          "<p>A new booking has been submitted on Shanal Cars.</p>",
+          "<table>",
+          "<tr><td>Booking ID</td><td>{{bookingId}}</td></tr>",
+          "<tr><td>Customer Name</td><td>{{customerName}}</td></tr>",
+          "{{#customerEmail}}<tr><td>Customer Email</td><td>{{customerEmail}}</td></tr>{{/customerEmail}}",
+          "<tr><td>Customer Phone</td><td>{{customerPhone}}</td></tr>",
+          "<tr><td>Service</td><td>{{serviceName}}</td></tr>",
+          "<tr><td>Preferred Date</td><td>{{bookingDate}}</td></tr>",
+          "{{#notes}}<tr><td>Notes</td><td>{{notes}}</td></tr>{{/notes}}",
+          "</table>",
+          "<p>Please contact the customer to confirm availability and arrange manual payment (cash, EFT, or local mobile wallet).</p>"
+        ),
+        whatsapp: lines(
+          "*New booking request*",
+          "Service: {{serviceName}}",
+          "Date: {{bookingDate}}",
+          "Name: {{customerName}}",
+          "Phone: {{customerPhone}}",
+          "{{#customerEmail}}Email: {{customerEmail}}{{/customerEmail}}",
+          "{{#notes}}Notes: {{notes}}{{/notes}}",
+          "Booking ID: {{bookingId}}"
+        ),
+      },
+      fr: {
+        subject:
+          "Nouvelle demande de réservation : {{serviceName}} le {{bookingDate}}",
+        text: lines(
+          "Une nouvelle réservation a été soumise sur Shanal Cars.",
+          "",
+          "Réservation : {{bookingId}}",
+          "Client : {{customerName}}",
+          "{{#customerEmail}}E-mail : {{customerEmail}}{{/customerEmail}}",
+          "Téléphone : {{customerPhone}}",
+          "Service : {{serviceName}}",
+          "Date souhaitée : {{bookingDate}}",
+          "{{#notes}}Remarques : {{notes}}{{/notes}}",
+          "",
+          "Veuillez contacter le client pour confirmer la disponibilité et organiser le paiement (espèces, virement ou portefeuille mobile)."
+        ),
+        html: lines(
+          "<p>Une nouvelle réservation a été soumise sur Shanal Cars.</p>",
+          "<table>",
+          "<tr><td>Réservation</td><td>{{bookingId}}</td></tr>",
+          "<tr><td>Client</td><td>{{customerName}}</td></tr>",
+          "{{#customerEmail}}<tr><td>E-mail</td><td>{{customerEmail}}</td></tr>{{/customerEmail}}",
+          "<tr><td>Téléphone</td><td>{{customerPhone}}</td></tr>",
+          "<tr><td>Service</td><td>{{serviceName}}</td></tr>",
+          "<tr><td>Date souhaitée</td><td>{{bookingDate}}</td></tr>",
+          "{{#notes}}<tr><td>Remarques</td><td>{{notes}}</td></tr>{{/notes}}",
+          "</table>",
+          "<p>Veuillez contacter le client pour confirmer la disponibilité et organiser le paiement (espèces, virement ou portefeuille mobile).</p>"
+        ),
+        whatsapp: lines(
+          "*Nouvelle demande de réservation*",
+          "Service : {{serviceName}}",
+          "Date : {{bookingDate}}",
+          "Nom : {{customerName}}",
+          "Téléphone : {{customerPhone}}",
+          "{{#customerEmail}}E-mail : {{customerEmail}}{{/customerEmail}}",
+          "{{#notes}}Remarques : {{notes}}{{/notes}}",
+          "Réservation : {{bookingId}}"
+        ),
+      },
+      mfe: {
+        subject: "Nouvo rezervasion : {{serviceName}} le {{bookingDate}}",
+        text: lines(
+          "Enn nouvo rezervasion finn fer lor Shanal Cars.",
+          "",
+          "Rezervasion : {{bookingId}}",
+          "Kliyan : {{customerName}}",
+          "{{#customerEmail}}Email : {{customerEmail}}{{/customerEmail}}",
+          "Telefonn : {{customerPhone}}",
+          "Servis : {{serviceName}}",
+          "Dat : {{bookingDate}}",
+          "{{#notes}}Remark : {{notes}}{{/notes}}",
+          "",
+          "Kontakt kliyan-la pou konfirm disponibilite ek aranz peyman (kas, EFT ouswa portmone mobil)."
+        ),
+        html: lines(
+          "<p>Enn nouvo rezervasion finn fer lor Shanal Cars.</p>",
+          "<table>",
+          "<tr><td>Rezervasion</td><td>{{bookingId}}</td></tr>",
+          "<tr><td>Kliyan</td><td>{{customerName}}</td></tr>",
+          "{{#customerEmail}}<tr><td>Email</td><td>{{customerEmail}}</td></tr>{{/customerEmail}}",
+          "<tr><td>Telefonn</td><td>{{customerPhone}}</td></tr>",
+          "<tr><td>Servis</td><td>{{serviceName}}</td></tr>",
+          "<tr><td>Dat</td><td>{{bookingDate}}</td></tr>",
+          "{{#notes}}<tr><td>Remark</td><td>{{notes}}</td></tr>{{/notes}}",
+          "</table>",
+          "<p>Kontakt kliyan-la pou konfirm disponibilite ek aranz peyman (kas, EFT ouswa portmone mobil).</p>"
+        ),
+        whatsapp: lines(
+          "*Nouvo rezervasion*",
+          "Servis : {{serviceName}}",
+          "Dat : {{bookingDate}}",
+          "Nom : {{customerName}}",
+          "Telefonn : {{customerPhone}}",
+          "{{#customerEmail}}Email : {{customerEmail}}{{/customerEmail}}",
+          "{{#notes}}Remark : {{notes}}{{/notes}}",
+          "Rezervasion : {{bookingId}}"
+        ),
+      },
+    },
+  },
+
+  customer_booking_received: {
+    description: "Confirmation to the customer that their request arrived",
+    variables: [
+      "bookingId",
+      "customerName",
+      "serviceName",
+      "bookingDate",
+      "portalLink",
+    ],
+    sample: SAMPLE_BOOKING,
+    locales: {
+      en: {
+        subject: "Booking Confirmation - {{serviceName}} on {{bookingDate}}",
+        text: lines(
+          "Dear {{customerName}},",
+          "",
+          "Thank you for choosing Shanal Tours! We have received your booking request and are excited to help you explore Mauritius.",
+          "",
+          "Booking Details:",
+          "• Service: {{serviceName}}",
+          "• Date: {{bookingDate}}",
+          "• Booking ID: {{bookingId}}",
+          "",
+          "What happens next?",
+          "1. Our team will contact you within 2 hours to confirm availability",
+          "2. We'll arrange payment (cash, EFT, or mobile wallet)",
+          "3. You'll receive final confirmation with pickup details",
+          "",
+          "{{#portalLink}}View, cancel or change your booking online:\n{{portalLink}}\n{{/portalLink}}",
+          "Contact Information:",
+          "📞 Phone: {{businessPhone}}",
+          "📱 WhatsApp: {{businessWhatsApp}}",
+          "📧 Email: {{businessEmail}}",
+          "",
+          "We look forward to providing you with an unforgettable Mauritius experience!",
+          "",
+          "Best regards,",
+          "The Shanal Tours Team"
+        ),
+        html: lines(
+          "<p>Dear {{customerName}},</p>",
+          "<p>Thank you for choosing Shanal Tours! We have received your booking request and are excited to help you explore Mauritius.</p>",
+          "<h3>Booking Details</h3>",
+          "<ul>",
+          "<li>Service: {{serviceName}}</li>",
+          "<li>Date: {{bookingDate}}</li>",
+          "<li>Booking ID: {{bookingId}}</li>",
+          "</ul>",
+          "<h3>What happens next?</h3>",
+          "<ol>",
+          "<li>Our team will contact you within 2 hours to confirm availability</li>",
+          "<li>We'll arrange payment (cash, EFT, or mobile wallet)</li>",
+          "<li>You'll receive final confirmation with pickup details</li>",
+          "</ol>",
+          '{{#portalLink}}<p><a href="{{portalLink}}">View, cancel or change your booking online</a></p>{{/portalLink}}',
+          "<p>Phone: {{businessPhone}}<br>WhatsApp: {{businessWhatsApp}}<br>Email: {{businessEmail}}</p>",
+          "<p>We look forward to providing you with an unforgettable Mauritius experience!</p>",
+          "<p>Best regards,<br>The Shanal Tours Team</p>"
+        ),
+        whatsapp: lines(
+          "Hello {{customerName}}, thank you for booking with Shanal Tours!",
+          "We have received your request for *{{serviceName}}* on {{bookingDate}} (booking {{bookingId}}).",
+          "Our team will contact you within 2 hours to confirm availability.",
+          "{{#portalLink}}Manage your booking: {{portalLink}}{{/portalLink}}"
+        ),
+      },
+      fr: {
+        subject:
+          "Confirmation de réservation - {{serviceName}} le {{bookingDate}}",
+        text: lines(
+          "Bonjour {{customerName}},",
+          "",
+          "Merci d'avoir choisi Shanal Tours ! Nous avons bien reçu votre demande de réservation et nous avons hâte de vous faire découvrir l'île Maurice.",
+          "",
+          "Détails de la réservation :",
+          "• Service : {{serviceName}}",
+          "• Date : {{bookingDate}}",
+          "• Réservation : {{bookingId}}",
+          "",
+          "Et ensuite ?",
+          "1. Notre équipe vous contactera sous 2 heures pour confirmer la disponibilité",
+          "2. Nous organiserons le paiement (espèces, virement ou portefeuille mobile)",
+          "3. Vous recevrez la confirmation finale avec les détails de prise en charge",
+          "",
+          "{{#portalLink}}Consultez, annulez ou modifiez votre réservation en ligne :\n{{portalLink}}\n{{/portalLink}}",
+          "Nous contacter :",
+          "📞 Téléphone : {{businessPhone}}",
+          "📱 WhatsApp : {{businessWhatsApp}}",
+          "📧 E-mail : {{businessEmail}}",
+          "",
+          "Au plaisir de vous faire vivre une expérience inoubliable à Maurice !",
+          "",
+          "Cordialement,",
+          "L'équipe Shanal Tours"
+        ),
+        html: lines(
+          "<p>Bonjour {{customerName}},</p>",
+          "<p>Merci d'avoir choisi Shanal Tours ! Nous avons bien reçu votre demande de réservation et nous avons hâte de vous faire découvrir l'île Maurice.</p>",
+          "<h3>Détails de la réservation</h3>",
+          "<ul>",
+          "<li>Service : {{serviceName}}</li>",
+          "<li>Date : {{bookingDate}}</li>",
+          "<li>Réservation : {{bookingId}}</li>",
+          "</ul>",
+          "<h3>Et ensuite ?</h3>",
+          "<ol>",
+          "<li>Notre équipe vous contactera sous 2 heures pour confirmer la disponibilité</li>",
+          "<li>Nous organiserons le paiement (espèces, virement ou portefeuille mobile)</li>",
+          "<li>Vous recevrez la confirmation finale avec les détails de prise en charge</li>",
+          "</ol>",
+          '{{#portalLink}}<p><a href="{{portalLink}}">Consultez, annulez ou modifiez votre réservation en ligne</a></p>{{/portalLink}}',
+          "<p>Téléphone : {{businessPhone}}<br>WhatsApp : {{businessWhatsApp}}<br>E-mail : {{businessEmail}}</p>",
+          "<p>Au plaisir de vous faire vivre une expérience inoubliable à Maurice !</p>",
+          "<p>Cordialement,<br>L'équipe Shanal Tours</p>"
+        ),
+        whatsapp: lines(
+          "Bonjour {{customerName}}, merci d'avoir réservé avec Shanal Tours !",
+          "Nous avons bien reçu votre demande pour *{{serviceName}}* le {{bookingDate}} (réservation {{bookingId}}).",
+          "Notre équipe vous contactera sous 2 heures pour confirmer la disponibilité.",
+          "{{#portalLink}}Gérer votre réservation : {{portalLink}}{{/portalLink}}"
+        ),
+      },
+      mfe: {
+        subject:
+          "Konfirmasion rezervasion - {{serviceName}} le {{bookingDate}}",
+        text: lines(
+          "Bonzour {{customerName}},",
+          "",
+          "Mersi ki ou finn swazir Shanal Tours! Nou finn gagn ou demand rezervasion ek nou pre pou fer ou dekouvert Moris.",
+          "",
+          "Detay rezervasion:",
+          "• Servis: {{serviceName}}",
+          "• Dat: {{bookingDate}}",
+          "• Rezervasion: {{bookingId}}",
+          "",
+          "Ki pou arive aprer?",
+          "1. Nou lekip pou kontakte ou dan 2 erdtan pou konfirm disponibilite",
+          "2. Nou pou aranz peyman (kas, EFT ouswa portmone mobil)",
+          "3. Ou pou gagn konfirmasion final avek detay pou vinn rod ou",
+          "",
+          "{{#portalLink}}Get, anile ouswa sanz ou rezervasion lor internet:\n{{portalLink}}\n{{/portalLink}}",
+          "Kontakte nou:",
+          "📞 Telefonn: {{businessPhone}}",
+          "📱 WhatsApp: {{businessWhatsApp}}",
+          "📧 Email: {{businessEmail}}",
+          "",
+          "Nou pe atann ou pou enn lexperyans inoubliab dan Moris!",
+          "",
+          "Bien amicalman,",
+          "Lekip Shanal Tours"
+        ),
+        html: lines(
+          "<p>Bonzour {{customerName}},</p>",
+          "<p>Mersi ki ou finn swazir Shanal Tours! Nou finn gagn ou demand rezervasion ek nou pre pou fer ou dekouvert Moris.</p>",
+          "<h3>Detay rezervasion</h3>",
+          "<ul>",
+          "<li>Servis: {{serviceName}}</li>",
+          "<li>Dat: {{bookingDate}}</li>",
+          "<li>Rezervasion: {{bookingId}}</li>",
+          "</ul>",
+          "<h3>Ki pou arive aprer?</h3>",
+          "<ol>",
+          "<li>Nou lekip pou kontakte ou dan 2 erdtan pou konfirm disponibilite</li>",
+          "<li>Nou pou aranz peyman (kas, EFT ouswa portmone mobil)</li>",
+          "<li>Ou pou gagn konfirmasion final avek detay pou vinn rod ou</li>",
+          "</ol>",
+          '{{#portalLink}}<p><a href="{{portalLink}}">Get, anile ouswa sanz ou rezervasion lor internet</a></p>{{/portalLink}}',
+          "<p>Telefonn: {{businessPhone}}<br>WhatsApp: {{businessWhatsApp}}<br>Email: {{businessEmail}}</p>",
+          "<p>Nou pe atann ou pou enn lexperyans inoubliab dan Moris!</p>",
+          "<p>Bien amicalman,<br>Lekip Shanal Tours</p>"
+        ),
+        whatsapp: lines(
+          "Bonzour {{customerName}}, mersi ki ou finn rezerv avek Shanal Tours!",
+          "Nou finn gagn ou demand pou *{{serviceName}}* le {{bookingDate}} (rezervasion {{bookingId}}).",
+          "Nou lekip pou kontakte ou dan 2 erdtan pou konfirm disponibilite.",
+          "{{#portalLink}}Get ou rezervasion: {{portalLink}}{{/portalLink}}"
+        ),
+      },
+    },
+  },
+  customer_booking_confirmed: {
+    description: "Confirmation to the customer with pickup details",
+    variables: [
+      "bookingId",
+      "customerName",
+      "serviceName",
+      "bookingDate",
+      "pickupLocation",
+      "pickupTime",
+      "portalLink",
+    ],
+    sample: SAMPLE_BOOKING,
+    locales: {
+      en: {
+        subject:
+          "Your booking is confirmed - {{serviceName}} on {{bookingDate}}",
+        text: lines(
+          "Dear {{customerName}},",
+          "",
+          "Good news: your booking is confirmed!",
+          "",
+          "• Service: {{serviceName}}",
+          "• Date: {{bookingDate}}",
+          "{{#pickupTime}}• Pickup time: {{pickupTime}}{{/pickupTime}}",
+          "{{#pickupLocation}}• Pickup location: {{pickupLocation}}{{/pickupLocation}}",
+          "• Booking ID: {{bookingId}}",
+          "",
+          "{{#portalLink}}View, cancel or change your booking online:\n{{portalLink}}\n{{/portalLink}}",
+          "If anything changes, call us on {{businessPhone}} or message us on WhatsApp at {{businessWhatsApp}}.",
+          "",
+          "Best regards,",
+          "The Shanal Tours Team"
+        ),
+        html: lines(
+          "<p>Dear {{customerName}},</p>",
+          "<p>Good news: your booking is confirmed!</p>",
+          "<ul>",
+          "<li>Service: {{serviceName}}</li>",
+          "<li>Date: {{bookingDate}}</li>",
+          "{{#pickupTime}}<li>Pickup time: {{pickupTime}}</li>{{/pickupTime}}",
+          "{{#pickupLocation}}<li>Pickup location: {{pickupLocation}}</li>{{/pickupLocation}}",
+          "<li>Booking ID: {{bookingId}}</li>",
+          "</ul>",
+          '{{#portalLink}}<p><a href="{{portalLink}}">View, cancel or change your booking online</a></p>{{/portalLink}}',
+          "<p>If anything changes, call us on {{businessPhone}} or message us on WhatsApp at {{businessWhatsApp}}.</p>",
+          "<p>Best regards,<br>The Shanal Tours Team</p>"
+        ),
+        whatsapp: lines(
+          "Hello {{customerName}}, your *{{serviceName}}* booking on {{bookingDate}} is confirmed!",
+          "{{#pickupTime}}Pickup time: {{pickupTime}}{{/pickupTime}}",
+          "{{#pickupLocation}}Pickup location: {{pickupLocation}}{{/pickupLocation}}",
+          "Booking ID: {{bookingId}}",
+          "{{#portalLink}}Manage your booking: {{portalLink}}{{/portalLink}}"
+        ),
+      },
+      fr: {
+        subject:
+          "Votre réservation est confirmée - {{serviceName}} le {{bookingDate}}",
+        text: lines(
+          "Bonjour {{customerName}},",
+          "",
+          "Bonne nouvelle : votre réservation est confirmée !",
+          "",
+          "• Service : {{serviceName}}",
+          "• Date : {{bookingDate}}",
+          "{{#pickupTime}}• Heure de prise en charge : {{pickupTime}}{{/pickupTime}}",
+          "{{#pickupLocation}}• Lieu de prise en charge : {{pickupLocation}}{{/pickupLocation}}",
+          "• Réservation : {{bookingId}}",
+          "",
+          "{{#portalLink}}Consultez, annulez ou modifiez votre réservation en ligne :\n{{portalLink}}\n{{/portalLink}}",
+          "En cas de changement, appelez-nous au {{businessPhone}} ou écrivez-nous sur WhatsApp au {{businessWhatsApp}}.",
+          "",
+          "Cordialement,",
+          "L'équipe Shanal Tours"
+        ),
+        html: lines(
+          "<p>Bonjour {{customerName}},</p>",
+          "<p>Bonne nouvelle : votre réservation est confirmée !</p>",
+          "<ul>",
+          "<li>Service : {{serviceName}}</li>",
+          "<li>Date : {{bookingDate}}</li>",
+          "{{#pickupTime}}<li>Heure de prise en charge : {{pickupTime}}</li>{{/pickupTime}}",
+          "{{#pickupLocation}}<li>Lieu de prise en charge : {{pickupLocation}}</li>{{/pickupLocation}}",
+          "<li>Réservation : {{bookingId}}</li>",
+          "</ul>",
+          '{{#portalLink}}<p><a href="{{portalLink}}">Consultez, annulez ou modifiez votre réservation en ligne</a></p>{{/portalLink}}',
+          "<p>En cas de changement, appelez-nous au {{businessPhone}} ou écrivez-nous sur WhatsApp au {{businessWhatsApp}}.</p>",
+          "<p>Cordialement,<br>L'équipe Shanal Tours</p>"
+        ),
+        whatsapp: lines(
+          "Bonjour {{customerName}}, votre réservation *{{serviceName}}* du {{bookingDate}} est confirmée !",
+          "{{#pickupTime}}Heure de prise en charge : {{pickupTime}}{{/pickupTime}}",
+          "{{#pickupLocation}}Lieu de prise en charge : {{pickupLocation}}{{/pickupLocation}}",
+          "Réservation : {{bookingId}}",
+          "{{#portalLink}}Gérer votre réservation : {{portalLink}}{{/portalLink}}"
+        ),
+      },
+      mfe: {
+        subject: "Ou rezervasion konfirme - {{serviceName}} le {{bookingDate}}",
+        text: lines(
+          "Bonzour {{customerName}},",
+          "",
+          "Bonn nouvel: ou rezervasion konfirme!",
+          "",
+          "• Servis: {{serviceName}}",
+          "• Dat: {{bookingDate}}",
+          "{{#pickupTime}}• Ler nou vinn rod ou: {{pickupTime}}{{/pickupTime}}",
+          "{{#pickupLocation}}• Kot nou vinn rod ou: {{pickupLocation}}{{/pickupLocation}}",
+          "• Rezervasion: {{bookingId}}",
+          "",
+          "{{#portalLink}}Get, anile ouswa sanz ou rezervasion lor internet:\n{{portalLink}}\n{{/portalLink}}",
+          "Si kiksoz sanze, telefonn nou lor {{businessPhone}} ouswa avoy nou enn mesaz WhatsApp lor {{businessWhatsApp}}.",
+          "",
+          "Bien amicalman,",
+          "Lekip Shanal Tours"
+        ),
+        html: lines(
+          "<p>Bonzour {{customerName}},</p>",
+          "<p>Bonn nouvel: ou rezervasion konfirme!</p>",
+          "<ul>",
+          "<li>Servis: {{serviceName}}</li>",
+          "<li>Dat: {{bookingDate}}</li>",
+          "{{#pickupTime}}<li>Ler nou vinn rod ou: {{pickupTime}}</li>{{/pickupTime}}",
+          "{{#pickupLocation}}<li>Kot nou vinn rod ou: {{pickupLocation}}</li>{{/pickupLocation}}",
+          "<li>Rezervasion: {{bookingId}}</li>",
+          "</ul>",
+          '{{#portalLink}}<p><a href="{{portalLink}}">Get, anile ouswa sanz ou rezervasion lor internet</a></p>{{/portalLink}}',
+          "<p>Si kiksoz sanze, telefonn nou lor {{businessPhone}} ouswa avoy nou enn mesaz WhatsApp lor {{businessWhatsApp}}.</p>",
+          "<p>Bien amicalman,<br>Lekip Shanal Tours</p>"
+        ),
+        whatsapp: lines(
+          "Bonzour {{customerName}}, ou rezervasion *{{serviceName}}* le {{bookingDate}} konfirme!",
+          "{{#pickupTime}}Ler nou vinn rod ou: {{pickupTime}}{{/pickupTime}}",
+          "{{#pickupLocation}}Kot nou vinn rod ou: {{pickupLocation}}{{/pickupLocation}}",
+          "Rezervasion: {{bookingId}}",
+          "{{#portalLink}}Get ou rezervasion: {{portalLink}}{{/portalLink}}"
+        ),
+      },
+    },
+  },
+
+  customer_booking_cancelled: {
+    description: "Notice to the customer that their booking was cancelled",
+    variables: ["bookingId", "customerName", "serviceName", "bookingDate"],
+    sample: SAMPLE_BOOKING,
+    locales: {
+      en: {
+        subject: "Booking cancelled - {{serviceName}} on {{bookingDate}}",
+        text: lines(
+          "Dear {{customerName}},",
+          "",
+          "Your booking for {{serviceName}} on {{bookingDate}} (booking ID {{bookingId}}) has been cancelled.",
+          "",
+          "If you did not expect this, or would like to book another date, call us on {{businessPhone}}, message us on WhatsApp at {{businessWhatsApp}} or email {{businessEmail}}.",
+          "",
+          "Best regards,",
+          "The Shanal Tours Team"
+        ),
+        html: lines(
+          "<p>Dear {{customerName}},</p>",
+          "<p>Your booking for {{serviceName}} on {{bookingDate}} (booking ID {{bookingId}}) has been cancelled.</p>",
+          "<p>If you did not expect this, or would like to book another date, call us on {{businessPhone}}, message us on WhatsApp at {{businessWhatsApp}} or email {{businessEmail}}.</p>",
+          "<p>Best regards,<br>The Shanal Tours Team</p>"
+        ),
+        whatsapp: lines(
+          "Hello {{customerName}}, your *{{serviceName}}* booking on {{bookingDate}} (booking {{bookingId}}) has been cancelled.",
+          "If you did not expect this or would like another date, just reply to this message or call {{businessPhone}}."
+        ),
+      },
+      fr: {
+        subject: "Réservation annulée - {{serviceName}} le {{bookingDate}}",
+        text: lines(
+          "Bonjour {{customerName}},",
+          "",
+          "Votre réservation pour {{serviceName}} le {{bookingDate}} (réservation {{bookingId}}) a été annulée.",
+          "",
+          "Si vous ne vous y attendiez pas, ou si vous souhaitez réserver une autre date, appelez-nous au {{businessPhone}}, écrivez-nous sur WhatsApp au {{businessWhatsApp}} ou par e-mail à {{businessEmail}}.",
+          "",
+          "Cordialement,",
+          "L'équipe Shanal Tours"
+        ),
+        html: lines(
+          "<p>Bonjour {{customerName}},</p>",
+          "<p>Votre réservation pour {{serviceName}} le {{bookingDate}} (réservation {{bookingId}}) a été annulée.</p>",
+          "<p>Si vous ne vous y attendiez pas, ou si vous souhaitez réserver une autre date, appelez-nous au {{businessPhone}}, écrivez-nous sur WhatsApp au {{businessWhatsApp}} ou par e-mail à {{businessEmail}}.</p>",
+          "<p>Cordialement,<br>L'équipe Shanal Tours</p>"
+        ),
+        whatsapp: lines(
+          "Bonjour {{customerName}}, votre réservation *{{serviceName}}* du {{bookingDate}} (réservation {{bookingId}}) a été annulée.",
+          "Si vous ne vous y attendiez pas ou souhaitez une autre date, répondez simplement à ce message ou appelez le {{businessPhone}}."
+        ),
+      },
+      mfe: {
+        subject: "Rezervasion anile - {{serviceName}} le {{bookingDate}}",
+        text: lines(
+          "Bonzour {{customerName}},",
+          "",
+          "Ou rezervasion pou {{serviceName}} le {{bookingDate}} (rezervasion {{bookingId}}) finn anile.",
+          "",
+          "Si ou pa ti pe atann sa, ouswa si ou anvi rezerv enn lot dat, telefonn nou lor {{businessPhone}}, avoy nou enn mesaz WhatsApp lor {{businessWhatsApp}} ouswa enn email lor {{businessEmail}}.",
+          "",
+          "Bien amicalman,",
+          "Lekip Shanal Tours"
+        ),
+        html: lines(
+          "<p>Bonzour {{customerName}},</p>",
+          "<p>Ou rezervasion pou {{serviceName}} le {{bookingDate}} (rezervasion {{bookingId}}) finn anile.</p>",
+          "<p>Si ou pa ti pe atann sa, ouswa si ou anvi rezerv enn lot dat, telefonn nou lor {{businessPhone}}, avoy nou enn mesaz WhatsApp lor {{businessWhatsApp}} ouswa enn email lor {{businessEmail}}.</p>",
+          "<p>Bien amicalman,<br>Lekip Shanal Tours</p>"
+        ),
+        whatsapp: lines(
+          "Bonzour {{customerName}}, ou rezervasion *{{serviceName}}* le {{bookingDate}} (rezervasion {{bookingId}}) finn anile.",
+          "Si ou pa ti pe atann sa ouswa ou anvi enn lot dat, reponn sa mesaz-la ouswa telefonn {{businessPhone}}."
+        ),
+      },
+    },
+  },
+
+  customer_booking_rescheduled: {
+    description:
+      "Notice to the customer that their booking moved to a new date",
+    variables: [
+      "bookingId",
+      "customerName",
+      "serviceName",
+      "previousDate",
+      "bookingDate",
+      "portalLink",
+    ],
+    sample: { ...SAMPLE_BOOKING, previousDate: "2026-12-03" },
+    locales: {
+      en: {
+        subject: "Booking rescheduled - {{serviceName}} now on {{bookingDate}}",
+        text: lines(
+          "Dear {{customerName}},",
+          "",
+          "Your booking for {{serviceName}} has moved from {{previousDate}} to {{bookingDate}}.",
+          "",
+          "Booking ID: {{bookingId}}",
+          "",
+          "{{#portalLink}}View, cancel or change your booking online:\n{{portalLink}}\n{{/portalLink}}",
+          "If the new date does not suit you, call us on {{businessPhone}} or message us on WhatsApp at {{businessWhatsApp}}.",
+          "",
+          "Best regards,",
+          "The Shanal Tours Team"
+        ),
+        html: lines(
+          "<p>Dear {{customerName}},</p>",
+          "<p>Your booking for {{serviceName}} has moved from {{previousDate}} to <strong>{{bookingDate}}</strong>.</p>",
+          "<p>Booking ID: {{bookingId}}</p>",
+          '{{#portalLink}}<p><a href="{{portalLink}}">View, cancel or change your booking online</a></p>{{/portalLink}}',
+          "<p>If the new date does not suit you, call us on {{businessPhone}} or message us on WhatsApp at {{businessWhatsApp}}.</p>",
+          "<p>Best regards,<br>The Shanal Tours Team</p>"
+        ),
+        whatsapp: lines(
+          "Hello {{customerName}}, your *{{serviceName}}* booking has moved from {{previousDate}} to *{{bookingDate}}* (booking {{bookingId}}).",
+          "If the new date does not suit you, just reply to this message or call {{businessPhone}}."
+        ),
+      },
+      fr: {
+        subject:
+          "Réservation déplacée - {{serviceName}} désormais le {{bookingDate}}",
+        text: lines(
+          "Bonjour {{customerName}},",
+          "",
+          "Votre réservation pour {{serviceName}} a été déplacée du {{previousDate}} au {{bookingDate}}.",
+          "",
+          "Réservation : {{bookingId}}",
+          "",
+          "{{#portalLink}}Consultez, annulez ou modifiez votre réservation en ligne :\n{{portalLink}}\n{{/portalLink}}",
+          "Si la nouvelle date ne vous convient pas, appelez-nous au {{businessPhone}} ou écrivez-nous sur WhatsApp au {{businessWhatsApp}}.",
+          "",
+          "Cordialement,",
+          "L'équipe Shanal Tours"
+        ),
+        html: lines(
+          "<p>Bonjour {{customerName}},</p>",
+          "<p>Votre réservation pour {{serviceName}} a été déplacée du {{previousDate}} au <strong>{{bookingDate}}</strong>.</p>",
+          "<p>Réservation : {{bookingId}}</p>",
+          '{{#portalLink}}<p><a href="{{portalLink}}">Consultez, annulez ou modifiez votre réservation en ligne</a></p>{{/portalLink}}',
+          "<p>Si la nouvelle date ne vous convient pas, appelez-nous au {{businessPhone}} ou écrivez-nous sur WhatsApp au {{businessWhatsApp}}.</p>",
+          "<p>Cordialement,<br>L'équipe Shanal Tours</p>"
+        ),
+        whatsapp: lines(
+          "Bonjour {{customerName}}, votre réservation *{{serviceName}}* a été déplacée du {{previousDate}} au *{{bookingDate}}* (réservation {{bookingId}}).",
+          "Si la nouvelle date ne vous convient pas, répondez simplement à ce message ou appelez le {{businessPhone}}."
+        ),
+      },
+      mfe: {
+        subject:
+          "Rezervasion sanz dat - {{serviceName}} aster le {{bookingDate}}",
+        text: lines(
+          "Bonzour {{customerName}},",
+          "",
+          "Ou rezervasion pou {{serviceName}} finn sanz dat: li pa le {{previousDate}} ankor, li le {{bookingDate}}.",
+          "",
+          "Rezervasion: {{bookingId}}",
+          "",
+          "{{#portalLink}}Get, anile ouswa sanz ou rezervasion lor internet:\n{{portalLink}}\n{{/portalLink}}",
+          "Si nouvo dat-la pa arranz ou, telefonn nou lor {{businessPhone}} ouswa avoy nou enn mesaz WhatsApp lor {{businessWhatsApp}}.",
+          "",
+          "Bien amicalman,",
+          "Lekip Shanal Tours"
+        ),
+        html: lines(
+          "<p>Bonzour {{customerName}},</p>",
+          "<p>Ou rezervasion pou {{serviceName}} finn sanz dat: li pa le {{previousDate}} ankor, li le <strong>{{bookingDate}}</strong>.</p>",
+          "<p>Rezervasion: {{bookingId}}</p>",
+          '{{#portalLink}}<p><a href="{{portalLink}}">Get, anile ouswa sanz ou rezervasion lor internet</a></p>{{/portalLink}}',
+          "<p>Si nouvo dat-la pa arranz ou, telefonn nou lor {{businessPhone}} ouswa avoy nou enn mesaz WhatsApp lor {{businessWhatsApp}}.</p>",
+          "<p>Bien amicalman,<br>Lekip Shanal Tours</p>"
+        ),
+        whatsapp: lines(
+          "Bonzour {{customerName}}, ou rezervasion *{{serviceName}}* finn sanz dat: aster li le *{{bookingDate}}* olie {{previousDate}} (rezervasion {{bookingId}}).",
+          "Si nouvo dat-la pa arranz ou, reponn sa mesaz-la ouswa telefonn {{businessPhone}}."
+        ),
+      },
+    },
+  },
+  customer_reminder_day_before: {
+    description: "Reminder to the customer the day before their booking",
+    variables: [
+      "bookingId",
+      "customerName",
+      "serviceName",
+      "bookingDate",
+      "pickupLocation",
+      "pickupTime",
+    ],
+    sample: SAMPLE_BOOKING,
+    locales: {
+      en: {
+        subject: "Reminder: {{serviceName}} tomorrow, {{bookingDate}}",
+        text: lines(
+          "Dear {{customerName}},",
+          "",
+          "This is a reminder that your {{serviceName}} booking is tomorrow, {{bookingDate}}.",
+          "",
+          "{{#pickupTime}}• Pickup time: {{pickupTime}}{{/pickupTime}}",
+          "{{#pickupLocation}}• Pickup location: {{pickupLocation}}{{/pickupLocation}}",
+          "• Booking ID: {{bookingId}}",
+          "",
+          "Need to change something? Call us on {{businessPhone}} or message us on WhatsApp at {{businessWhatsApp}}.",
+          "",
+          "See you soon,",
+          "The Shanal Tours Team"
+        ),
+        html: lines(
+          "<p>Dear {{customerName}},</p>",
+          "<p>This is a reminder that your {{serviceName}} booking is tomorrow, <strong>{{bookingDate}}</strong>.</p>",
+          "<ul>",
+          "{{#pickupTime}}<li>Pickup time: {{pickupTime}}</li>{{/pickupTime}}",
+          "{{#pickupLocation}}<li>Pickup location: {{pickupLocation}}</li>{{/pickupLocation}}",
+          "<li>Booking ID: {{bookingId}}</li>",
+          "</ul>",
+          "<p>Need to change something? Call us on {{businessPhone}} or message us on WhatsApp at {{businessWhatsApp}}.</p>",
+          "<p>See you soon,<br>The Shanal Tours Team</p>"
+        ),
+        whatsapp: lines(
+          "Hello {{customerName}}, a reminder that your *{{serviceName}}* booking is tomorrow, {{bookingDate}}.",
+          "{{#pickupTime}}Pickup time: {{pickupTime}}{{/pickupTime}}",
+          "{{#pickupLocation}}Pickup location: {{pickupLocation}}{{/pickupLocation}}",
+          "Reply here or call {{businessPhone}} if anything changes."
+        ),
+      },
+      fr: {
+        subject: "Rappel : {{serviceName}} demain, {{bookingDate}}",
+        text: lines(
+          "Bonjour {{customerName}},",
+          "",
+          "Petit rappel : votre réservation {{serviceName}} a lieu demain, {{bookingDate}}.",
+          "",
+          "{{#pickupTime}}• Heure de prise en charge : {{pickupTime}}{{/pickupTime}}",
+          "{{#pickupLocation}}• Lieu de prise en charge : {{pickupLocation}}{{/pickupLocation}}",
+          "• Réservation : {{bookingId}}",
+          "",
+          "Un changement ? Appelez-nous au {{businessPhone}} ou écrivez-nous sur WhatsApp au {{businessWhatsApp}}.",
+          "",
+          "À bientôt,",
+          "L'équipe Shanal Tours"
+        ),
+        html: lines(
+          "<p>Bonjour {{customerName}},</p>",
+          "<p>Petit rappel : votre réservation {{serviceName}} a lieu demain, <strong>{{bookingDate}}</strong>.</p>",
+          "<ul>",
+          "{{#pickupTime}}<li>Heure de prise en charge : {{pickupTime}}</li>{{/pickupTime}}",
+          "{{#pickupLocation}}<li>Lieu de prise en charge : {{pickupLocation}}</li>{{/pickupLocation}}",
+          "<li>Réservation : {{bookingId}}</li>",
+          "</ul>",
+          "<p>Un changement ? Appelez-nous au {{businessPhone}} ou écrivez-nous sur WhatsApp au {{businessWhatsApp}}.</p>",
+          "<p>À bientôt,<br>L'équipe Shanal Tours</p>"
+        ),
+        whatsapp: lines(
+          "Bonjour {{customerName}}, petit rappel : votre réservation *{{serviceName}}* a lieu demain, {{bookingDate}}.",
+          "{{#pickupTime}}Heure de prise en charge : {{pickupTime}}{{/pickupTime}}",
+          "{{#pickupLocation}}Lieu de prise en charge : {{pickupLocation}}{{/pickupLocation}}",
+          "Répondez ici ou appelez le {{businessPhone}} en cas de changement."
+        ),
+      },
+      mfe: {
+        subject: "Rapel: {{serviceName}} demin, {{bookingDate}}",
+        text: lines(
+          "Bonzour {{customerName}},",
+          "",
+          "Enn ti rapel: ou rezervasion {{serviceName}} demin, {{bookingDate}}.",
+          "",
+          "{{#pickupTime}}• Ler nou vinn rod ou: {{pickupTime}}{{/pickupTime}}",
+          "{{#pickupLocation}}• Kot nou vinn rod ou: {{pickupLocation}}{{/pickupLocation}}",
+          "• Rezervasion: {{bookingId}}",
+          "",
+          "Bizin sanz kiksoz? Telefonn nou lor {{businessPhone}} ouswa avoy nou enn mesaz WhatsApp lor {{businessWhatsApp}}.",
+          "",
+          "Asoter,",
+          "Lekip Shanal Tours"
+        ),
+        html: lines(
+          "<p>Bonzour {{customerName}},</p>",
+          "<p>Enn ti rapel: ou rezervasion {{serviceName}} demin, <strong>{{bookingDate}}</strong>.</p>",
+          "<ul>",
+          "{{#pickupTime}}<li>Ler nou vinn rod ou: {{pickupTime}}</li>{{/pickupTime}}",
+          "{{#pickupLocation}}<li>Kot nou vinn rod ou: {{pickupLocation}}</li>{{/pickupLocation}}",
+          "<li>Rezervasion: {{bookingId}}</li>",
+          "</ul>",
+          "<p>Bizin sanz kiksoz? Telefonn nou lor {{businessPhone}} ouswa avoy nou enn mesaz WhatsApp lor {{businessWhatsApp}}.</p>",
+          "<p>Asoter,<br>Lekip Shanal Tours</p>"
+        ),
+        whatsapp: lines(
+          "Bonzour {{customerName}}, enn ti rapel: ou rezervasion *{{serviceName}}* demin, {{bookingDate}}.",
+          "{{#pickupTime}}Ler nou vinn rod ou: {{pickupTime}}{{/pickupTime}}",
+          "{{#pickupLocation}}Kot nou vinn rod ou: {{pickupLocation}}{{/pickupLocation}}",
+          "Reponn isi ouswa telefonn {{businessPhone}} si kiksoz sanze."
+        ),
+      },
+    },
+  },
+
+  customer_reminder_soon: {
+    description: "Reminder to the customer shortly before their booking starts",
+    variables: [
+      "bookingId",
+      "customerName",
+      "serviceName",
+      "pickupLocation",
+      "pickupTime",
+    ],
+    sample: SAMPLE_BOOKING,
+    locales: {
+      en: {
+        subject: "See you soon: {{serviceName}} starts shortly",
+        text: lines(
+          "Dear {{customerName}},",
+          "",
+          "Your {{serviceName}} booking starts soon{{#pickupTime}}, with pickup at {{pickupTime}}{{/pickupTime}}.",
+          "{{#pickupLocation}}Please be ready at {{pickupLocation}}.{{/pickupLocation}}",
+          "",
+          "If you are running late, call us on {{businessPhone}}.",
+          "",
+          "The Shanal Tours Team"
+        ),
+        html: lines(
+          "<p>Dear {{customerName}},</p>",
+          "<p>Your {{serviceName}} booking starts soon{{#pickupTime}}, with pickup at <strong>{{pickupTime}}</strong>{{/pickupTime}}.</p>",
+          "{{#pickupLocation}}<p>Please be ready at {{pickupLocation}}.</p>{{/pickupLocation}}",
+          "<p>If you are running late, call us on {{businessPhone}}.</p>",
+          "<p>The Shanal Tours Team</p>"
+        ),
+        whatsapp: lines(
+          "Hello {{customerName}}, your *{{serviceName}}* booking starts soon{{#pickupTime}}, with pickup at {{pickupTime}}{{/pickupTime}}.",
+          "{{#pickupLocation}}Please be ready at {{pickupLocation}}.{{/pickupLocation}}",
+          "Running late? Call {{businessPhone}}."
+        ),
+      },
+      fr: {
+        subject: "À tout de suite : {{serviceName}} commence bientôt",
+        text: lines(
+          "Bonjour {{customerName}},",
+          "",
+          "Votre réservation {{serviceName}} commence bientôt{{#pickupTime}}, avec une prise en charge à {{pickupTime}}{{/pickupTime}}.",
+          "{{#pickupLocation}}Merci d'être prêt à : {{pickupLocation}}.{{/pickupLocation}}",
+          "",
+          "En cas de retard, appelez-nous au {{businessPhone}}.",
+          "",
+          "L'équipe Shanal Tours"
+        ),
+        html: lines(
+          "<p>Bonjour {{customerName}},</p>",
+          "<p>Votre réservation {{serviceName}} commence bientôt{{#pickupTime}}, avec une prise en charge à <strong>{{pickupTime}}</strong>{{/pickupTime}}.</p>",
+          "{{#pickupLocation}}<p>Merci d'être prêt à : {{pickupLocation}}.</p>{{/pickupLocation}}",
+          "<p>En cas de retard, appelez-nous au {{businessPhone}}.</p>",
+          "<p>L'équipe Shanal Tours</p>"
+        ),
+        whatsapp: lines(
+          "Bonjour {{customerName}}, votre réservation *{{serviceName}}* commence bientôt{{#pickupTime}}, avec une prise en charge à {{pickupTime}}{{/pickupTime}}.",
+          "{{#pickupLocation}}Merci d'être prêt à : {{pickupLocation}}.{{/pickupLocation}}",
+          "En retard ? Appelez le {{businessPhone}}."
+        ),
+      },
+      mfe: {
+        subject: "Asoter: {{serviceName}} pe koumanse byento",
+        text: lines(
+          "Bonzour {{customerName}},",
+          "",
+          "Ou rezervasion {{serviceName}} pe koumanse byento{{#pickupTime}}, nou vinn rod ou a {{pickupTime}}{{/pickupTime}}.",
+          "{{#pickupLocation}}Sil vou ple, swa pare kot: {{pickupLocation}}.{{/pickupLocation}}",
+          "",
+          "Si ou an retar, telefonn nou lor {{businessPhone}}.",
+          "",
+          "Lekip Shanal Tours"
+        ),
+        html: lines(
+          "<p>Bonzour {{customerName}},</p>",
+          "<p>Ou rezervasion {{serviceName}} pe koumanse byento{{#pickupTime}}, nou vinn rod ou a <strong>{{pickupTime}}</strong>{{/pickupTime}}.</p>",
+          "{{#pickupLocation}}<p>Sil vou ple, swa pare kot: {{pickupLocation}}.</p>{{/pickupLocation}}",
+          "<p>Si ou an retar, telefonn nou lor {{businessPhone}}.</p>",
+          "<p>Lekip Shanal Tours</p>"
+        ),
+        whatsapp: lines(
+          "Bonzour {{customerName}}, ou rezervasion *{{serviceName}}* pe koumanse byento{{#pickupTime}}, nou vinn rod ou a {{pickupTime}}{{/pickupTime}}.",
+          "{{#pickupLocation}}Sil vou ple, swa pare kot: {{pickupLocation}}.{{/pickupLocation}}",
+          "An retar? Telefonn {{businessPhone}}."
+        ),
+      },
+    },
+  },
+
+  customer_return_reminder: {
+    description: "Reminder to a rental customer of when the car is due back",
+    variables: [
+      "bookingId",
+      "customerName",
+      "serviceName",
+      "returnDate",
+      "returnTime",
+    ],
+    sample: {
+      ...SAMPLE_BOOKING,
+      serviceName: "Car Rental",
+      returnDate: "2026-12-08",
+      returnTime: "18:00",
+    },
+    locales: {
+      en: {
+        subject: "Reminder: your rental car is due back {{returnDate}}",
+        text: lines(
+          "Dear {{customerName}},",
+          "",
+          "A reminder that your {{serviceName}} is due back on {{returnDate}} by {{returnTime}}.",
+          "",
+          "Booking ID: {{bookingId}}",
+          "",
+          "To extend your rental or arrange the drop-off, call us on {{businessPhone}} or message us on WhatsApp at {{businessWhatsApp}}.",
+          "",
+          "Thank you for travelling with us,",
+          "The Shanal Tours Team"
+        ),
+        html: lines(
+          "<p>Dear {{customerName}},</p>",
+          "<p>A reminder that your {{serviceName}} is due back on <strong>{{returnDate}} by {{returnTime}}</strong>.</p>",
+          "<p>Booking ID: {{bookingId}}</p>",
+          "<p>To extend your rental or arrange the drop-off, call us on {{businessPhone}} or message us on WhatsApp at {{businessWhatsApp}}.</p>",
+          "<p>Thank you for travelling with us,<br>The Shanal Tours Team</p>"
+        ),
+        whatsapp: lines(
+          "Hello {{customerName}}, a reminder that your *{{serviceName}}* is due back on {{returnDate}} by {{returnTime}} (booking {{bookingId}}).",
+          "Reply here or call {{businessPhone}} to extend or arrange the drop-off."
+        ),
+      },
+      fr: {
+        subject:
+          "Rappel : retour de votre voiture de location le {{returnDate}}",
+        text: lines(
+          "Bonjour {{customerName}},",
+          "",
+          "Petit rappel : votre {{serviceName}} doit être rendue le {{returnDate}} avant {{returnTime}}.",
+          "",
+          "Réservation : {{bookingId}}",
+          "",
+          "Pour prolonger la location ou organiser le retour, appelez-nous au {{businessPhone}} ou écrivez-nous sur WhatsApp au {{businessWhatsApp}}.",
+          "",
+          "Merci d'avoir voyagé avec nous,",
+          "L'équipe Shanal Tours"
+        ),
+        html: lines(
+          "<p>Bonjour {{customerName}},</p>",
+          "<p>Petit rappel : votre {{serviceName}} doit être rendue le <strong>{{returnDate}} avant {{returnTime}}</strong>.</p>",
+          "<p>Réservation : {{bookingId}}</p>",
+          "<p>Pour prolonger la location ou organiser le retour, appelez-nous au {{businessPhone}} ou écrivez-nous sur WhatsApp au {{businessWhatsApp}}.</p>",
+          "<p>Merci d'avoir voyagé avec nous,<br>L'équipe Shanal Tours</p>"
+        ),
+        whatsapp: lines(
+          "Bonjour {{customerName}}, petit rappel : votre *{{serviceName}}* doit être rendue le {{returnDate}} avant {{returnTime}} (réservation {{bookingId}}).",
+          "Répondez ici ou appelez le {{businessPhone}} pour prolonger ou organiser le retour."
+        ),
+      },
+      mfe: {
+        subject: "Rapel: ou loto lokasion bizin retourne le {{returnDate}}",
+        text: lines(
+          "Bonzour {{customerName}},",
+          "",
+          "Enn ti rapel: ou {{serviceName}} bizin retourne le {{returnDate}} avan {{returnTime}}.",
+          "",
+          "Rezervasion: {{bookingId}}",
+          "",
+          "Pou prolonz lokasion-la ouswa aranz retour loto-la, telefonn nou lor {{businessPhone}} ouswa avoy nou enn mesaz WhatsApp lor {{businessWhatsApp}}.",
+          "",
+          "Mersi ki ou finn vwayaz avek nou,",
+          "Lekip Shanal Tours"
+        ),
+        html: lines(
+          "<p>Bonzour {{customerName}},</p>",
+          "<p>Enn ti rapel: ou {{serviceName}} bizin retourne le <strong>{{returnDate}} avan {{returnTime}}</strong>.</p>",
+          "<p>Rezervasion: {{bookingId}}</p>",
+          "<p>Pou prolonz lokasion-la ouswa aranz retour loto-la, telefonn nou lor {{businessPhone}} ouswa avoy nou enn mesaz WhatsApp lor {{businessWhatsApp}}.</p>",
+          "<p>Mersi ki ou finn vwayaz avek nou,<br>Lekip Shanal Tours</p>"
+        ),
+        whatsapp: lines(
+          "Bonzour {{customerName}}, enn ti rapel: ou *{{serviceName}}* bizin retourne le {{returnDate}} avan {{returnTime}} (rezervasion {{bookingId}}).",
+          "Reponn isi ouswa telefonn {{businessPhone}} pou prolonze ouswa aranz retour-la."
+        ),
+      },
+    },
+  },
+
+  owner_daily_digest: {
+    description: "Morning summary of the day's jobs for the owner",
+    variables: ["date", "jobCount", "starts", "returns"],
+    sample: {
+      date: "2026-12-05",
+      jobCount: "3",
+      starts:
+        "08:30 Island Tour - Marie Laval (+230 5712 3456) - Hotel lobby, Le Méridien\n10:00 Car Rental - John Smith (+44 7700 900123)",
+      returns: "18:00 Car Rental - Priya Doorgah (+230 5798 1122)",
+    },
+    locales: {
+      en: {
+        subject: "Today's jobs: {{date}} ({{jobCount}})",
+        text: lines(
+          "Good morning! Here are today's jobs, {{date}}.",
+          "",
+          "{{#starts}}Starting today:\n{{starts}}\n{{/starts}}",
+          "{{#returns}}Rentals due back today:\n{{returns}}\n{{/returns}}",
+          "Nothing else is scheduled."
+        ),
+        html: lines(
+          "<p>Good morning! Here are today's jobs, {{date}}.</p>",
+          "{{#starts}}<h3>Starting today</h3><p>{{starts}}</p>{{/starts}}",
+          "{{#returns}}<h3>Rentals due back today</h3><p>{{returns}}</p>{{/returns}}",
+          "<p>Nothing else is scheduled.</p>"
+        ),
+        whatsapp: lines(
+          "*Today's jobs, {{date}}*",
+          "{{#starts}}Starting today:\n{{starts}}{{/starts}}",
+          "{{#returns}}Due back today:\n{{returns}}{{/returns}}"
+        ),
+      },
+      fr: {
+        subject: "Travaux du jour : {{date}} ({{jobCount}})",
+        text: lines(
+          "Bonjour ! Voici les travaux du jour, {{date}}.",
+          "",
+          "{{#starts}}Départs du jour :\n{{starts}}\n{{/starts}}",
+          "{{#returns}}Locations à rendre aujourd'hui :\n{{returns}}\n{{/returns}}",
+          "Rien d'autre n'est prévu."
+        ),
+        html: lines(
+          "<p>Bonjour ! Voici les travaux du jour, {{date}}.</p>",
+          "{{#starts}}<h3>Départs du jour</h3><p>{{starts}}</p>{{/starts}}",
+          "{{#returns}}<h3>Locations à rendre aujourd'hui</h3><p>{{returns}}</p>{{/returns}}",
+          "<p>Rien d'autre n'est prévu.</p>"
+        ),
+        whatsapp: lines(
+          "*Travaux du jour, {{date}}*",
+          "{{#starts}}Départs :\n{{starts}}{{/starts}}",
+          "{{#returns}}Retours :\n{{returns}}{{/returns}}"
+        ),
+      },
+      mfe: {
+        subject: "Travay zordi: {{date}} ({{jobCount}})",
+        text: lines(
+          "Bonzour! Get travay zordi, {{date}}.",
+          "",
+          "{{#starts}}Pe koumanse zordi:\n{{starts}}\n{{/starts}}",
+          "{{#returns}}Loto ki bizin retourne zordi:\n{{returns}}\n{{/returns}}",
+          "Napa nanye lot prevwar."
+        ),
+        html: lines(
+          "<p>Bonzour! Get travay zordi, {{date}}.</p>",
+          "{{#starts}}<h3>Pe koumanse zordi</h3><p>{{starts}}</p>{{/starts}}",
+          "{{#returns}}<h3>Loto ki bizin retourne zordi</h3><p>{{returns}}</p>{{/returns}}",
+          "<p>Napa nanye lot prevwar.</p>"
+        ),
+        whatsapp: lines(
+          "*Travay zordi, {{date}}*",
+          "{{#starts}}Pe koumanse:\n{{starts}}{{/starts}}",
+          "{{#returns}}Retour:\n{{returns}}{{/returns}}"
+        ),
+      },
+    },
+  },
+};
+
+// A section on lines of its own takes those lines with it when left out
+const SECTION_LINES = /^{{#(\w+)}}[\s\S]*?{{\/\1}}$\n?/gm;
+const SECTION = /{{#(\w+)}}([\s\S]*?){{\/\1}}/g;
+const VARIABLE = /{{(\w+)}}/g;
+
+// Multi-line values keep their line breaks in the HTML variant
+function htmlValue(value: string): string {
+  return escapeHtml(value).replace(/\n/g, "<br>");
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function renderString(
+  source: string,
+  variables: TemplateVariables,
+  escape: (value: string) => string = (value) => value
+): string {
+  return source
+    .replace(SECTION_LINES, (lines, name) => (variables[name] ? lines : ""))
+    .replace(SECTION, (_, name, content) => (variables[name] ? content : ""))
+    .replace(VARIABLE, (_, name) => escape(variables[name] ?? ""));
+}
+
+function htmlLayout(locale: TemplateLocale, body: string): string {
+  return (
+    `<!DOCTYPE html><html lang="${locale}"><body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,sans-serif;color:#1f2937;line-height:1.5">` +
+    `<div style="max-width:600px;margin:0 auto;padding:24px;background:#ffffff;border-radius:8px">` +
+    `<h2 style="margin-top:0;color:#1e40af">${escapeHtml(
+      TEMPLATE_CONFIG.BUSINESS_NAME
+    )}</h2>\n${body}\n</div></body></html>`
+  );
+}
+
+export function isTemplateLocale(value: unknown): value is TemplateLocale {
+  return TEMPLATE_CONFIG.LOCALES.includes(value as TemplateLocale);
+}
+
+export function resolveLocale(value: unknown): TemplateLocale {
+  return isTemplateLocale(value) ? value : TEMPLATE_CONFIG.DEFAULT_LOCALE;
+}
+
+export function ownerLocale(): TemplateLocale {
+  return resolveLocale(TEMPLATE_CONFIG.OWNER_LOCALE);
+}
+
+/**
+ * Format a day in the Mauritius timezone, e.g. "Saturday 5 December 2026"
+ */
+export function formatDateForLocale(
+  date: FirestoreDate,
+  locale: TemplateLocale
+): string {
+  return new Intl.DateTimeFormat(TEMPLATE_CONFIG.DATE_LOCALES[locale], {
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    timeZone: TEMPLATE_CONFIG.TIMEZONE,
+  }).format(normalizeDate(date));
+}
+
+/**
+ * Render a template in the given locale. Business contact details are
+ * always available as businessPhone, businessWhatsApp and businessEmail.
+ */
+export function renderTemplate(
+  name: string,
+  locale: TemplateLocale,
+  variables: TemplateVariables
+): RenderedNotification {
+  const template = NOTIFICATION_TEMPLATES[name];
+  if (!template) {
+    throw new Error(`Unknown notification template: ${name}`);
+  }
+
+  const content = template.locales[locale];
+  const values: TemplateVariables = {
+    businessPhone: TEMPLATE_CONFIG.BUSINESS_PHONE,
+    businessWhatsApp: TEMPLATE_CONFIG.BUSINESS_WHATSAPP,
+    businessEmail: TEMPLATE_CONFIG.BUSINESS_EMAIL,
+    ...variables,
+  };
+
+  return {
+    subject: renderString(content.subject, values),
+    text: renderString(content.text, values),
+    html: htmlLayout(locale, renderString(content.html, values, htmlValue)),
+    whatsapp: renderString(content.whatsapp, values),
+  };
+}
+
+/**
+ * The day of a booking, or the first and last day of a rental
+ */
+export function formatBookingDates(
+  booking: Pick<BookingData, "bookingDate" | "rentalStart" | "rentalEnd">,
+  locale: TemplateLocale
+): string {
+  return booking.rentalStart
+    ? `${formatDateForLocale(
+        booking.rentalStart,
+        locale
+      )} – ${formatDateForLocale(
+        booking.rentalEnd || booking.rentalStart,
+        locale
+      )}`
+    : formatDateForLocale(booking.bookingDate, locale);
+}
+
+/**
+ * Template variables describing a booking, with dates formatted for the
+ * locale the message is written in
+ */
+export function bookingTemplateVariables(
+  bookingId: string,
+  booking: BookingData,
+  locale: TemplateLocale
+): TemplateVariables {
+  return {
+    bookingId,
+    customerName: booking.customerName,
+    customerEmail: booking.customerEmail,
+    customerPhone: booking.customerPhone,
+    serviceName: booking.serviceName,
+    bookingDate: formatBookingDates(booking, locale),
+    notes: booking.notes,
+    pickupLocation: booking.pickup?.location,
+    pickupTime: booking.pickup?.time,
+    portalLink: buildBookingPortalLink(bookingId),
+  };
+}
+
+/**
+ * Render any template with its sample data (staff with view_bookings only).
+ * Without a template name, returns the list of templates to choose from.
+ */
+export const previewNotificationTemplate = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated");
+  }
+  if (!hasPermission(request.auth.token, Permission.VIEW_BOOKINGS)) {
+    throw new HttpsError("permission-denied", "Insufficient permissions");
+  }
+
+  const templates = Object.entries(NOTIFICATION_TEMPLATES).map(
+    ([name, template]) => ({
+      name,
+      description: template.description,
+      variables: template.variables,
+    })
+  );
+
+  const { template: name, locale } = request.data || {};
+  if (!name) {
+    return { templates, locales: TEMPLATE_CONFIG.LOCALES, preview: null };
+  }
+
+  const template = NOTIFICATION_TEMPLATES[name];
+  if (!template) {
+    throw new HttpsError("not-found", "Template not found");
+  }
+  if (!isTemplateLocale(locale)) {
+    throw new HttpsError("invalid-argument", "Unsupported locale");
+  }
+
+  // Sample dates are stored as yyyy-mm-dd and formatted like real ones
+  const sample = { ...template.sample };
+  SAMPLE_DATE_VARIABLES.forEach((variable) => {
+    const value = sample[variable];
+    if (value) {
+      sample[variable] = formatDateForLocale(value, locale);
+    }
+  });
+
+  return {
+    templates,
+    locales: TEMPLATE_CONFIG.LOCALES,
+    preview: renderTemplate(name, locale, sample),
+  };
+});
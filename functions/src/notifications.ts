@@ -0,0 +1,642 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { onDocumentUpdated } from "firebase-functions/v2/firestore";
+import { getFirestore, FieldValue, Timestamp } from "firebase-admin/firestore";
+import { hasPermission, Permission } from "./admin";
+import { logFunctionMetrics } from "./monitoring";
+import { changeContext } from "./booking-history";
+import { isEmailConfigured, sendEmail } from "./email";
+import {
+  bookingTemplateVariables,
+  formatBookingDates,
+  ownerLocale,
+  renderTemplate,
+  resolveLocale,
+  TemplateLocale,
+  TemplateVariables,
+} from "./notification-templates";
+import {
+  isCloudApiConfigured,
+  sendCloudWhatsApp,
+  whatsappTemplateFor,
+  WhatsAppTemplateMessage,
+} from "./whatsapp";
+import { BookingData, ContactChannel } from "./types";
+
+/**
+ * Notification outbox
+ *
+ * Every message is queued as a document in the notifications collection,
+ * one per event, recipient and channel, and delivered from there. Failed sends are
+ * retried with exponential backoff by processNotificationOutbox until they
+ * succeed or run out of attempts ("dead"). Delivery status is mirrored on
+ * the booking under notifications.<key>, where the key names the event,
+ * recipient and channel.
+ */
+
+export const NOTIFICATIONS_CONFIG = {
+  COLLECTION: "notifications",
+  MAX_ATTEMPTS: 6,
+  // Delay before the first retry; doubles after each failed attempt
+  BASE_RETRY_DELAY_MS: 60 * 1000,
+  MAX_RETRY_DELAY_MS: 6 * 60 * 60 * 1000,
+  // How long a send may take before the worker treats it as crashed
+  SEND_LOCK_MS: 2 * 60 * 1000,
+  // Notifications processed per worker run
+  BATCH_SIZE: 50,
+};
+
+const notificationEmailTo = process.env.NOTIFICATION_EMAIL_TO;
+const whatsappWebhookUrl = process.env.WHATSAPP_WEBHOOK_URL;
+const whatsappApiToken = process.env.WHATSAPP_API_TOKEN;
+const whatsappRecipient = process.env.OWNER_WHATSAPP_NUMBER;
+
+export type NotificationChannel = ContactChannel;
+export type NotificationRecipient = "owner" | "customer";
+export type NotificationEvent =
+  | "new_booking"
+  | "confirmed"
+  | "cancelled"
+  | "rescheduled"
+  | "reminder_day_before"
+  | "reminder_soon"
+  | "return_reminder"
+  | "daily_digest";
+export type NotificationStatus =
+  | "pending"
+  | "sending"
+  | "sent"
+  | "failed"
+  | "dead";
+
+export interface OutboxMessage {
+  // Null for messages not about one booking, such as the daily digest
+  bookingId: string | null;
+  event: NotificationEvent;
+  // Distinguishes repeats of the same event on one booking
+  eventKey?: string;
+  recipient: NotificationRecipient;
+  channel: NotificationChannel;
+  to: string;
+  subject: string;
+  body: string;
+  // HTML alternative for email; body is the plain-text version
+  html?: string;
+  // Sent instead of body outside WhatsApp's 24-hour window (Cloud API only)
+  whatsappTemplate?: WhatsAppTemplateMessage | null;
+  metadata?: Record<string, unknown>;
+}
+
+interface OutboxEntry extends OutboxMessage {
+  status: NotificationStatus;
+  attempts: number;
+  nextAttemptAt: Timestamp;
+  lastError: string | null;
+  // ID assigned by the provider, used to match its delivery callbacks
+  providerMessageId?: string;
+}
+
+function notificationKey(message: OutboxMessage): string {
+  return [message.event, message.eventKey, message.recipient, message.channel]
+    .filter(Boolean)
+    .join("_");
+}
+
+function notificationId(message: OutboxMessage): string {
+  const key = notificationKey(message);
+  return message.bookingId ? `${message.bookingId}_${key}` : key;
+}
+
+/**
+ * Delay before the next attempt, with jitter so retries of a failed
+ * provider do not all land together
+ */
+export function retryDelayMs(attempts: number): number {
+  const delay = Math.min(
+    NOTIFICATIONS_CONFIG.BASE_RETRY_DELAY_MS * 2 ** (attempts - 1),
+    NOTIFICATIONS_CONFIG.MAX_RETRY_DELAY_MS
+  );
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+function sendEmailNotification(message: OutboxMessage): Promise<string | void> {
+  return sendEmail({
+    to: message.to,
+    subject: message.subject,
+    text: message.body,
+    html: message.html,
+  });
+}
+
+function whatsappConfigured(): boolean {
+  return isCloudApiConfigured() || !!whatsappWebhookUrl;
+}
+
+/**
+ * Send through the Cloud API when it is configured, otherwise through the
+ * generic webhook
+ */
+async function sendWhatsApp(message: OutboxMessage): Promise<string | void> {
+  if (isCloudApiConfigured()) {
+    return sendCloudWhatsApp(message);
+  }
+  if (!whatsappWebhookUrl) {
+    throw new Error("WhatsApp webhook is not configured");
+  }
+
+  const response = await fetch(whatsappWebhookUrl, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(whatsappApiToken
+        ? { Authorization: `Bearer ${whatsappApiToken}` }
+        : {}),
+    },
+    body: JSON.stringify({
+      to: message.to,
+      message: message.body,
+      metadata: message.metadata || {},
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(
+      `WhatsApp notification failed with status ${response.status}: ${errorText}`
+    );
+  }
+}
+
+const CHANNEL_SENDERS: Record<
+  NotificationChannel,
+  // Resolves with the provider's message ID where it gives one
+  (message: OutboxMessage) => Promise<string | void>
+> = {
+  email: sendEmailNotification,
+  whatsapp: sendWhatsApp,
+};
+
+/**
+ * Mirror a notification's delivery status onto its booking
+ */
+async function mirrorStatusOnBooking(
+  message: OutboxMessage,
+  fields: Record<string, unknown>,
+  delivered = false
+): Promise<void> {
+  if (!message.bookingId) {
+    return;
+  }
+
+  const key = notificationKey(message);
+  const updates: FirebaseFirestore.DocumentData = {
+    [`notifications.${key}`]: {
+      id: notificationId(message),
+      event: message.event,
+      channel: message.channel,
+      recipient: message.recipient,
+      ...fields,
+      updatedAt: FieldValue.serverTimestamp(),
+    },
+    ...changeContext(null, "function"),
+  };
+  if (delivered) {
+    updates[`${message.recipient}NotifiedAt`] = FieldValue.serverTimestamp();
+  }
+
+  try {
+    await getFirestore()
+      .collection("bookings")
+      .doc(message.bookingId)
+      .update(updates);
+  } catch (error) {
+    // The booking may have been deleted; the outbox keeps the real status
+    console.warn("Could not update notification status on booking", error);
+  }
+}
+
+/**
+ * Claim a notification and try to send it once. The claim pushes
+ * nextAttemptAt past the send lock so a crashed send is picked up again by
+ * the worker.
+ */
+async function deliverNotification(
+  ref: FirebaseFirestore.DocumentReference
+): Promise<NotificationStatus | null> {
+  const db = getFirestore();
+  const claimed = await db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    const entry = snapshot.data() as OutboxEntry | undefined;
+    if (
+      !entry ||
+      !["pending", "failed", "sending"].includes(entry.status) ||
+      entry.nextAttemptAt.toMillis() > Date.now()
+    ) {
+      return null;
+    }
+
+    const attempts = entry.attempts + 1;
+    transaction.update(ref, {
+      status: "sending",
+      attempts,
+      nextAttemptAt: Timestamp.fromMillis(
+        Date.now() + NOTIFICATIONS_CONFIG.SEND_LOCK_MS
+      ),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return { ...entry, attempts };
+  });
+
+  if (!claimed) {
+    return null;
+  }
+
+  try {
+    const providerMessageId = await CHANNEL_SENDERS[claimed.channel](claimed);
+    await ref.update({
+      status: "sent",
+      ...(providerMessageId ? { providerMessageId } : {}),
+      sentAt: FieldValue.serverTimestamp(),
+      lastError: null,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    await mirrorStatusOnBooking(
+      claimed,
+      { status: "sent", attempts: claimed.attempts },
+      true
+    );
+    return "sent";
+  } catch (error) {
+    const lastError = (error as Error).message.slice(0, 500);
+    const status: NotificationStatus =
+      claimed.attempts >= NOTIFICATIONS_CONFIG.MAX_ATTEMPTS ? "dead" : "failed";
+    console.error(
+      `Notification ${ref.id} attempt ${claimed.attempts} failed:`,
+      error
+    );
+
+    await ref.update({
+      status,
+      lastError,
+      nextAttemptAt: Timestamp.fromMillis(
+        Date.now() + retryDelayMs(claimed.attempts)
+      ),
+      ...(status === "dead" ? { deadAt: FieldValue.serverTimestamp() } : {}),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    await mirrorStatusOnBooking(claimed, {
+      status,
+      attempts: claimed.attempts,
+      lastError,
+    });
+    return status;
+  }
+}
+
+/**
+ * Queue a message and make the first delivery attempt straight away.
+ * Messages are keyed by booking, event, recipient and channel, so queueing
+ * the same message twice (e.g. a retried trigger) sends it once.
+ */
+export async function enqueueNotification(
+  message: OutboxMessage
+): Promise<void> {
+  const ref = getFirestore()
+    .collection(NOTIFICATIONS_CONFIG.COLLECTION)
+    .doc(notificationId(message));
+
+  let created = true;
+  try {
+    await ref.create({
+      ...message,
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: Timestamp.now(),
+      lastError: null,
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+  } catch (error) {
+    // 6 = ALREADY_EXISTS: queued by an earlier run
+    if ((error as { code?: number }).code !== 6) {
+      throw error;
+    }
+    created = false;
+  }
+
+  if (created) {
+    await mirrorStatusOnBooking(message, { status: "pending", attempts: 0 });
+  }
+  await deliverNotification(ref);
+}
+
+/**
+ * The channel to reach a customer on: the one they asked for if we can use
+ * it, otherwise whichever other channel is available
+ */
+function customerChannel(booking: BookingData): NotificationChannel | null {
+  const available: NotificationChannel[] = [];
+  if (isEmailConfigured() && booking.customerEmail) {
+    available.push("email");
+  }
+  if (whatsappConfigured() && booking.customerPhone) {
+    available.push("whatsapp");
+  }
+
+  const preferred =
+    booking.preferredChannel || (booking.customerEmail ? "email" : "whatsapp");
+  return available.includes(preferred) ? preferred : available[0] || null;
+}
+
+/**
+ * A message to the customer on their preferred channel, or null when they
+ * cannot be reached
+ */
+export function buildCustomerMessage(
+  bookingId: string,
+  booking: BookingData,
+  event: NotificationEvent,
+  template: string,
+  extraVariables: TemplateVariables = {},
+  eventKey?: string
+): OutboxMessage | null {
+  const channel = customerChannel(booking);
+  if (!channel) {
+    return null;
+  }
+
+  const locale = resolveLocale(booking.locale);
+  const variables = {
+    ...bookingTemplateVariables(bookingId, booking, locale),
+    ...extraVariables,
+  };
+  const rendered = renderTemplate(template, locale, variables);
+  const message: OutboxMessage = {
+    bookingId,
+    event,
+    ...(eventKey ? { eventKey } : {}),
+    recipient: "customer",
+    channel,
+    to: channel === "email" ? booking.customerEmail! : booking.customerPhone,
+    subject: rendered.subject,
+    body: channel === "email" ? rendered.text : rendered.whatsapp,
+  };
+  if (channel === "email") {
+    message.html = rendered.html;
+  } else {
+    message.metadata = { bookingId, template, locale };
+    message.whatsappTemplate = whatsappTemplateFor(template, locale, variables);
+  }
+  return message;
+}
+
+/**
+ * The same message to the owner on every configured channel, in the owner's
+ * language. Variables are built per locale so dates are formatted for it.
+ */
+export function buildOwnerMessages(
+  bookingId: string | null,
+  event: NotificationEvent,
+  template: string,
+  variables: (locale: TemplateLocale) => TemplateVariables,
+  eventKey?: string
+): OutboxMessage[] {
+  const locale = ownerLocale();
+  const localeVariables = variables(locale);
+  const rendered = renderTemplate(template, locale, localeVariables);
+  const base = {
+    bookingId,
+    event,
+    ...(eventKey ? { eventKey } : {}),
+    recipient: "owner" as const,
+    subject: rendered.subject,
+  };
+  const messages: OutboxMessage[] = [];
+
+  if (isEmailConfigured() && notificationEmailTo) {
+    messages.push({
+      ...base,
+      channel: "email",
+      to: notificationEmailTo,
+      body: rendered.text,
+      html: rendered.html,
+    });
+  }
+  if (whatsappConfigured() && whatsappRecipient) {
+    messages.push({
+      ...base,
+      channel: "whatsapp",
+      to: whatsappRecipient,
+      body: rendered.whatsapp,
+      metadata: { bookingId, template, locale },
+      whatsappTemplate: whatsappTemplateFor(template, locale, localeVariables),
+    });
+  }
+  return messages;
+}
+
+export async function enqueueAll(messages: OutboxMessage[]): Promise<void> {
+  // Each message is independent; one failing to queue must not stop the rest
+  const results = await Promise.allSettled(messages.map(enqueueNotification));
+  results.forEach((result) => {
+    if (result.status === "rejected") {
+      console.error("Failed to queue notification:", result.reason);
+    }
+  });
+}
+
+/**
+ * Owner alert on every configured channel plus the customer's confirmation
+ * on their preferred channel. Returns the number of messages queued.
+ */
+export async function queueNewBookingNotifications(
+  bookingId: string,
+  booking: BookingData
+): Promise<number> {
+  const messages = buildOwnerMessages(
+    bookingId,
+    "new_booking",
+    "owner_new_booking",
+    (locale) => bookingTemplateVariables(bookingId, booking, locale)
+  );
+  const customerMessage = buildCustomerMessage(
+    bookingId,
+    booking,
+    "new_booking",
+    "customer_booking_received"
+  );
+  if (customerMessage) {
+    messages.push(customerMessage);
+  }
+
+  if (!messages.some((message) => message.recipient === "owner")) {
+    console.error(
+      "No notification channel configured. Provide email or WhatsApp credentials to enable owner alerts."
+    );
+  }
+
+  await enqueueAll(messages);
+  return messages.length;
+}
+
+function sameDate(a: unknown, b: unknown): boolean {
+  if (a instanceof Timestamp && b instanceof Timestamp) {
+    return a.isEqual(b);
+  }
+  return a === b;
+}
+
+/**
+ * Tell the customer when their booking is confirmed, cancelled or moved to
+ * another date. Outbox entries are keyed by the trigger's event ID, which
+ * stays the same when the trigger is retried, so a retry does not send the
+ * message twice.
+ */
+export const notifyCustomerOnBookingChange = onDocumentUpdated(
+  "bookings/{bookingId}",
+  async (event) => {
+    const startTime = Date.now();
+    const before = event.data?.before.data() as BookingData | undefined;
+    const after = event.data?.after.data() as BookingData | undefined;
+    if (!before || !after) return;
+
+    // Documents written back from a backup are not real changes
+    if (after.restoredFrom && after.restoredFrom !== before.restoredFrom) {
+      return;
+    }
+
+    const bookingId = event.params.bookingId;
+    let message: OutboxMessage | null = null;
+
+    if (after.status !== before.status && after.status === "confirmed") {
+      message = buildCustomerMessage(
+        bookingId,
+        after,
+        "confirmed",
+        "customer_booking_confirmed",
+        {},
+        event.id
+      );
+    } else if (after.status !== before.status && after.status === "cancelled") {
+      message = buildCustomerMessage(
+        bookingId,
+        after,
+        "cancelled",
+        "customer_booking_cancelled",
+        {},
+        event.id
+      );
+    } else if (
+      after.status !== "cancelled" &&
+      (!sameDate(after.bookingDate, before.bookingDate) ||
+        !sameDate(after.rentalStart, before.rentalStart) ||
+        !sameDate(after.rentalEnd, before.rentalEnd))
+    ) {
+      const locale = resolveLocale(after.locale);
+      message = buildCustomerMessage(
+        bookingId,
+        after,
+        "rescheduled",
+        "customer_booking_rescheduled",
+        { previousDate: formatBookingDates(before, locale) },
+        event.id
+      );
+    }
+
+    if (!message) return;
+
+    try {
+      await enqueueNotification(message);
+      logFunctionMetrics("notifyCustomerOnBookingChange", startTime);
+    } catch (error) {
+      logFunctionMetrics(
+        "notifyCustomerOnBookingChange",
+        startTime,
+        error as Error
+      );
+      throw error;
+    }
+  }
+);
+
+/**
+ * Retry notifications whose backoff has elapsed
+ */
+export const processNotificationOutbox = onSchedule(
+  "every 5 minutes",
+  async () => {
+    const startTime = Date.now();
+
+    try {
+      const due = await getFirestore()
+        .collection(NOTIFICATIONS_CONFIG.COLLECTION)
+        .where("status", "in", ["pending", "failed", "sending"])
+        .where("nextAttemptAt", "<=", Timestamp.now())
+        .orderBy("nextAttemptAt")
+        .limit(NOTIFICATIONS_CONFIG.BATCH_SIZE)
+        .get();
+
+      for (const doc of due.docs) {
+        await deliverNotification(doc.ref);
+      }
+      logFunctionMetrics("processNotificationOutbox", startTime);
+    } catch (error) {
+      logFunctionMetrics(
+        "processNotificationOutbox",
+        startTime,
+        error as Error
+      );
+    }
+  }
+);
+
+/**
+ * Requeue a dead or failed notification from the dashboard
+ */
+export const retryNotification = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated");
+  }
+  if (!hasPermission(request.auth.token, Permission.EDIT_BOOKINGS)) {
+    throw new HttpsError("permission-denied", "Insufficient permissions");
+  }
+
+  const { notificationId } = request.data || {};
+  if (!notificationId) {
+    throw new HttpsError("invalid-argument", "notificationId is required");
+  }
+
+  const ref = getFirestore()
+    .collection(NOTIFICATIONS_CONFIG.COLLECTION)
+    .doc(notificationId);
+
+  try {
+    const snapshot = await ref.get();
+    const entry = snapshot.data() as OutboxEntry | undefined;
+    if (!entry) {
+      throw new HttpsError("not-found", "Notification not found");
+    }
+    if (!["failed", "dead"].includes(entry.status)) {
+      throw new HttpsError(
+        "failed-precondition",
+        "Only failed notifications can be retried"
+      );
+    }
+
+    await ref.update({
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: Timestamp.now(),
+      requeuedBy: request.auth.uid,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    const status = await deliverNotification(ref);
+    return { success: status === "sent", status };
+  } catch (error) {
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    console.error("Error retrying notification:", error);
+    throw new HttpsError("internal", "Failed to retry notification");
+  }
+});
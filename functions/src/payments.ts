@@ -0,0 +1,152 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { getFirestore, FieldValue } from "firebase-admin/firestore";
+import { hasPermission, Permission } from "./admin";
+import { canTransition, statusChangeFields } from "./booking-lifecycle";
+import { changeContext } from "./booking-history";
+import { assertPaymentsEnabled } from "./system-config";
+import {
+  BookingData,
+  PaymentMethod,
+  PaymentStatus,
+  PaymentType,
+} from "./types";
+
+/**
+ * Manual Payment Ledger
+ * Payments are collected offline (cash, EFT, mobile wallet) and recorded by
+ * staff in bookings/{bookingId}/payments. The booking keeps a running total
+ * so the dashboard can show the balance due without reading the ledger.
+ */
+
+const PAYMENTS_CONFIG = {
+  PAYMENTS_SUBCOLLECTION: "payments",
+  METHODS: ["cash", "eft", "mobile_wallet", "card"] as PaymentMethod[],
+  TYPES: ["deposit", "payment", "refund"] as PaymentType[],
+  MAX_REFERENCE_LENGTH: 100,
+  MAX_NOTE_LENGTH: 500,
+};
+
+/**
+ * Payment status for the amount received against the quoted total
+ */
+export function paymentStatusFor(
+  amountPaid: number,
+  total: number | null
+): PaymentStatus {
+  if (amountPaid <= 0) return "unpaid";
+  if (total === null || amountPaid < total) return "partial";
+  return "paid";
+}
+
+/**
+ * Staff record a payment received for a booking
+ */
+export const recordPayment = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated");
+  }
+  if (!hasPermission(request.auth.token, Permission.PROCESS_PAYMENTS)) {
+    throw new HttpsError(
+      "permission-denied",
+      "Insufficient permissions to record payments"
+    );
+  }
+
+  const { bookingId, amount, method, type, reference, note } =
+    request.data || {};
+  if (!bookingId || typeof amount !== "number" || !(amount > 0)) {
+    throw new HttpsError(
+      "invalid-argument",
+      "bookingId and a positive amount are required"
+    );
+  }
+  if (!PAYMENTS_CONFIG.METHODS.includes(method)) {
+    throw new HttpsError("invalid-argument", "Unknown payment method");
+  }
+  const paymentType: PaymentType = type || "payment";
+  if (!PAYMENTS_CONFIG.TYPES.includes(paymentType)) {
+    throw new HttpsError("invalid-argument", "Unknown payment type");
+  }
+
+  await assertPaymentsEnabled();
+
+  const uid = request.auth.uid;
+  const db = getFirestore();
+  const bookingRef = db.collection("bookings").doc(bookingId);
+
+  try {
+    return await db.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(bookingRef);
+      if (!snapshot.exists) {
+        throw new HttpsError("not-found", "Booking not found");
+      }
+      const booking = snapshot.data() as BookingData;
+
+      const signedAmount = paymentType === "refund" ? -amount : amount;
+      const amountPaid = (booking.amountPaid || 0) + signedAmount;
+      if (amountPaid < 0) {
+        throw new HttpsError(
+          "failed-precondition",
+          "Refund exceeds the amount received"
+        );
+      }
+
+      const total = booking.quote ? booking.quote.total : null;
+      const paymentStatus = paymentStatusFor(amountPaid, total);
+
+      const paymentRef = bookingRef
+        .collection(PAYMENTS_CONFIG.PAYMENTS_SUBCOLLECTION)
+        .doc();
+      transaction.set(paymentRef, {
+        amount,
+        type: paymentType,
+        method,
+        reference: String(reference || "").slice(
+          0,
+          PAYMENTS_CONFIG.MAX_REFERENCE_LENGTH
+        ),
+        note: String(note || "").slice(0, PAYMENTS_CONFIG.MAX_NOTE_LENGTH),
+        currency: booking.quote?.currency || "MUR",
+        receivedBy: uid,
+        receivedAt: FieldValue.serverTimestamp(),
+      });
+
+      const updates: FirebaseFirestore.DocumentData = {
+        amountPaid,
+        paymentStatus,
+        paidAt:
+          paymentStatus === "paid"
+            ? booking.paidAt || FieldValue.serverTimestamp()
+            : FieldValue.delete(),
+        updatedAt: FieldValue.serverTimestamp(),
+        ...changeContext(uid, "dashboard"),
+      };
+
+      // A deposit on an unconfirmed booking moves it to deposit_paid
+      if (
+        paymentType === "deposit" &&
+        canTransition(booking.status, "deposit_paid")
+      ) {
+        Object.assign(
+          updates,
+          statusChangeFields("deposit_paid", uid, "dashboard")
+        );
+      }
+
+      transaction.update(bookingRef, updates);
+      return {
+        success: true,
+        paymentId: paymentRef.id,
+        amountPaid,
+        balanceDue: total !== null ? Math.max(total - amountPaid, 0) : null,
+        paymentStatus,
+      };
+    });
+  } catch (error) {
+    console.error("Error recording payment:", error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError("internal", "Failed to record payment");
+  }
+});
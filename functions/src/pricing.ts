@@ -0,0 +1,127 @@
+import { onDocumentCreated } from "firebase-functions/v2/firestore";
+import { getFirestore, FieldValue } from "firebase-admin/firestore";
+import { logFunctionMetrics } from "./monitoring";
+import { BookingData, PriceQuote } from "./types";
+import { normalizeDate } from "./utils";
+import { changeContext } from "./booking-history";
+
+/**
+ * Booking Pricing
+ * Prices live in the Firestore "services" catalog, which the public site also
+ * reads. The per-day rule for rentals is mirrored in src/app/utils/pricing.ts
+ * and the two must stay in sync.
+ */
+
+export const PRICING_CONFIG = {
+  SERVICES_COLLECTION: "services",
+  CURRENCY: "MUR",
+  // Services charged per day of the rental period rather than per booking
+  PER_DAY_SERVICES: ["Car Rental"],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Load current catalog prices keyed by service name
+ */
+export async function loadServicePrices(): Promise<Record<string, number>> {
+  const snapshot = await getFirestore()
+    .collection(PRICING_CONFIG.SERVICES_COLLECTION)
+    .get();
+
+  const prices: Record<string, number> = {};
+  snapshot.docs.forEach((doc) => {
+    const data = doc.data();
+    if (data.name && typeof data.price === "number") {
+      prices[data.name] = data.price;
+    }
+  });
+  return prices;
+}
+
+/**
+ * Number of rental days, counting both the start and end dates
+ */
+export function countRentalDays(start: Date, end: Date): number {
+  const days = Math.floor((end.getTime() - start.getTime()) / DAY_MS) + 1;
+  return days > 0 ? days : 0;
+}
+
+/**
+ * Build a price quote for a booking from the given unit price
+ */
+export function quoteBooking(
+  booking: Pick<BookingData, "serviceName" | "rentalStart" | "rentalEnd">,
+  unitPrice: number
+): PriceQuote {
+  let units = 1;
+  if (
+    PRICING_CONFIG.PER_DAY_SERVICES.includes(booking.serviceName) &&
+    booking.rentalStart &&
+    booking.rentalEnd
+  ) {
+    units = countRentalDays(
+      normalizeDate(booking.rentalStart),
+      normalizeDate(booking.rentalEnd)
+    );
+  }
+
+  return {
+    unitPrice,
+    units,
+    total: unitPrice * units,
+    currency: PRICING_CONFIG.CURRENCY,
+  };
+}
+
+/**
+ * Revenue value of a booking: the quote snapshot taken at creation time.
+ * Bookings without one count as nothing rather than being priced from the
+ * catalog, so the amount cannot change between adding and removing it.
+ */
+export function bookingRevenue(booking: BookingData): number {
+  return booking.quote ? booking.quote.total : 0;
+}
+
+/**
+ * Triggered when a new booking is created.
+ * Stores a snapshot of the quoted price so later catalog changes do not
+ * rewrite historical revenue.
+ */
+export const snapshotQuoteOnBooking = onDocumentCreated(
+  "bookings/{bookingId}",
+  async (event) => {
+    const startTime = Date.now();
+    const bookingId = event.params.bookingId;
+    const bookingData = event.data?.data() as BookingData | undefined;
+
+    // Restored bookings keep the quote from the backup
+    if (!bookingData || bookingData.restoredFrom) {
+      return;
+    }
+
+    try {
+      const prices = await loadServicePrices();
+      const price = prices[bookingData.serviceName];
+      if (price === undefined) {
+        console.warn(
+          `No catalog price for "${bookingData.serviceName}" on booking ${bookingId}`
+        );
+      }
+
+      // Always overwrite: any quote sent by the client is not trusted
+      await event.data?.ref.update({
+        quote:
+          price !== undefined
+            ? quoteBooking(bookingData, price)
+            : FieldValue.delete(),
+        updatedAt: FieldValue.serverTimestamp(),
+        ...changeContext(null, "function"),
+      });
+      logFunctionMetrics("snapshotQuoteOnBooking", startTime);
+    } catch (error) {
+      console.error("Failed to snapshot quote for", bookingId, error);
+      logFunctionMetrics("snapshotQuoteOnBooking", startTime, error as Error);
+    }
+  }
+);
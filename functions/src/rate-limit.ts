@@ -0,0 +1,84 @@
+import { createHash } from "crypto";
+import { getFirestore, Timestamp } from "firebase-admin/firestore";
+import { HttpsError } from "firebase-functions/v2/https";
+
+/**
+ * Fixed-window rate limiting backed by Firestore. Keys are hashed so phone
+ * numbers and IP addresses are not stored in clear.
+ */
+
+const RATE_LIMIT_COLLECTION = "rate_limits";
+
+export interface RateLimit {
+  // Maximum number of calls allowed per window
+  limit: number;
+  windowMs: number;
+}
+
+function rateLimitDocId(scope: string, key: string): string {
+  const hash = createHash("sha256").update(key).digest("hex").slice(0, 32);
+  return `${scope}_${hash}`;
+}
+
+/**
+ * Count one call against the limit for scope/key and throw
+ * resource-exhausted once the limit for the current window is reached
+ */
+export async function consumeRateLimit(
+  scope: string,
+  key: string,
+  { limit, windowMs }: RateLimit
+): Promise<void> {
+  const db = getFirestore();
+  const ref = db
+    .collection(RATE_LIMIT_COLLECTION)
+    .doc(rateLimitDocId(scope, key));
+
+  const allowed = await db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    const now = Date.now();
+    const data = snapshot.data();
+    const windowStart: number = data?.windowStart?.toMillis?.() || 0;
+
+    if (!data || now - windowStart >= windowMs) {
+      transaction.set(ref, {
+        scope,
+        count: 1,
+        windowStart: Timestamp.fromMillis(now),
+        // Lets a Firestore TTL policy clean up expired windows
+        expiresAt: Timestamp.fromMillis(now + windowMs),
+      });
+      return true;
+    }
+
+    if (data.count >= limit) {
+      return false;
+    }
+    transaction.update(ref, { count: data.count + 1 });
+    return true;
+  });
+
+  if (!allowed) {
+    throw new HttpsError(
+      "resource-exhausted",
+      "Too many requests. Please try again later or contact us directly."
+    );
+  }
+}
+
+/**
+ * Client IP for a callable or HTTP request. The Google front end appends the
+ * address it saw to X-Forwarded-For, so only the last entry can be trusted;
+ * anything before it is whatever the client chose to send.
+ */
+export function clientIp(rawRequest?: {
+  ip?: string;
+  headers?: Record<string, string | string[] | undefined>;
+}): string {
+  const forwarded = rawRequest?.headers?.["x-forwarded-for"];
+  const header = Array.isArray(forwarded)
+    ? forwarded[forwarded.length - 1]
+    : forwarded;
+  const lastHop = header?.split(",").pop()?.trim();
+  return lastHop || rawRequest?.ip || "unknown";
+}
@@ -0,0 +1,328 @@
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { getFirestore, FieldValue, Timestamp } from "firebase-admin/firestore";
+import { logFunctionMetrics } from "./monitoring";
+import { changeContext } from "./booking-history";
+import {
+  buildCustomerMessage,
+  buildOwnerMessages,
+  enqueueAll,
+  enqueueNotification,
+  NotificationEvent,
+} from "./notifications";
+import {
+  formatDateForLocale,
+  resolveLocale,
+  TEMPLATE_CONFIG,
+} from "./notification-templates";
+import {
+  BookingData,
+  BookingStatus,
+  FirestoreDate,
+  ReminderKind,
+} from "./types";
+import {
+  LOCAL_UTC_OFFSET_HOURS,
+  localDayKey,
+  normalizeDate,
+  toDayKey,
+} from "./utils";
+
+/**
+ * Booking reminders
+ *
+ * sendBookingReminders reminds customers the day before and shortly before
+ * a tour or rental pickup, and rental customers on the day their car is due
+ * back. Each reminder is recorded on the booking under reminders.<kind>
+ * with the time it was sent for, so it goes once, and again only if the
+ * booking moves. sendDailyDigest gives the owner the day's jobs each
+ * morning.
+ */
+
+export const REMINDER_CONFIG = {
+  BOOKINGS_COLLECTION: "bookings",
+  UTC_OFFSET_HOURS: LOCAL_UTC_OFFSET_HOURS,
+  // Assumed when staff have not set a pickup time
+  DEFAULT_START_TIME: "09:00",
+  DEFAULT_RETURN_TIME: "18:00",
+  // Hours before the start / return at which each reminder goes out
+  DAY_BEFORE_HOURS: 24,
+  SOON_HOURS: 2,
+  RETURN_HOURS: 8,
+  // Bookings that are going ahead
+  ACTIVE_STATUSES: ["deposit_paid", "confirmed"] as BookingStatus[],
+  // Rentals that may be out on the road
+  RETURN_STATUSES: ["confirmed", "in_progress"] as BookingStatus[],
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+interface DueReminder {
+  kind: ReminderKind;
+  // The start or return time the reminder is about
+  at: Date;
+}
+
+const REMINDERS: Record<
+  ReminderKind,
+  { event: NotificationEvent; template: string }
+> = {
+  day_before: {
+    event: "reminder_day_before",
+    template: "customer_reminder_day_before",
+  },
+  soon: { event: "reminder_soon", template: "customer_reminder_soon" },
+  return: { event: "return_reminder", template: "customer_return_reminder" },
+};
+
+/**
+ * A booking day (stored as UTC midnight) at a Mauritius wall-clock time
+ */
+export function atLocalTime(day: FirestoreDate, time: string): Date {
+  const [hours, minutes] = time.split(":").map(Number);
+  return new Date(
+    Date.parse(`${toDayKey(normalizeDate(day))}T00:00:00Z`) +
+      (hours - REMINDER_CONFIG.UTC_OFFSET_HOURS) * HOUR_MS +
+      minutes * 60 * 1000
+  );
+}
+
+export function bookingStartsAt(booking: BookingData): Date | null {
+  const day = booking.rentalStart || booking.bookingDate;
+  if (!day) {
+    return null;
+  }
+  return atLocalTime(
+    day,
+    booking.pickup?.time || REMINDER_CONFIG.DEFAULT_START_TIME
+  );
+}
+
+function alreadySent(
+  booking: BookingData,
+  kind: ReminderKind,
+  at: Date
+): boolean {
+  const sentFor = booking.reminders?.[kind]?.for;
+  return !!sentFor && normalizeDate(sentFor).getTime() === at.getTime();
+}
+
+/**
+ * Reminders due for a booking right now. Only the latest start reminder is
+ * sent, so a booking made at short notice does not get both.
+ */
+function dueReminders(booking: BookingData, now: number): DueReminder[] {
+  const due: DueReminder[] = [];
+
+  const start = bookingStartsAt(booking);
+  if (
+    start &&
+    start.getTime() > now &&
+    REMINDER_CONFIG.ACTIVE_STATUSES.includes(booking.status)
+  ) {
+    const untilStart = start.getTime() - now;
+    if (untilStart <= REMINDER_CONFIG.SOON_HOURS * HOUR_MS) {
+      if (!alreadySent(booking, "soon", start)) {
+        due.push({ kind: "soon", at: start });
+      }
+    } else if (
+      untilStart <= REMINDER_CONFIG.DAY_BEFORE_HOURS * HOUR_MS &&
+      !alreadySent(booking, "day_before", start)
+    ) {
+      due.push({ kind: "day_before", at: start });
+    }
+  }
+
+  if (
+    booking.rentalEnd &&
+    REMINDER_CONFIG.RETURN_STATUSES.includes(booking.status)
+  ) {
+    const returnAt = atLocalTime(
+      booking.rentalEnd,
+      REMINDER_CONFIG.DEFAULT_RETURN_TIME
+    );
+    const untilReturn = returnAt.getTime() - now;
+    if (
+      untilReturn > 0 &&
+      untilReturn <= REMINDER_CONFIG.RETURN_HOURS * HOUR_MS &&
+      // A same-day rental already had its start reminders
+      (!start || returnAt.getTime() - start.getTime() > DAY_MS) &&
+      !alreadySent(booking, "return", returnAt)
+    ) {
+      due.push({ kind: "return", at: returnAt });
+    }
+  }
+
+  return due;
+}
+
+async function sendReminder(
+  ref: FirebaseFirestore.DocumentReference,
+  booking: BookingData,
+  reminder: DueReminder
+): Promise<boolean> {
+  const { event, template } = REMINDERS[reminder.kind];
+  const locale = resolveLocale(booking.locale);
+  const message = buildCustomerMessage(
+    ref.id,
+    booking,
+    event,
+    template,
+    reminder.kind === "return"
+      ? {
+          returnDate: formatDateForLocale(reminder.at, locale),
+          returnTime: REMINDER_CONFIG.DEFAULT_RETURN_TIME,
+        }
+      : {},
+    // Keyed by the time it is about, so the outbox also refuses a repeat
+    String(reminder.at.getTime())
+  );
+  if (!message) {
+    return false;
+  }
+
+  await enqueueNotification(message);
+  await ref.update({
+    [`reminders.${reminder.kind}`]: {
+      for: Timestamp.fromDate(reminder.at),
+      sentAt: FieldValue.serverTimestamp(),
+    },
+    ...changeContext(null, "function"),
+  });
+  return true;
+}
+
+/**
+ * Bookings whose tour, pickup or return falls in the window around now
+ */
+async function loadUpcomingBookings(
+  from: Date,
+  to: Date
+): Promise<FirebaseFirestore.QueryDocumentSnapshot[]> {
+  const bookings = getFirestore().collection(
+    REMINDER_CONFIG.BOOKINGS_COLLECTION
+  );
+  const snapshots = await Promise.all(
+    ["bookingDate", "rentalStart", "rentalEnd"].map((field) =>
+      bookings.where(field, ">=", from).where(field, "<=", to).get()
+    )
+  );
+
+  const byId = new Map<string, FirebaseFirestore.QueryDocumentSnapshot>();
+  snapshots.forEach((snapshot) =>
+    snapshot.docs.forEach((doc) => byId.set(doc.id, doc))
+  );
+  return [...byId.values()];
+}
+
+/**
+ * Send the customer reminders that have come due
+ */
+export const sendBookingReminders = onSchedule("every 15 minutes", async () => {
+  const startTime = Date.now();
+
+  try {
+    const now = Date.now();
+    // Booking days are stored as UTC midnight, so look a day either side
+    const docs = await loadUpcomingBookings(
+      new Date(now - DAY_MS),
+      new Date(now + 2 * DAY_MS)
+    );
+
+    let sent = 0;
+    for (const doc of docs) {
+      const booking = doc.data() as BookingData;
+      for (const reminder of dueReminders(booking, now)) {
+        try {
+          if (await sendReminder(doc.ref, booking, reminder)) {
+            sent++;
+          }
+        } catch (error) {
+          console.error(
+            `Failed to send ${reminder.kind} reminder for booking ${doc.id}:`,
+            error
+          );
+        }
+      }
+    }
+
+    console.log(`Sent ${sent} booking reminders`);
+    logFunctionMetrics("sendBookingReminders", startTime);
+  } catch (error) {
+    logFunctionMetrics("sendBookingReminders", startTime, error as Error);
+  }
+});
+
+function digestLine(booking: BookingData, time: string | null): string {
+  return (
+    `${time || "--:--"} ${booking.serviceName} - ${booking.customerName} ` +
+    `(${booking.customerPhone})` +
+    (booking.pickup?.location ? ` - ${booking.pickup.location}` : "")
+  );
+}
+
+/**
+ * The owner's summary of today's tours, rental pickups and rental returns
+ */
+export const sendDailyDigest = onSchedule(
+  { schedule: "every day 06:30", timeZone: TEMPLATE_CONFIG.TIMEZONE },
+  async () => {
+    const startTime = Date.now();
+
+    try {
+      const today = localDayKey();
+      const day = new Date(today);
+      const bookings = getFirestore().collection(
+        REMINDER_CONFIG.BOOKINGS_COLLECTION
+      );
+      const [tours, pickups, returns] = await Promise.all(
+        ["bookingDate", "rentalStart", "rentalEnd"].map((field) =>
+          bookings.where(field, "==", day).get()
+        )
+      );
+
+      const startLines = [...tours.docs, ...pickups.docs]
+        .map((doc) => doc.data() as BookingData)
+        .filter((booking) =>
+          REMINDER_CONFIG.ACTIVE_STATUSES.includes(booking.status)
+        )
+        .map((booking) => digestLine(booking, booking.pickup?.time || null))
+        .sort();
+      const returnLines = returns.docs
+        .map((doc) => doc.data() as BookingData)
+        .filter((booking) =>
+          REMINDER_CONFIG.RETURN_STATUSES.includes(booking.status)
+        )
+        .map((booking) =>
+          digestLine(booking, REMINDER_CONFIG.DEFAULT_RETURN_TIME)
+        )
+        .sort();
+
+      const jobCount = startLines.length + returnLines.length;
+      if (jobCount === 0) {
+        console.log(`No jobs on ${today}, digest not sent`);
+        logFunctionMetrics("sendDailyDigest", startTime);
+        return;
+      }
+
+      // Keyed by day, so a retried run does not send the digest twice
+      await enqueueAll(
+        buildOwnerMessages(
+          null,
+          "daily_digest",
+          "owner_daily_digest",
+          (locale) => ({
+            date: formatDateForLocale(day, locale),
+            jobCount: String(jobCount),
+            starts: startLines.join("\n"),
+            returns: returnLines.join("\n"),
+          }),
+          today
+        )
+      );
+      logFunctionMetrics("sendDailyDigest", startTime);
+    } catch (error) {
+      logFunctionMetrics("sendDailyDigest", startTime, error as Error);
+    }
+  }
+);
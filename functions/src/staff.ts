@@ -0,0 +1,346 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { DecodedIdToken } from "firebase-admin/auth";
+import { getFirestore, FieldValue } from "firebase-admin/firestore";
+import { hasPermission, Permission } from "./admin";
+import { BookingData, BookingStatus, StaffData } from "./types";
+import { localDayKey, normalizeDate, toDayKey } from "./utils";
+import { RELEASED_STATUSES, transitionBooking } from "./booking-lifecycle";
+import { changeContext } from "./booking-history";
+import { bookingStartsAt } from "./reminders";
+
+/**
+ * Drivers and guides
+ *
+ * Staff in the staff collection are assigned to tours and transfers, with
+ * a check that nobody is booked for two jobs too close together. Staff who
+ * sign in with the driver role see only their own jobs, linked through the
+ * verified email on their staff record, and mark them started and completed.
+ */
+
+const STAFF_CONFIG = {
+  STAFF_COLLECTION: "staff",
+  BOOKINGS_COLLECTION: "bookings",
+  // Rentals are self-drive, so they get a vehicle rather than a driver
+  RENTAL_SERVICES: ["Car Rental"],
+  // Jobs for the same person starting closer together than this clash.
+  // Jobs without a pickup time count as starting at the default start time.
+  MIN_HOURS_BETWEEN_JOBS: 3,
+  // Jobs listed for a driver, from today onwards
+  MAX_JOBS: 50,
+  // The only status changes a driver can make
+  DRIVER_STATUSES: ["in_progress", "completed"] as BookingStatus[],
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Jobs assigned to a staff member on the same day as the booking, other
+ * than the booking itself and those cancelled or no-shows
+ */
+async function sameDayJobs(
+  transaction: FirebaseFirestore.Transaction,
+  staffId: string,
+  bookingId: string,
+  bookingDate: Date | FirebaseFirestore.Timestamp
+): Promise<BookingData[]> {
+  const snapshot = await transaction.get(
+    getFirestore()
+      .collection(STAFF_CONFIG.BOOKINGS_COLLECTION)
+      .where("staffId", "==", staffId)
+      .where("bookingDate", "==", bookingDate)
+  );
+  return snapshot.docs
+    .filter((doc) => doc.id !== bookingId)
+    .map((doc) => doc.data() as BookingData)
+    .filter((job) => !RELEASED_STATUSES.includes(job.status));
+}
+
+/**
+ * Another job of the staff member starting too close to the booking, if
+ * any. Also used when a booking assigned to someone moves to a new date.
+ */
+export async function findStaffClash(
+  transaction: FirebaseFirestore.Transaction,
+  staffId: string,
+  bookingId: string,
+  booking: BookingData
+): Promise<BookingData | undefined> {
+  const startsAt = bookingStartsAt(booking);
+  if (!startsAt || !booking.bookingDate) {
+    return undefined;
+  }
+  const jobs = await sameDayJobs(
+    transaction,
+    staffId,
+    bookingId,
+    booking.bookingDate as Date | FirebaseFirestore.Timestamp
+  );
+  return jobs.find((job) => {
+    const jobStartsAt = bookingStartsAt(job);
+    return (
+      jobStartsAt &&
+      Math.abs(jobStartsAt.getTime() - startsAt.getTime()) <
+        STAFF_CONFIG.MIN_HOURS_BETWEEN_JOBS * HOUR_MS
+    );
+  });
+}
+
+/**
+ * Error message for a clash found by findStaffClash
+ */
+export function describeStaffClash(
+  staffName: string,
+  clash: BookingData
+): string {
+  return `${staffName} already has ${clash.serviceName} for ${
+    clash.customerName
+  } on ${toDayKey(normalizeDate(clash.bookingDate))}${
+    clash.pickup?.time ? ` at ${clash.pickup.time}` : ""
+  }`;
+}
+
+/**
+ * The active staff record of the signed-in driver, if any. A record is
+ * claimed by the first account with a verified email matching it, and is
+ * matched on that account's uid from then on; changing the email on the
+ * record releases it.
+ */
+async function staffForUser(
+  token: DecodedIdToken
+): Promise<FirebaseFirestore.QueryDocumentSnapshot | null> {
+  const email = token.email?.toLowerCase();
+  if (!email) {
+    return null;
+  }
+  const staff = getFirestore()
+    .collection(STAFF_CONFIG.STAFF_COLLECTION)
+    .where("active", "==", true);
+
+  const linked = await staff.where("uid", "==", token.uid).limit(1).get();
+  if (!linked.empty && linked.docs[0].data().email === email) {
+    return linked.docs[0];
+  }
+
+  // Anyone can set an unverified email on their own account
+  if (!token.email_verified) {
+    return null;
+  }
+  const byEmail = await staff.where("email", "==", email).limit(1).get();
+  if (byEmail.empty) {
+    return null;
+  }
+  const staffDoc = byEmail.docs[0];
+  if (staffDoc.data().uid !== token.uid) {
+    await staffDoc.ref.update({
+      uid: token.uid,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+  }
+  return staffDoc;
+}
+
+/**
+ * Admin assigns (or unassigns) a driver or guide for a tour or transfer.
+ * Rejects assignments that clash with another of their jobs that day.
+ */
+export const assignStaff = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated");
+  }
+
+  if (!hasPermission(request.auth.token, Permission.EDIT_BOOKINGS)) {
+    throw new HttpsError(
+      "permission-denied",
+      "Insufficient permissions to assign staff"
+    );
+  }
+
+  const { bookingId, staffId } = request.data || {};
+  if (!bookingId) {
+    throw new HttpsError("invalid-argument", "bookingId is required");
+  }
+
+  const db = getFirestore();
+  const uid = request.auth.uid;
+
+  try {
+    return await db.runTransaction(async (transaction) => {
+      const bookingRef = db
+        .collection(STAFF_CONFIG.BOOKINGS_COLLECTION)
+        .doc(bookingId);
+      const bookingDoc = await transaction.get(bookingRef);
+      if (!bookingDoc.exists) {
+        throw new HttpsError("not-found", "Booking not found");
+      }
+
+      const booking = bookingDoc.data() as BookingData;
+      if (
+        STAFF_CONFIG.RENTAL_SERVICES.includes(booking.serviceName) ||
+        !booking.bookingDate
+      ) {
+        throw new HttpsError(
+          "failed-precondition",
+          "Drivers and guides can only be assigned to tours and transfers"
+        );
+      }
+
+      if (!staffId) {
+        transaction.update(bookingRef, {
+          staffId: null,
+          staffName: null,
+          updatedAt: FieldValue.serverTimestamp(),
+          ...changeContext(uid, "dashboard"),
+        });
+        return { success: true, message: "Staff unassigned" };
+      }
+
+      const staffDoc = await transaction.get(
+        db.collection(STAFF_CONFIG.STAFF_COLLECTION).doc(staffId)
+      );
+      const staff = staffDoc.data() as StaffData | undefined;
+      if (!staff || !staff.active) {
+        throw new HttpsError("not-found", "Staff member not found or inactive");
+      }
+
+      const clash = await findStaffClash(
+        transaction,
+        staffId,
+        bookingId,
+        booking
+      );
+      if (clash) {
+        throw new HttpsError(
+          "already-exists",
+          describeStaffClash(staff.name, clash)
+        );
+      }
+
+      transaction.update(bookingRef, {
+        staffId,
+        staffName: staff.name,
+        updatedAt: FieldValue.serverTimestamp(),
+        ...changeContext(uid, "dashboard"),
+      });
+
+      return { success: true, message: `${staff.name} assigned` };
+    });
+  } catch (error) {
+    console.error("Error assigning staff:", error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError("internal", "Failed to assign staff");
+  }
+});
+
+/**
+ * The signed-in driver's jobs from today onwards, plus any still in
+ * progress from earlier days, with what they need to reach the customer
+ */
+export const getMyJobs = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated");
+  }
+  if (!hasPermission(request.auth.token, Permission.VIEW_ASSIGNED_JOBS)) {
+    throw new HttpsError("permission-denied", "Insufficient permissions");
+  }
+
+  try {
+    const staffDoc = await staffForUser(request.auth.token);
+    if (!staffDoc) {
+      return { staff: null, jobs: [] };
+    }
+
+    const bookings = getFirestore().collection(
+      STAFF_CONFIG.BOOKINGS_COLLECTION
+    );
+    const [upcoming, inProgress] = await Promise.all([
+      bookings
+        .where("staffId", "==", staffDoc.id)
+        .where("bookingDate", ">=", new Date(`${localDayKey()}T00:00:00Z`))
+        .orderBy("bookingDate", "asc")
+        .limit(STAFF_CONFIG.MAX_JOBS)
+        .get(),
+      bookings
+        .where("staffId", "==", staffDoc.id)
+        .where("status", "==", "in_progress")
+        .get(),
+    ]);
+
+    const jobs = new Map<string, BookingData>();
+    [...inProgress.docs, ...upcoming.docs].forEach((doc) => {
+      jobs.set(doc.id, doc.data() as BookingData);
+    });
+
+    const staff = staffDoc.data() as StaffData;
+    return {
+      staff: { id: staffDoc.id, name: staff.name, kind: staff.kind },
+      jobs: [...jobs.entries()]
+        .filter(([, job]) => !RELEASED_STATUSES.includes(job.status))
+        .map(([id, job]) => ({
+          id,
+          serviceName: job.serviceName,
+          date: toDayKey(normalizeDate(job.bookingDate)),
+          pickup: job.pickup || null,
+          customerName: job.customerName,
+          customerPhone: job.customerPhone,
+          customerEmail: job.customerEmail || null,
+          notes: job.notes || null,
+          status: job.status,
+        }))
+        .sort(
+          (a, b) =>
+            a.date.localeCompare(b.date) ||
+            (a.pickup?.time || "").localeCompare(b.pickup?.time || "")
+        ),
+    };
+  } catch (error) {
+    console.error("Error getting assigned jobs:", error);
+    throw new HttpsError("internal", "Failed to load jobs");
+  }
+});
+
+/**
+ * A driver marks one of their jobs as started or completed
+ */
+export const updateJobStatus = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated");
+  }
+  if (!hasPermission(request.auth.token, Permission.UPDATE_ASSIGNED_JOBS)) {
+    throw new HttpsError("permission-denied", "Insufficient permissions");
+  }
+
+  const { bookingId, status } = request.data || {};
+  if (!bookingId || !STAFF_CONFIG.DRIVER_STATUSES.includes(status)) {
+    throw new HttpsError(
+      "invalid-argument",
+      "bookingId and a status of in_progress or completed are required"
+    );
+  }
+
+  try {
+    const staffDoc = await staffForUser(request.auth.token);
+    const bookingRef = getFirestore()
+      .collection(STAFF_CONFIG.BOOKINGS_COLLECTION)
+      .doc(bookingId);
+    const booking = (await bookingRef.get()).data() as BookingData | undefined;
+    if (!staffDoc || !booking || booking.staffId !== staffDoc.id) {
+      throw new HttpsError("not-found", "Job not found");
+    }
+
+    const result = await transitionBooking(
+      bookingRef,
+      status,
+      request.auth.uid,
+      "dashboard"
+    );
+    return { success: true, ...result };
+  } catch (error) {
+    console.error("Error updating job status:", error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError("internal", "Failed to update job status");
+  }
+});
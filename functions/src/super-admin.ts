@@ -1,7 +1,10 @@
-import { onCall } from "firebase-functions/v2/https";
+import { onCall, CallableRequest } from "firebase-functions/v2/https";
 import { getAuth } from "firebase-admin/auth";
 import { getFirestore, FieldValue } from "firebase-admin/firestore";
 import { HttpsError } from "firebase-functions/v2/https";
+import { AdminRole, ROLE_PERMISSIONS } from "./admin";
+import { appendAuditEntry } from "./audit-chain";
+import { isEmailConfigured, sendEmail } from "./email";
 
 /**
  * Super Admin Enforcement System
@@ -52,44 +55,20 @@ async function logSuperAdminAction(
   userAgent?: string
 ): Promise<void> {
   try {
-    await getFirestore()
-      .collection(SUPER_ADMIN_CONFIG.AUDIT_COLLECTION)
-      .add({
-        action,
-        performedBy,
-        details,
-        timestamp: FieldValue.serverTimestamp(),
-        ipAddress: ipAddress || "unknown",
-        userAgent: userAgent || "unknown",
-        sessionId: details.sessionId || "unknown",
-        // Add cryptographic hash for integrity verification
-        integrityHash: await generateIntegrityHash(
-          action,
-          performedBy,
-          details
-        ),
-      });
+    await appendAuditEntry(SUPER_ADMIN_CONFIG.AUDIT_COLLECTION, {
+      action,
+      performedBy,
+      details,
+      ipAddress: ipAddress || "unknown",
+      userAgent: userAgent || "unknown",
+      sessionId: details.sessionId || "unknown",
+    });
   } catch (error) {
     console.error("Error logging Super Admin action:", error);
     throw new HttpsError("internal", "Failed to log Super Admin action");
   }
 }
 
-/**
- * Generate integrity hash for audit log verification
- */
-async function generateIntegrityHash(
-  action: string,
-  performedBy: string,
-  details: any
-): Promise<string> {
-  const crypto = require("crypto");
-  const data = `${action}:${performedBy}:${JSON.stringify(
-    details
-  )}:${Date.now()}`;
-  return crypto.createHash("sha256").update(data).digest("hex");
-}
-
 /**
  * Request Super Admin approval for role assignment
  */
@@ -100,83 +79,226 @@ export const requestRoleAssignment = onCall(async (request) => {
 
   const { targetUid, role, businessJustification, managerApproval } =
     request.data;
-  const requesterUid = request.auth.uid;
 
   // Validate input
   if (!targetUid || !role || !businessJustification) {
     throw new HttpsError("invalid-argument", "Missing required fields");
   }
 
-  // Check if requester has permission to request role assignments
-  const requesterRecord = await getAuth().getUser(requesterUid);
-  const requesterClaims = requesterRecord.customClaims || {};
+  await assertCanRequestRoles(request.auth.uid, role);
 
-  if (
-    !requesterClaims.admin ||
-    !["super_admin", "admin"].includes(requesterClaims.role)
-  ) {
+  try {
+    const targetRecord = await getAuth().getUser(targetUid);
+    const requestId = await createRoleAssignmentRequest(request, {
+      targetUid,
+      targetEmail: targetRecord.email || null,
+      role,
+      businessJustification,
+      managerApproval: managerApproval || false,
+    });
+
+    return {
+      success: true,
+      requestId,
+      message: "Role assignment request submitted for Super Admin approval",
+    };
+  } catch (error) {
+    console.error("Error requesting role assignment:", error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError("internal", "Failed to request role assignment");
+  }
+});
+
+/**
+ * Invite a new staff member by email. Creates their account, emails them a
+ * link to set their password and files a role request for Super Admin
+ * approval. Existing accounts are refused: their roles are requested from
+ * the user list, and no password link is ever issued for them.
+ */
+export const inviteAdminUser = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated");
+  }
+
+  const { email, displayName, role, businessJustification } =
+    request.data || {};
+  const normalizedEmail =
+    typeof email === "string" ? email.trim().toLowerCase() : "";
+
+  if (!normalizedEmail || !role || !businessJustification) {
+    throw new HttpsError("invalid-argument", "Missing required fields");
+  }
+
+  await assertCanRequestRoles(request.auth.uid, role);
+  if (!isEmailConfigured()) {
     throw new HttpsError(
-      "permission-denied",
-      "Insufficient permissions to request role assignments"
+      "failed-precondition",
+      "Email is not configured, so the invitation cannot be sent"
     );
   }
 
   try {
-    // Create pending role assignment request
-    const requestId = await getFirestore()
-      .collection(SUPER_ADMIN_CONFIG.ROLE_ASSIGNMENT_COLLECTION)
-      .add({
-        targetUid,
-        role,
-        businessJustification,
-        managerApproval: managerApproval || false,
-        requestedBy: requesterUid,
-        status: "pending_super_admin_approval",
-        createdAt: FieldValue.serverTimestamp(),
-        // Add approval workflow
-        approvalWorkflow: {
-          requiresSuperAdminApproval: true,
-          approvedBy: null,
-          approvedAt: null,
-          rejectionReason: null,
-        },
-        // Add security context
-        securityContext: {
-          ipAddress: request.rawRequest?.ip || "unknown",
-          userAgent: request.rawRequest?.headers?.["user-agent"] || "unknown",
-          sessionId: request.auth.token || "unknown",
-        },
-      });
+    try {
+      await getAuth().getUserByEmail(normalizedEmail);
+      throw new HttpsError(
+        "already-exists",
+        "An account with this email already exists. Request a role for it from the user list instead."
+      );
+    } catch (error) {
+      if ((error as { code?: string }).code !== "auth/user-not-found") {
+        throw error;
+      }
+    }
 
-    // Log the request
-    await logSuperAdminAction(
-      "role_assignment_requested",
-      requesterUid,
-      {
-        requestId: requestId.id,
-        targetUid,
-        role,
-        businessJustification,
-        managerApproval,
-      },
-      request.rawRequest?.ip,
-      request.rawRequest?.headers?.["user-agent"]
-    );
+    const targetRecord = await getAuth().createUser({
+      email: normalizedEmail,
+      displayName: displayName || undefined,
+    });
+
+    // The link goes only to the invitee's inbox, never back to the caller
+    try {
+      const passwordSetupLink = await getAuth().generatePasswordResetLink(
+        normalizedEmail
+      );
+      await sendEmail({
+        to: normalizedEmail,
+        subject: "You have been invited to Shanal Cars admin",
+        text:
+          `You have been invited to the Shanal Cars admin dashboard. ` +
+          `Set your password here to sign in:\n\n${passwordSetupLink}\n\n` +
+          `Your access applies once a Super Admin approves it.`,
+      });
+    } catch (error) {
+      // Leave no account behind that nobody can sign in to
+      await getAuth().deleteUser(targetRecord.uid);
+      console.error("Error sending admin invitation:", error);
+      throw new HttpsError(
+        "unavailable",
+        "The invitation email could not be sent. Please try again."
+      );
+    }
 
-    // Notify Super Admins (in a real implementation, this would send notifications)
-    await notifySuperAdminsOfPendingRequest(requestId.id, targetUid, role);
+    const requestId = await createRoleAssignmentRequest(request, {
+      targetUid: targetRecord.uid,
+      targetEmail: normalizedEmail,
+      role,
+      businessJustification,
+      managerApproval: false,
+    });
 
     return {
       success: true,
-      requestId: requestId.id,
-      message: "Role assignment request submitted for Super Admin approval",
+      requestId,
+      targetUid: targetRecord.uid,
+      message: "Invitation emailed and role request submitted for approval",
     };
   } catch (error) {
-    console.error("Error requesting role assignment:", error);
-    throw new HttpsError("internal", "Failed to request role assignment");
+    console.error("Error inviting admin user:", error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError("internal", "Failed to invite admin user");
   }
 });
 
+/**
+ * Only admins and Super Admins may request role assignments, and only Super
+ * Admins may request the Super Admin role
+ */
+async function assertCanRequestRoles(
+  requesterUid: string,
+  role: string
+): Promise<void> {
+  if (!Object.values(AdminRole).includes(role as AdminRole)) {
+    throw new HttpsError("invalid-argument", "Invalid role specified");
+  }
+
+  const requesterRecord = await getAuth().getUser(requesterUid);
+  const requesterClaims = requesterRecord.customClaims || {};
+
+  if (
+    !requesterClaims.admin ||
+    !["super_admin", "admin"].includes(requesterClaims.role)
+  ) {
+    throw new HttpsError(
+      "permission-denied",
+      "Insufficient permissions to request role assignments"
+    );
+  }
+  if (
+    role === AdminRole.SUPER_ADMIN &&
+    requesterClaims.role !== AdminRole.SUPER_ADMIN
+  ) {
+    throw new HttpsError(
+      "permission-denied",
+      "Only Super Admins can request the Super Admin role"
+    );
+  }
+}
+
+/**
+ * Store a pending role assignment, log it and notify the Super Admins.
+ * Returns the request ID.
+ */
+async function createRoleAssignmentRequest(
+  request: CallableRequest,
+  assignment: {
+    targetUid: string;
+    targetEmail: string | null;
+    role: string;
+    businessJustification: string;
+    managerApproval: boolean;
+  }
+): Promise<string> {
+  const requesterUid = request.auth!.uid;
+
+  // Create pending role assignment request
+  const requestRef = await getFirestore()
+    .collection(SUPER_ADMIN_CONFIG.ROLE_ASSIGNMENT_COLLECTION)
+    .add({
+      ...assignment,
+      requestedBy: requesterUid,
+      status: "pending_super_admin_approval",
+      createdAt: FieldValue.serverTimestamp(),
+      // Add approval workflow
+      approvalWorkflow: {
+        requiresSuperAdminApproval: true,
+        approvedBy: null,
+        approvedAt: null,
+        rejectionReason: null,
+      },
+      // Add security context
+      securityContext: {
+        ipAddress: request.rawRequest?.ip || "unknown",
+        userAgent: request.rawRequest?.headers?.["user-agent"] || "unknown",
+        sessionId: request.auth?.token || "unknown",
+      },
+    });
+
+  // Log the request
+  await logSuperAdminAction(
+    "role_assignment_requested",
+    requesterUid,
+    {
+      requestId: requestRef.id,
+      ...assignment,
+    },
+    request.rawRequest?.ip,
+    request.rawRequest?.headers?.["user-agent"]
+  );
+
+  // Notify Super Admins (in a real implementation, this would send notifications)
+  await notifySuperAdminsOfPendingRequest(
+    requestRef.id,
+    assignment.targetUid,
+    assignment.role
+  );
+
+  return requestRef.id;
+}
+
 /**
  * Super Admin approves or rejects role assignment
  */
@@ -303,43 +425,7 @@ export const approveRoleAssignment = onCall(async (request) => {
  * Get permissions for a role
  */
 function getRolePermissions(role: string): string[] {
-  const rolePermissions: Record<string, string[]> = {
-    super_admin: [
-      "view_bookings",
-      "edit_bookings",
-      "delete_bookings",
-      "confirm_bookings",
-      "view_payments",
-      "process_payments",
-      "generate_payment_links",
-      "view_users",
-      "manage_users",
-      "assign_roles",
-      "view_analytics",
-      "manage_system",
-      "view_logs",
-    ],
-    admin: [
-      "view_bookings",
-      "edit_bookings",
-      "confirm_bookings",
-      "view_payments",
-      "process_payments",
-      "generate_payment_links",
-      "view_users",
-      "view_analytics",
-    ],
-    manager: [
-      "view_bookings",
-      "edit_bookings",
-      "confirm_bookings",
-      "view_payments",
-      "view_analytics",
-    ],
-    viewer: ["view_bookings", "view_payments", "view_analytics"],
-  };
-
-  return rolePermissions[role] || [];
+  return ROLE_PERMISSIONS[role as AdminRole] || [];
 }
 
 /**
@@ -0,0 +1,132 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { getFirestore, FieldValue } from "firebase-admin/firestore";
+import { hasPermission, Permission } from "./admin";
+
+/**
+ * Live system switches
+ *
+ * system_config/payments is the payments kill-switch set by the emergency
+ * functions and system_config/maintenance the site-wide maintenance flag.
+ * Both are private; the public site reads the summary kept in
+ * system_config/status.
+ */
+
+export const SYSTEM_CONFIG = {
+  COLLECTION: "system_config",
+  PAYMENTS_DOC: "payments",
+  MAINTENANCE_DOC: "maintenance",
+  // Public summary read by the website
+  STATUS_DOC: "status",
+  // How long a function instance reuses the switches it read
+  CACHE_MS: 15 * 1000,
+  MAX_MESSAGE_LENGTH: 300,
+};
+
+export interface SystemStatus {
+  paymentsEnabled: boolean;
+  maintenanceMode: boolean;
+  message: string | null;
+}
+
+let cached: { status: SystemStatus; readAt: number } | null = null;
+
+async function readSystemStatus(): Promise<SystemStatus> {
+  const collection = getFirestore().collection(SYSTEM_CONFIG.COLLECTION);
+  const [payments, maintenance] = await Promise.all([
+    collection.doc(SYSTEM_CONFIG.PAYMENTS_DOC).get(),
+    collection.doc(SYSTEM_CONFIG.MAINTENANCE_DOC).get(),
+  ]);
+
+  return {
+    // Missing documents mean nothing has been switched off
+    paymentsEnabled: payments.data()?.enabled !== false,
+    maintenanceMode: maintenance.data()?.enabled === true,
+    message: maintenance.data()?.message || null,
+  };
+}
+
+/**
+ * Current switches, cached briefly so busy callables do not read them on
+ * every request
+ */
+export async function getSystemStatus(): Promise<SystemStatus> {
+  if (cached && Date.now() - cached.readAt < SYSTEM_CONFIG.CACHE_MS) {
+    return cached.status;
+  }
+  const status = await readSystemStatus();
+  cached = { status, readAt: Date.now() };
+  return status;
+}
+
+export async function assertPaymentsEnabled(): Promise<void> {
+  const status = await getSystemStatus();
+  if (!status.paymentsEnabled) {
+    throw new HttpsError(
+      "failed-precondition",
+      "Payments are temporarily disabled"
+    );
+  }
+}
+
+export async function assertNotInMaintenance(): Promise<void> {
+  const status = await getSystemStatus();
+  if (status.maintenanceMode) {
+    throw new HttpsError(
+      "unavailable",
+      status.message ||
+        "Online bookings are temporarily unavailable. Please contact us directly."
+    );
+  }
+}
+
+/**
+ * Rewrite the public summary after either switch changes
+ */
+export async function publishSystemStatus(): Promise<SystemStatus> {
+  const status = await readSystemStatus();
+  cached = { status, readAt: Date.now() };
+  await getFirestore()
+    .collection(SYSTEM_CONFIG.COLLECTION)
+    .doc(SYSTEM_CONFIG.STATUS_DOC)
+    .set({ ...status, updatedAt: FieldValue.serverTimestamp() });
+  return status;
+}
+
+/**
+ * Turn maintenance mode on or off (staff with manage_system only)
+ */
+export const setMaintenanceMode = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated");
+  }
+  if (!hasPermission(request.auth.token, Permission.MANAGE_SYSTEM)) {
+    throw new HttpsError("permission-denied", "Insufficient permissions");
+  }
+
+  const { enabled, message } = request.data || {};
+  if (typeof enabled !== "boolean") {
+    throw new HttpsError("invalid-argument", "enabled must be true or false");
+  }
+
+  try {
+    await getFirestore()
+      .collection(SYSTEM_CONFIG.COLLECTION)
+      .doc(SYSTEM_CONFIG.MAINTENANCE_DOC)
+      .set({
+        enabled,
+        message: enabled
+          ? String(message || "")
+              .trim()
+              .slice(0, SYSTEM_CONFIG.MAX_MESSAGE_LENGTH) || null
+          : null,
+        updatedBy: request.auth.uid,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+
+    const status = await publishSystemStatus();
+    return { success: true, status };
+  } catch (error) {
+    console.error("Error setting maintenance mode:", error);
+    throw new HttpsError("internal", "Failed to update maintenance mode");
+  }
+});
@@ -0,0 +1,122 @@
+/**
+ * Shared Firestore document shapes for the booking system
+ */
+
+export type FirestoreDate = FirebaseFirestore.Timestamp | Date | string;
+
+export type BookingStatus =
+  | "pending"
+  | "quoted"
+  | "deposit_paid"
+  | "confirmed"
+  | "in_progress"
+  | "completed"
+  | "no_show"
+  | "cancelled"
+  | "suspended";
+
+export interface BookingData {
+  id?: string;
+  customerName: string;
+  customerEmail?: string;
+  customerPhone: string;
+  serviceName: string;
+  serviceId?: string;
+  bookingDate: FirestoreDate;
+  rentalStart?: FirestoreDate;
+  rentalEnd?: FirestoreDate;
+  vehicleId?: string | null;
+  vehicleName?: string | null;
+  availabilityConflict?: boolean;
+  // Driver or guide for tours and transfers, see staff.ts
+  staffId?: string | null;
+  staffName?: string | null;
+  quote?: PriceQuote;
+  dateChangeRequest?: DateChangeRequest | null;
+  cancelledBy?: string;
+  amountPaid?: number; // running total of the payments ledger
+  paymentStatus?: PaymentStatus;
+  paidAt?: FirestoreDate;
+  notes?: string;
+  locale?: string; // language for customer messages, see notification-templates.ts
+  preferredChannel?: ContactChannel; // how the customer wants to hear from us
+  pickup?: PickupDetails | null; // given to the customer on confirmation
+  // Reminders already sent, with the start or return time each was for
+  reminders?: Partial<Record<ReminderKind, SentReminder>>;
+  // Latest WhatsApp message from the customer, see whatsapp.ts
+  lastCustomerMessageAt?: FirestoreDate;
+  // Derived for the admin bookings table, see booking-search.ts
+  searchTerms?: string[];
+  serviceDate?: FirestoreDate | null;
+  status: BookingStatus;
+  // When the booking entered each status, keyed by status
+  statusTimestamps?: Partial<Record<BookingStatus, FirestoreDate>>;
+  statusChangedBy?: string;
+  enquiryOnly?: boolean; // received while payments were switched off
+  restoredFrom?: string; // set on documents written back from a backup
+  createdAt: FirestoreDate;
+  updatedAt: FirestoreDate;
+}
+
+export type ContactChannel = "email" | "whatsapp";
+
+export interface PickupDetails {
+  location: string | null;
+  time: string | null; // HH:mm, Mauritius time
+}
+
+export type ReminderKind = "day_before" | "soon" | "return";
+
+export interface SentReminder {
+  for: FirestoreDate;
+  sentAt: FirestoreDate;
+}
+
+export interface DateChangeRequest {
+  bookingDate?: FirestoreDate;
+  rentalStart?: FirestoreDate;
+  rentalEnd?: FirestoreDate;
+  reason?: string | null;
+  status: "pending" | "approved" | "declined";
+  requestedAt?: FirestoreDate;
+  resolvedAt?: FirestoreDate; // when staff approved or declined it
+}
+
+export type PaymentMethod = "cash" | "eft" | "mobile_wallet" | "card";
+
+export type PaymentType = "deposit" | "payment" | "refund";
+
+export type PaymentStatus = "unpaid" | "partial" | "paid";
+
+export interface PriceQuote {
+  unitPrice: number;
+  units: number; // rental days for per-day services, otherwise 1
+  total: number;
+  currency: string;
+}
+
+export interface VehicleData {
+  id?: string;
+  name: string;
+  registration: string;
+  seats?: number;
+  active: boolean;
+  createdAt?: FirestoreDate;
+  updatedAt?: FirestoreDate;
+}
+
+export type StaffKind = "driver" | "guide";
+
+export interface StaffData {
+  id?: string;
+  name: string;
+  phone: string;
+  kind: StaffKind;
+  // Sign-in email of their driver account, which links them to their jobs
+  email?: string | null;
+  // Driver account that claimed the record with a verified email
+  uid?: string | null;
+  active: boolean;
+  createdAt?: FirestoreDate;
+  updatedAt?: FirestoreDate;
+}
@@ -0,0 +1,42 @@
+import { FirestoreDate } from "./types";
+
+/**
+ * Convert a Firestore Timestamp, Date or ISO string into a Date
+ */
+export function normalizeDate(date: FirestoreDate): Date {
+  if (date instanceof Date) {
+    return date;
+  }
+
+  if (typeof date === "string") {
+    return new Date(date);
+  }
+
+  if (
+    date &&
+    typeof (date as FirebaseFirestore.Timestamp).toDate === "function"
+  ) {
+    return (date as FirebaseFirestore.Timestamp).toDate();
+  }
+
+  return new Date();
+}
+
+// Mauritius is UTC+4 all year (no daylight saving)
+export const LOCAL_UTC_OFFSET_HOURS = 4;
+
+/**
+ * Format a date as a yyyy-mm-dd key (UTC, matching the booking form dates)
+ */
+export function toDayKey(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Today's date key in Mauritius
+ */
+export function localDayKey(now = new Date()): string {
+  return toDayKey(
+    new Date(now.getTime() + LOCAL_UTC_OFFSET_HOURS * 60 * 60 * 1000)
+  );
+}
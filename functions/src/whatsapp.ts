@@ -0,0 +1,521 @@
+import { onRequest } from "firebase-functions/v2/https";
+import { getFirestore, FieldValue, Timestamp } from "firebase-admin/firestore";
+import { createHmac, timingSafeEqual } from "crypto";
+import { logFunctionMetrics } from "./monitoring";
+import { changeContext } from "./booking-history";
+import { TemplateLocale, TemplateVariables } from "./notification-templates";
+import { NOTIFICATIONS_CONFIG, OutboxMessage } from "./notifications";
+import { BookingData, BookingStatus } from "./types";
+import { normalizePhone } from "./bookings";
+
+/**
+ * WhatsApp Business Cloud API
+ *
+ * Outbound messages are sent through the Graph API. WhatsApp only allows
+ * free-form text within 24 hours of the customer's last message; outside
+ * that window an approved template is sent instead. whatsappWebhook
+ * receives delivery statuses and customer replies. Replies are threaded
+ * onto the booking they are about under bookings/{id}/messages, matched by
+ * a booking ID in the text or else by the customer's phone number.
+ * Messages that match no booking go to whatsapp_inbox.
+ */
+
+export const WHATSAPP_CONFIG = {
+  // Point at a local mock server for testing (scripts/whatsapp-mock-server.js)
+  API_BASE_URL:
+    process.env.WHATSAPP_API_BASE_URL || "https://graph.facebook.com",
+  API_VERSION: process.env.WHATSAPP_API_VERSION || "v19.0",
+  PHONE_NUMBER_ID: process.env.WHATSAPP_PHONE_NUMBER_ID,
+  ACCESS_TOKEN: process.env.WHATSAPP_ACCESS_TOKEN,
+  // Signs webhook deliveries (Meta app secret)
+  APP_SECRET: process.env.WHATSAPP_APP_SECRET,
+  // Echoed back when Meta verifies the webhook URL
+  VERIFY_TOKEN: process.env.WHATSAPP_VERIFY_TOKEN,
+  SERVICE_WINDOW_MS: 24 * 60 * 60 * 1000,
+  CONTACTS_COLLECTION: "whatsapp_contacts",
+  INBOX_COLLECTION: "whatsapp_inbox",
+  // No Kreol template language exists, so Kreol speakers get French
+  LANGUAGE_CODES: { en: "en", fr: "fr", mfe: "fr" } as Record<
+    TemplateLocale,
+    string
+  >,
+  // Approved Meta templates for each notification template, with the
+  // variables that fill their {{1}}, {{2}}, ... placeholders in order
+  TEMPLATES: {
+    owner_new_booking: {
+      name: "new_booking_alert",
+      parameters: [
+        "serviceName",
+        "bookingDate",
+        "customerName",
+        "customerPhone",
+        "bookingId",
+      ],
+    },
+    customer_booking_received: {
+      name: "booking_received",
+      parameters: ["customerName", "serviceName", "bookingDate", "bookingId"],
+    },
+    customer_booking_confirmed: {
+      name: "booking_confirmed",
+      parameters: [
+        "customerName",
+        "serviceName",
+        "bookingDate",
+        "pickupTime",
+        "pickupLocation",
+      ],
+    },
+    customer_booking_cancelled: {
+      name: "booking_cancelled",
+      parameters: ["customerName", "serviceName", "bookingDate"],
+    },
+    customer_booking_rescheduled: {
+      name: "booking_rescheduled",
+      parameters: [
+        "customerName",
+        "serviceName",
+        "previousDate",
+        "bookingDate",
+      ],
+    },
+    customer_reminder_day_before: {
+      name: "booking_reminder",
+      parameters: ["customerName", "serviceName", "bookingDate"],
+    },
+    customer_reminder_soon: {
+      name: "pickup_reminder",
+      parameters: ["customerName", "serviceName", "pickupTime"],
+    },
+    customer_return_reminder: {
+      name: "rental_return_reminder",
+      parameters: ["customerName", "returnDate", "returnTime"],
+    },
+    owner_daily_digest: {
+      name: "daily_digest",
+      parameters: ["date", "jobCount"],
+    },
+  } as Record<string, { name: string; parameters: string[] }>,
+  // Authentication template for customer portal codes
+  OTP_TEMPLATE: process.env.WHATSAPP_OTP_TEMPLATE || "verification_code",
+  // Bookings a reply from the customer is no longer about
+  CLOSED_STATUSES: ["completed", "no_show", "cancelled"] as BookingStatus[],
+};
+
+export interface WhatsAppTemplateMessage {
+  name: string;
+  language: string;
+  parameters: string[];
+  // Value for the template's copy-code button (authentication templates)
+  buttonParameter?: string;
+}
+
+export type WhatsAppDeliveryStatus = "sent" | "delivered" | "read" | "failed";
+
+export interface BookingMessage {
+  direction: "inbound" | "outbound";
+  // Customer's number as +<digits>
+  phone: string;
+  body: string;
+  type: string;
+  // Set on outbound messages sent as a template
+  template?: string | null;
+  status?: WhatsAppDeliveryStatus | null;
+  sentAt: Timestamp;
+}
+
+export function isCloudApiConfigured(): boolean {
+  return !!(WHATSAPP_CONFIG.PHONE_NUMBER_ID && WHATSAPP_CONFIG.ACCESS_TOKEN);
+}
+
+/**
+ * The approved template to use for a notification when the customer is
+ * outside the 24-hour window, or null if it has none
+ */
+export function whatsappTemplateFor(
+  template: string,
+  locale: TemplateLocale,
+  variables: TemplateVariables
+): WhatsAppTemplateMessage | null {
+  const mapping = WHATSAPP_CONFIG.TEMPLATES[template];
+  if (!mapping) {
+    return null;
+  }
+  return {
+    name: mapping.name,
+    language: WHATSAPP_CONFIG.LANGUAGE_CODES[locale],
+    // The API rejects empty parameters
+    parameters: mapping.parameters.map((name) => variables[name] || "-"),
+  };
+}
+
+// Cloud API numbers are digits only; we store them as +<digits>
+function waId(phone: string): string {
+  return phone.replace(/\D/g, "");
+}
+
+async function inServiceWindow(to: string): Promise<boolean> {
+  const contact = await getFirestore()
+    .collection(WHATSAPP_CONFIG.CONTACTS_COLLECTION)
+    .doc(to)
+    .get();
+  const lastInboundAt = contact.get("lastInboundAt") as Timestamp | undefined;
+  return (
+    !!lastInboundAt &&
+    Date.now() - lastInboundAt.toMillis() < WHATSAPP_CONFIG.SERVICE_WINDOW_MS
+  );
+}
+
+/**
+ * Send a message through the Cloud API: the text if the customer wrote in
+ * the last 24 hours, otherwise the template. Returns the message ID and the
+ * template used, if any.
+ */
+export async function sendCloudMessage(
+  phone: string,
+  body: string,
+  fallbackTemplate: WhatsAppTemplateMessage | null | undefined
+): Promise<{ messageId: string; template: WhatsAppTemplateMessage | null }> {
+  if (!isCloudApiConfigured()) {
+    throw new Error("WhatsApp Cloud API is not configured");
+  }
+
+  const to = waId(phone);
+  const template =
+    fallbackTemplate && !(await inServiceWindow(to)) ? fallbackTemplate : null;
+
+  const response = await fetch(
+    `${WHATSAPP_CONFIG.API_BASE_URL}/${WHATSAPP_CONFIG.API_VERSION}/` +
+      `${WHATSAPP_CONFIG.PHONE_NUMBER_ID}/messages`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${WHATSAPP_CONFIG.ACCESS_TOKEN}`,
+      },
+      body: JSON.stringify({
+        messaging_product: "whatsapp",
+        recipient_type: "individual",
+        to,
+        ...(template
+          ? {
+              type: "template",
+              template: {
+                name: template.name,
+                language: { code: template.language },
+                components: [
+                  {
+                    type: "body",
+                    parameters: template.parameters.map((text) => ({
+                      type: "text",
+                      text,
+                    })),
+                  },
+                  ...(template.buttonParameter
+                    ? [
+                        {
+                          type: "button",
+                          sub_type: "url",
+                          index: "0",
+                          parameters: [
+                            { type: "text", text: template.buttonParameter },
+                          ],
+                        },
+                      ]
+                    : []),
+                ],
+              },
+            }
+          : {
+              type: "text",
+              text: { body, preview_url: true },
+            }),
+      }),
+    }
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(
+      `WhatsApp Cloud API failed with status ${response.status}: ${errorText}`
+    );
+  }
+
+  const result = (await response.json()) as { messages?: { id: string }[] };
+  const messageId = result.messages?.[0]?.id;
+  if (!messageId) {
+    throw new Error("WhatsApp Cloud API returned no message ID");
+  }
+  return { messageId, template };
+}
+
+/**
+ * Send a notification through the Cloud API and return its message ID.
+ * Customer messages are also added to the booking's message thread.
+ */
+export async function sendCloudWhatsApp(
+  message: OutboxMessage
+): Promise<string> {
+  const { messageId, template } = await sendCloudMessage(
+    message.to,
+    message.body,
+    message.whatsappTemplate
+  );
+
+  if (message.recipient === "customer" && message.bookingId) {
+    const entry: BookingMessage = {
+      direction: "outbound",
+      phone: `+${waId(message.to)}`,
+      body: message.body,
+      type: template ? "template" : "text",
+      template: template?.name || null,
+      status: "sent",
+      sentAt: Timestamp.now(),
+    };
+    await getFirestore()
+      .collection("bookings")
+      .doc(message.bookingId)
+      .collection("messages")
+      .doc(messageId)
+      .set(entry);
+  }
+  return messageId;
+}
+
+/**
+ * Check the X-Hub-Signature-256 header: an HMAC-SHA256 of the raw request
+ * body keyed with the app secret
+ */
+export function verifySignature(
+  rawBody: Buffer,
+  signature: string | undefined,
+  secret: string
+): boolean {
+  if (!signature?.startsWith("sha256=")) {
+    return false;
+  }
+  const expected = Buffer.from(
+    createHmac("sha256", secret).update(rawBody).digest("hex")
+  );
+  const received = Buffer.from(signature.slice("sha256=".length));
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
+
+interface InboundMessage {
+  id: string;
+  from: string;
+  timestamp: string;
+  type: string;
+  text?: { body: string };
+  button?: { text: string };
+  interactive?: {
+    button_reply?: { title: string };
+    list_reply?: { title: string };
+  };
+}
+
+interface StatusUpdate {
+  id: string;
+  status: WhatsAppDeliveryStatus;
+  timestamp: string;
+  errors?: { code: number; title: string }[];
+}
+
+function messageText(message: InboundMessage): string {
+  return (
+    message.text?.body ||
+    message.button?.text ||
+    message.interactive?.button_reply?.title ||
+    message.interactive?.list_reply?.title ||
+    // Media and other types are noted so staff know to check the phone
+    `[${message.type}]`
+  );
+}
+
+/**
+ * The booking an inbound message is about: one of the sender's bookings
+ * whose ID appears in the text (as in the message sent from the booking
+ * form), otherwise their latest open booking, otherwise their latest
+ * booking. An ID alone never threads a message onto someone else's booking.
+ */
+async function matchBooking(
+  phone: string,
+  text: string
+): Promise<string | null> {
+  const bookings = getFirestore().collection("bookings");
+
+  for (const candidate of text.match(/\b[A-Za-z0-9]{20}\b/g) || []) {
+    const booking = (await bookings.doc(candidate).get()).data() as
+      | BookingData
+      | undefined;
+    if (booking && normalizePhone(booking.customerPhone || "") === phone) {
+      return candidate;
+    }
+  }
+
+  const recent = await bookings
+    .where("customerPhone", "==", phone)
+    .orderBy("createdAt", "desc")
+    .limit(10)
+    .get();
+  const open = recent.docs.find(
+    (doc) =>
+      !WHATSAPP_CONFIG.CLOSED_STATUSES.includes(
+        (doc.data() as BookingData).status
+      )
+  );
+  return (open || recent.docs[0])?.id || null;
+}
+
+async function receiveMessage(
+  message: InboundMessage,
+  contactName: string | null
+): Promise<void> {
+  const db = getFirestore();
+  const phone = `+${message.from}`;
+  const body = messageText(message);
+  const sentAt = Timestamp.fromMillis(Number(message.timestamp) * 1000);
+
+  // Opens the 24-hour window for free-form replies
+  await db
+    .collection(WHATSAPP_CONFIG.CONTACTS_COLLECTION)
+    .doc(message.from)
+    .set(
+      {
+        phone,
+        ...(contactName ? { name: contactName } : {}),
+        lastInboundAt: sentAt,
+      },
+      { merge: true }
+    );
+
+  const entry: BookingMessage & Record<string, unknown> = {
+    direction: "inbound",
+    phone,
+    body,
+    type: message.type,
+    sentAt,
+    contactName,
+    receivedAt: FieldValue.serverTimestamp(),
+  };
+
+  const bookingId = await matchBooking(phone, body);
+  if (!bookingId) {
+    await db
+      .collection(WHATSAPP_CONFIG.INBOX_COLLECTION)
+      .doc(message.id)
+      .set(entry);
+    return;
+  }
+
+  // Keyed by the WhatsApp message ID, so a redelivered webhook is harmless
+  const bookingRef = db.collection("bookings").doc(bookingId);
+  await bookingRef.collection("messages").doc(message.id).set(entry);
+  await bookingRef.update({
+    lastCustomerMessageAt: sentAt,
+    ...changeContext(null, "customer"),
+  });
+}
+
+/**
+ * Record a delivery status on the outbox entry and the booking thread
+ */
+async function receiveStatus(update: StatusUpdate): Promise<void> {
+  const db = getFirestore();
+  const error = update.errors?.[0];
+  const outbox = await db
+    .collection(NOTIFICATIONS_CONFIG.COLLECTION)
+    .where("providerMessageId", "==", update.id)
+    .limit(1)
+    .get();
+
+  for (const doc of outbox.docs) {
+    await doc.ref.update({
+      providerStatus: update.status,
+      ...(error
+        ? { lastError: `WhatsApp error ${error.code}: ${error.title}` }
+        : {}),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    const bookingId = doc.get("bookingId") as string | null;
+    if (bookingId && doc.get("recipient") === "customer") {
+      await db
+        .collection("bookings")
+        .doc(bookingId)
+        .collection("messages")
+        .doc(update.id)
+        .set({ status: update.status }, { merge: true });
+    }
+  }
+}
+
+/**
+ * Webhook for the Cloud API. GET answers Meta's verification challenge;
+ * POST carries signed message and status notifications.
+ */
+export const whatsappWebhook = onRequest(async (req, res) => {
+  const startTime = Date.now();
+
+  if (req.method === "GET") {
+    const verified =
+      !!WHATSAPP_CONFIG.VERIFY_TOKEN &&
+      req.query["hub.mode"] === "subscribe" &&
+      req.query["hub.verify_token"] === WHATSAPP_CONFIG.VERIFY_TOKEN;
+    if (verified) {
+      res.status(200).send(String(req.query["hub.challenge"] || ""));
+    } else {
+      res.status(403).send("Verification failed");
+    }
+    return;
+  }
+
+  if (req.method !== "POST") {
+    res.status(405).send("Method not allowed");
+    return;
+  }
+
+  if (!WHATSAPP_CONFIG.APP_SECRET) {
+    console.error("WHATSAPP_APP_SECRET is not set; rejecting webhook");
+    res.status(500).send("Webhook not configured");
+    return;
+  }
+  if (
+    !verifySignature(
+      req.rawBody,
+      req.get("x-hub-signature-256"),
+      WHATSAPP_CONFIG.APP_SECRET
+    )
+  ) {
+    console.warn("Rejected WhatsApp webhook with an invalid signature");
+    res.status(401).send("Invalid signature");
+    return;
+  }
+
+  try {
+    for (const entry of req.body?.entry || []) {
+      for (const change of entry.changes || []) {
+        const value = change.value || {};
+        const contacts: { wa_id: string; profile?: { name?: string } }[] =
+          value.contacts || [];
+
+        for (const message of (value.messages || []) as InboundMessage[]) {
+          const contact = contacts.find((c) => c.wa_id === message.from);
+          await receiveMessage(message, contact?.profile?.name || null);
+        }
+        for (const update of (value.statuses || []) as StatusUpdate[]) {
+          await receiveStatus(update);
+        }
+      }
+    }
+
+    logFunctionMetrics("whatsappWebhook", startTime);
+    res.status(200).send("OK");
+  } catch (error) {
+    logFunctionMetrics("whatsappWebhook", startTime, error as Error);
+    // Meta redelivers on errors; every write above is idempotent
+    res.status(500).send("Internal server error");
+  }
+});
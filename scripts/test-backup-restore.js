@@ -0,0 +1,154 @@
+#!/usr/bin/env node
+
+/**
+ * Shanal Cars - Backup and Restore Round Trip
+ * Exports seeded collections with the functions' backup code, damages the
+ * data, restores it and checks the documents come back intact. Runs only
+ * against the Firestore and Storage emulators:
+ *
+ *   npm --prefix functions run build
+ *   firebase emulators:exec --only firestore,storage \
+ *     "node scripts/test-backup-restore.js"
+ */
+
+const assert = require("assert");
+const path = require("path");
+
+const functionsDir = path.join(__dirname, "..", "functions");
+
+if (
+  !process.env.FIRESTORE_EMULATOR_HOST ||
+  !process.env.FIREBASE_STORAGE_EMULATOR_HOST
+) {
+  console.error(
+    "FIRESTORE_EMULATOR_HOST and FIREBASE_STORAGE_EMULATOR_HOST must be set; run this through firebase emulators:exec"
+  );
+  process.exit(1);
+}
+
+const { initializeApp } = require(require.resolve("firebase-admin/app", {
+  paths: [functionsDir],
+}));
+const { getFirestore, Timestamp } = require(require.resolve(
+  "firebase-admin/firestore",
+  { paths: [functionsDir] }
+));
+
+const projectId = process.env.GCLOUD_PROJECT || "demo-shanal";
+initializeApp({ projectId, storageBucket: `${projectId}.appspot.com` });
+
+const {
+  BACKUP_CONFIG,
+  exportCollectionBackup,
+  restoreBackup,
+} = require(path.join(functionsDir, "lib", "backups.js"));
+
+// More vehicles than one export page and one restore batch
+const VEHICLE_COUNT = BACKUP_CONFIG.EXPORT_PAGE_SIZE * 2 + 25;
+const COLLECTIONS = ["bookings", "vehicles"];
+
+async function seed(db) {
+  await db.doc("bookings/round-trip-1").set({
+    customerName: "Round Trip",
+    bookingDate: Timestamp.fromDate(new Date("2030-01-15T00:00:00Z")),
+    pickup: { location: "Airport", time: "09:30" },
+    status: "confirmed",
+  });
+  await db.doc("bookings/round-trip-1/history/entry-1").set({
+    action: "created",
+    at: Timestamp.fromDate(new Date("2030-01-01T08:00:00Z")),
+  });
+  await db.doc("bookings/round-trip-2").set({
+    customerName: "Second Booking",
+    status: "pending",
+  });
+
+  for (let start = 0; start < VEHICLE_COUNT; start += 400) {
+    const batch = db.batch();
+    for (let i = start; i < Math.min(start + 400, VEHICLE_COUNT); i++) {
+      batch.set(db.doc(`vehicles/vehicle-${String(i).padStart(5, "0")}`), {
+        name: `Car ${i}`,
+        active: true,
+      });
+    }
+    await batch.commit();
+  }
+}
+
+async function main() {
+  const db = getFirestore();
+  const backupId = `backup_roundtrip_${Date.now()}`;
+
+  await seed(db);
+
+  let exported = 0;
+  for (const name of COLLECTIONS) {
+    exported += await exportCollectionBackup(backupId, name);
+  }
+  assert.strictEqual(exported, VEHICLE_COUNT + 3, "documents exported");
+
+  await db.collection(BACKUP_CONFIG.BACKUPS_COLLECTION).doc(backupId).set({
+    backupId,
+    status: "COMPLETED",
+    collections: COLLECTIONS,
+  });
+
+  const dryRun = await restoreBackup(backupId, {
+    dryRun: true,
+    restoredBy: "round-trip-test",
+  });
+  assert.deepStrictEqual(dryRun.collections, {
+    bookings: { created: 0, overwritten: 0, unchanged: 3 },
+    vehicles: { created: 0, overwritten: 0, unchanged: VEHICLE_COUNT },
+  });
+
+  // Lose a booking, a history entry and a vehicle, and edit another booking
+  await db.doc("bookings/round-trip-2").delete();
+  await db.doc("bookings/round-trip-1/history/entry-1").delete();
+  await db.doc("vehicles/vehicle-00007").delete();
+  await db.doc("bookings/round-trip-1").update({ customerName: "Changed" });
+
+  const restored = await restoreBackup(backupId, {
+    dryRun: false,
+    restoredBy: "round-trip-test",
+  });
+  assert.deepStrictEqual(restored.collections, {
+    bookings: { created: 2, overwritten: 1, unchanged: 0 },
+    vehicles: { created: 1, overwritten: 0, unchanged: VEHICLE_COUNT - 1 },
+  });
+
+  const booking = (await db.doc("bookings/round-trip-1").get()).data();
+  assert.strictEqual(booking.customerName, "Round Trip");
+  assert.ok(booking.bookingDate instanceof Timestamp, "timestamp restored");
+  assert.strictEqual(
+    booking.bookingDate.toDate().toISOString(),
+    "2030-01-15T00:00:00.000Z"
+  );
+  assert.deepStrictEqual(booking.pickup, {
+    location: "Airport",
+    time: "09:30",
+  });
+  assert.strictEqual(booking.restoredFrom, backupId);
+  assert.ok(
+    (await db.doc("bookings/round-trip-1/history/entry-1").get()).exists,
+    "subcollection document restored"
+  );
+  assert.ok((await db.doc("bookings/round-trip-2").get()).exists);
+  assert.ok((await db.doc("vehicles/vehicle-00007").get()).exists);
+
+  // The fields the restore adds do not make restored documents look changed
+  const afterRestore = await restoreBackup(backupId, {
+    dryRun: true,
+    restoredBy: "round-trip-test",
+  });
+  assert.deepStrictEqual(afterRestore.collections, dryRun.collections);
+
+  console.log(
+    `Backup round trip passed: ${exported} documents exported and restored`
+  );
+}
+
+main().catch((error) => {
+  console.error("Backup round trip failed:", error);
+  process.exit(1);
+});
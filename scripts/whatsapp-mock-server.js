@@ -0,0 +1,211 @@
+#!/usr/bin/env node
+
+/**
+ * Shanal Cars - WhatsApp Cloud API Mock Server
+ *
+ * Stands in for graph.facebook.com when testing the WhatsApp integration
+ * against the Functions emulator. Point the functions at it with
+ * WHATSAPP_API_BASE_URL=http://127.0.0.1:4010 and any phone number ID and
+ * access token.
+ *
+ * - POST /<version>/<phone-number-id>/messages accepts a send, logs it and
+ *   answers like the Cloud API. Each send is followed by a signed
+ *   "delivered" status callback to the webhook.
+ * - POST /simulate/inbound with {"from": "23057071414", "text": "..."} sends
+ *   the webhook a signed inbound message, as if a customer had replied.
+ * - GET /sent lists the messages received so far.
+ *
+ * Configuration (environment):
+ *   PORT                 listen port (default 4010)
+ *   WEBHOOK_URL          the whatsappWebhook function, e.g.
+ *                        http://127.0.0.1:5001/shanal/us-central1/whatsappWebhook
+ *   WHATSAPP_APP_SECRET  must match the functions' secret, signs callbacks
+ *   MOCK_FAIL_TO         recipient number whose sends are rejected, to
+ *                        exercise the outbox retries
+ */
+
+const http = require("http");
+const crypto = require("crypto");
+
+const MOCK_CONFIG = {
+  port: Number(process.env.PORT || 4010),
+  webhookUrl: process.env.WEBHOOK_URL,
+  appSecret: process.env.WHATSAPP_APP_SECRET || "mock-app-secret",
+  failTo: process.env.MOCK_FAIL_TO,
+  businessNumber: "23000000000",
+};
+
+const sent = [];
+let counter = 0;
+
+function messageId() {
+  counter += 1;
+  return `wamid.MOCK${Date.now()}${counter}`;
+}
+
+function readJson(req) {
+  return new Promise((resolve, reject) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+}
+
+function reply(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * POST a webhook notification signed the way Meta signs them
+ */
+async function postWebhook(value) {
+  if (!MOCK_CONFIG.webhookUrl) {
+    console.log("WEBHOOK_URL not set; skipping callback");
+    return null;
+  }
+
+  const body = JSON.stringify({
+    object: "whatsapp_business_account",
+    entry: [
+      {
+        id: "MOCK_WABA",
+        changes: [
+          {
+            field: "messages",
+            value: {
+              messaging_product: "whatsapp",
+              metadata: {
+                display_phone_number: MOCK_CONFIG.businessNumber,
+                phone_number_id: "MOCK_PHONE_NUMBER_ID",
+              },
+              ...value,
+            },
+          },
+        ],
+      },
+    ],
+  });
+  const signature = crypto
+    .createHmac("sha256", MOCK_CONFIG.appSecret)
+    .update(body)
+    .digest("hex");
+
+  const response = await fetch(MOCK_CONFIG.webhookUrl, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Hub-Signature-256": `sha256=${signature}`,
+    },
+    body,
+  });
+  console.log(`Webhook answered ${response.status}`);
+  return response.status;
+}
+
+async function handleSend(req, res) {
+  if (!req.headers.authorization?.startsWith("Bearer ")) {
+    return reply(res, 401, {
+      error: { message: "Missing access token", code: 190 },
+    });
+  }
+
+  const payload = await readJson(req);
+  if (payload.messaging_product !== "whatsapp" || !payload.to) {
+    return reply(res, 400, {
+      error: { message: "Invalid parameter", code: 100 },
+    });
+  }
+  if (MOCK_CONFIG.failTo && payload.to === MOCK_CONFIG.failTo) {
+    return reply(res, 500, {
+      error: { message: "Mock failure", code: 131000 },
+    });
+  }
+
+  const id = messageId();
+  sent.push({ id, ...payload });
+  console.log(
+    `→ ${payload.to} [${payload.type}]`,
+    payload.type === "template"
+      ? `${payload.template.name} ${JSON.stringify(
+          payload.template.components
+        )}`
+      : payload.text?.body
+  );
+  reply(res, 200, {
+    messaging_product: "whatsapp",
+    contacts: [{ input: payload.to, wa_id: payload.to }],
+    messages: [{ id }],
+  });
+
+  setTimeout(() => {
+    postWebhook({
+      statuses: [
+        {
+          id,
+          status: "delivered",
+          timestamp: String(Math.floor(Date.now() / 1000)),
+          recipient_id: payload.to,
+        },
+      ],
+    }).catch((error) => console.error("Status callback failed:", error));
+  }, 500);
+}
+
+async function handleInbound(req, res) {
+  const { from, text, name } = await readJson(req);
+  if (!from || !text) {
+    return reply(res, 400, { error: "from and text are required" });
+  }
+
+  const id = messageId();
+  const status = await postWebhook({
+    contacts: [{ wa_id: from, profile: { name: name || "Mock Customer" } }],
+    messages: [
+      {
+        id,
+        from,
+        timestamp: String(Math.floor(Date.now() / 1000)),
+        type: "text",
+        text: { body: text },
+      },
+    ],
+  });
+  reply(res, 200, { id, webhookStatus: status });
+}
+
+const server = http.createServer((req, res) => {
+  const handler =
+    req.method === "POST" && /^\/v[\d.]+\/[^/]+\/messages$/.test(req.url)
+      ? handleSend
+      : req.method === "POST" && req.url === "/simulate/inbound"
+      ? handleInbound
+      : req.method === "GET" && req.url === "/sent"
+      ? async (_req, response) => reply(response, 200, sent)
+      : async (_req, response) => reply(response, 404, { error: "Not found" });
+
+  handler(req, res).catch((error) => {
+    console.error(error);
+    reply(res, 500, { error: error.message });
+  });
+});
+
+// Run the server if this script is executed directly
+if (require.main === module) {
+  server.listen(MOCK_CONFIG.port, () => {
+    console.log(
+      `WhatsApp mock server on http://127.0.0.1:${MOCK_CONFIG.port}` +
+        (MOCK_CONFIG.webhookUrl
+          ? `, calling back ${MOCK_CONFIG.webhookUrl}`
+          : "")
+    );
+  });
+}
+
+module.exports = { server, postWebhook };
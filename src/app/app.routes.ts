@@ -1,14 +1,67 @@
 import { Routes } from "@angular/router";
 import { HomeComponent } from "./components/home/home.component";
 import { AdminDashboardComponent } from "./components/admin-dashboard/admin-dashboard.component";
+import { BookingPortalComponent } from "./components/booking-portal/booking-portal.component";
+import { ServiceCatalogComponent } from "./components/service-catalog/service-catalog.component";
+import { AdminUsersComponent } from "./components/admin-users/admin-users.component";
+import { NotificationTemplatesComponent } from "./components/notification-templates/notification-templates.component";
+import { AnalyticsComponent } from "./components/analytics/analytics.component";
+import { ScheduleComponent } from "./components/schedule/schedule.component";
+import { StaffComponent } from "./components/staff/staff.component";
+import { DriverJobsComponent } from "./components/driver-jobs/driver-jobs.component";
 import { AuthGuard } from "./guards/auth.guard";
+import { PermissionGuard } from "./guards/permission.guard";
+import { Permission } from "./models/permission.model";
 
 export const routes: Routes = [
   { path: "", component: HomeComponent },
+  { path: "booking/:id", component: BookingPortalComponent },
   {
     path: "admin",
     component: AdminDashboardComponent,
     canActivate: [AuthGuard],
   },
+  {
+    path: "admin/services",
+    component: ServiceCatalogComponent,
+    canActivate: [AuthGuard, PermissionGuard],
+    data: { permission: Permission.MANAGE_CATALOG },
+  },
+  {
+    path: "admin/users",
+    component: AdminUsersComponent,
+    canActivate: [AuthGuard, PermissionGuard],
+    data: { permission: Permission.VIEW_USERS },
+  },
+  {
+    path: "admin/templates",
+    component: NotificationTemplatesComponent,
+    canActivate: [AuthGuard, PermissionGuard],
+    data: { permission: Permission.VIEW_BOOKINGS },
+  },
+  {
+    path: "admin/analytics",
+    component: AnalyticsComponent,
+    canActivate: [AuthGuard, PermissionGuard],
+    data: { permission: Permission.VIEW_ANALYTICS },
+  },
+  {
+    path: "admin/schedule",
+    component: ScheduleComponent,
+    canActivate: [AuthGuard, PermissionGuard],
+    data: { permission: Permission.VIEW_BOOKINGS },
+  },
+  {
+    path: "admin/staff",
+    component: StaffComponent,
+    canActivate: [AuthGuard, PermissionGuard],
+    data: { permission: Permission.MANAGE_CATALOG },
+  },
+  {
+    path: "driver",
+    component: DriverJobsComponent,
+    canActivate: [AuthGuard, PermissionGuard],
+    data: { permission: Permission.VIEW_ASSIGNED_JOBS },
+  },
   { path: "**", redirectTo: "" },
 ];
@@ -6,8 +6,50 @@ import { Subscription } from "rxjs";
 // Corrected import paths: the component resides in src/app/components/admin-dashboard,
 // so services are located two levels up in src/app/services and models in src/app/models.
 import { AuthService } from "../../services/auth.service";
-import { BookingService } from "../../services/booking.service";
-import { Booking, BookingStatus } from "../../models/booking.model";
+import { BookingCursor, BookingService } from "../../services/booking.service";
+import { FleetService } from "../../services/fleet.service";
+import { PermissionService } from "../../services/permission.service";
+import { ServicesService } from "../../services/services.service";
+import { StaffService } from "../../services/staff.service";
+import { SystemStatusService } from "../../services/system-status.service";
+import { PaymentLedgerComponent } from "../payment-ledger/payment-ledger.component";
+import { BookingHistoryComponent } from "../booking-history/booking-history.component";
+import { NotificationStatusComponent } from "../notification-status/notification-status.component";
+import { BookingMessagesComponent } from "../booking-messages/booking-messages.component";
+import { HasPermissionDirective } from "../../directives/has-permission.directive";
+import { Permission } from "../../models/permission.model";
+import {
+  Booking,
+  BookingCounts,
+  BookingFilters,
+  BookingSortField,
+  BookingStatus,
+  PickupDetails,
+  StaffMember,
+  Vehicle,
+} from "../../models/booking.model";
+import {
+  DEFAULT_SYSTEM_STATUS,
+  SystemStatus,
+} from "../../models/system-status.model";
+import {
+  BOOKING_STATUSES,
+  BOOKING_STATUS_ACTIONS,
+  BOOKING_STATUS_LABELS,
+  nextStatuses,
+} from "../../utils/booking-status";
+
+const BOOKINGS_PAGE_SIZE = 25;
+
+const DEFAULT_BOOKING_FILTERS: BookingFilters = {
+  status: null,
+  serviceName: null,
+  search: "",
+  serviceDateFrom: null,
+  serviceDateTo: null,
+  sortField: "createdAt",
+  sortDirection: "desc",
+};
 
 /**
  * Admin dashboard component for managing bookings. This version has been
@@ -19,7 +61,15 @@ import { Booking, BookingStatus } from "../../models/booking.model";
 @Component({
   selector: "app-admin-dashboard",
   standalone: true,
-  imports: [CommonModule, FormsModule],
+  imports: [
+    CommonModule,
+    FormsModule,
+    PaymentLedgerComponent,
+    BookingHistoryComponent,
+    NotificationStatusComponent,
+    BookingMessagesComponent,
+    HasPermissionDirective,
+  ],
   template: `
     <div class="admin-container">
       <!-- Header -->
@@ -33,6 +83,60 @@ import { Booking, BookingStatus } from "../../models/booking.model";
               <span class="welcome-text"
                 >Welcome, {{ currentUser?.email }}</span
               >
+              <button
+                *appHasPermission="Permission.MANAGE_CATALOG"
+                class="btn-small btn-secondary"
+                (click)="goToServices()"
+              >
+                Services
+              </button>
+              <button
+                *appHasPermission="Permission.MANAGE_CATALOG"
+                class="btn-small btn-secondary"
+                (click)="goToStaff()"
+              >
+                Staff
+              </button>
+              <button
+                *appHasPermission="Permission.VIEW_USERS"
+                class="btn-small btn-secondary"
+                (click)="goToUsers()"
+              >
+                Users
+              </button>
+              <button
+                *appHasPermission="Permission.VIEW_BOOKINGS"
+                class="btn-small btn-secondary"
+                (click)="goToTemplates()"
+              >
+                Templates
+              </button>
+              <button
+                *appHasPermission="Permission.VIEW_BOOKINGS"
+                class="btn-small btn-secondary"
+                (click)="goToSchedule()"
+              >
+                Schedule
+              </button>
+              <button
+                *appHasPermission="Permission.VIEW_ANALYTICS"
+                class="btn-small btn-secondary"
+                (click)="goToAnalytics()"
+              >
+                Analytics
+              </button>
+              <button
+                *appHasPermission="Permission.MANAGE_SYSTEM"
+                class="btn-small btn-secondary"
+                (click)="toggleMaintenanceMode()"
+                [disabled]="isUpdatingMaintenance"
+              >
+                {{
+                  systemStatus.maintenanceMode
+                    ? "End Maintenance"
+                    : "Maintenance Mode"
+                }}
+              </button>
               <button class="logout-btn" (click)="logout()">Logout</button>
             </div>
           </div>
@@ -105,33 +209,60 @@ import { Booking, BookingStatus } from "../../models/booking.model";
       <!-- Dashboard Content -->
       <div *ngIf="isAuthenticated" class="dashboard-content">
         <div class="container">
+          <!-- Kill-switch / maintenance status -->
+          <div
+            *ngIf="!systemStatus.paymentsEnabled"
+            class="system-banner banner-danger"
+          >
+            Payments are switched off by the emergency kill-switch. Recording
+            payments and marking deposits paid are blocked, and new requests
+            arrive as enquiries.
+          </div>
+          <div
+            *ngIf="systemStatus.maintenanceMode"
+            class="system-banner banner-warning"
+          >
+            <span
+              >Maintenance mode is on: the public site is not taking
+              bookings.</span
+            >
+            <button
+              *appHasPermission="Permission.MANAGE_SYSTEM"
+              class="btn-small btn-secondary"
+              (click)="toggleMaintenanceMode()"
+              [disabled]="isUpdatingMaintenance"
+            >
+              Turn Off
+            </button>
+          </div>
+
           <!-- Stats Cards -->
           <div class="stats-grid">
             <div class="stat-card">
               <div class="stat-icon">📋</div>
               <div class="stat-content">
-                <h3>{{ totalBookings }}</h3>
+                <h3>{{ bookingCounts.bookings }}</h3>
                 <p>Total Bookings</p>
               </div>
             </div>
             <div class="stat-card">
               <div class="stat-icon">⏳</div>
               <div class="stat-content">
-                <h3>{{ pendingBookings.length }}</h3>
+                <h3>{{ statusCount("pending") }}</h3>
                 <p>Awaiting Follow-up</p>
               </div>
             </div>
             <div class="stat-card">
               <div class="stat-icon">✅</div>
               <div class="stat-content">
-                <h3>{{ confirmedBookings.length }}</h3>
+                <h3>{{ statusCount("confirmed") }}</h3>
                 <p>Confirmed</p>
               </div>
             </div>
             <div class="stat-card">
               <div class="stat-icon">❌</div>
               <div class="stat-content">
-                <h3>{{ cancelledBookings.length }}</h3>
+                <h3>{{ statusCount("cancelled") }}</h3>
                 <p>Cancelled</p>
               </div>
             </div>
@@ -142,28 +273,118 @@ import { Booking, BookingStatus } from "../../models/booking.model";
             <button
               *ngFor="let status of statusFilters"
               class="tab-btn"
-              [class.active]="selectedStatus === status.value"
+              [class.active]="(filters.status || 'all') === status.value"
               (click)="filterByStatus(status.value)"
             >
-              {{ status.label }} ({{
-                getBookingsByStatus(status.value).length
-              }})
+              {{ status.label }} ({{ statusCount(status.value) }})
             </button>
           </div>
 
+          <!-- Search and Filters -->
+          <form class="booking-filters" (ngSubmit)="applyFilters()">
+            <div class="form-group search-group">
+              <label for="booking-search">Search</label>
+              <input
+                id="booking-search"
+                name="search"
+                type="search"
+                class="form-input"
+                placeholder="Name, phone, email or booking ID"
+                [(ngModel)]="filters.search"
+              />
+            </div>
+            <div class="form-group">
+              <label for="booking-service">Service</label>
+              <select
+                id="booking-service"
+                name="serviceName"
+                class="form-input"
+                [(ngModel)]="filters.serviceName"
+                (ngModelChange)="applyFilters()"
+              >
+                <option [ngValue]="null">All services</option>
+                <option *ngFor="let name of serviceNames" [ngValue]="name">
+                  {{ name }}
+                </option>
+              </select>
+            </div>
+            <div class="form-group">
+              <label for="service-date-from">Service date from</label>
+              <input
+                id="service-date-from"
+                name="serviceDateFrom"
+                type="date"
+                class="form-input"
+                [(ngModel)]="filters.serviceDateFrom"
+                [max]="filters.serviceDateTo"
+                (ngModelChange)="applyFilters()"
+              />
+            </div>
+            <div class="form-group">
+              <label for="service-date-to">to</label>
+              <input
+                id="service-date-to"
+                name="serviceDateTo"
+                type="date"
+                class="form-input"
+                [(ngModel)]="filters.serviceDateTo"
+                [min]="filters.serviceDateFrom"
+                (ngModelChange)="applyFilters()"
+              />
+            </div>
+            <button type="submit" class="btn-small">Search</button>
+            <button
+              type="button"
+              class="btn-small btn-secondary"
+              (click)="clearFilters()"
+            >
+              Clear
+            </button>
+          </form>
+
           <!-- Bookings Table -->
           <div class="bookings-section">
             <h2>Bookings</h2>
+            <div *ngIf="bookingsError" class="error-message">
+              {{ bookingsError }}
+            </div>
             <div class="bookings-table">
               <div class="table-header">
-                <div class="col">Customer</div>
+                <div class="col">
+                  <button
+                    class="sort-btn"
+                    [disabled]="hasDateRange"
+                    (click)="sortBy('customerName')"
+                  >
+                    Customer {{ sortIndicator("customerName") }}
+                  </button>
+                </div>
                 <div class="col">Service</div>
-                <div class="col">Date</div>
+                <div class="col">
+                  <button class="sort-btn" (click)="sortBy('serviceDate')">
+                    Date {{ sortIndicator("serviceDate") }}
+                  </button>
+                </div>
+                <div class="col">
+                  <button
+                    class="sort-btn"
+                    [disabled]="hasDateRange"
+                    (click)="sortBy('createdAt')"
+                  >
+                    Received {{ sortIndicator("createdAt") }}
+                  </button>
+                </div>
                 <div class="col">Status</div>
                 <div class="col">Actions</div>
               </div>
               <div class="table-body">
-                <div *ngFor="let booking of filteredBookings" class="table-row">
+                <div
+                  *ngIf="!isLoadingBookings && bookings.length === 0"
+                  class="table-empty"
+                >
+                  No bookings match these filters.
+                </div>
+                <div *ngFor="let booking of bookings" class="table-row">
                   <div class="col">
                     <div class="customer-info">
                       <strong>{{ booking.customerName }}</strong>
@@ -175,10 +396,23 @@ import { Booking, BookingStatus } from "../../models/booking.model";
                   </div>
                   <div class="col">
                     <span class="service-name">{{ booking.serviceName }}</span>
+                    <span
+                      class="conflict-badge"
+                      *ngIf="booking.availabilityConflict"
+                      >No car available</span
+                    >
+                    <span class="staff-name" *ngIf="booking.staffName">{{
+                      booking.staffName
+                    }}</span>
+                  </div>
+                  <div class="col">
+                    <span class="booking-date">{{
+                      formatDate(booking.rentalStart || booking.bookingDate)
+                    }}</span>
                   </div>
                   <div class="col">
                     <span class="booking-date">{{
-                      formatDate(booking.bookingDate)
+                      formatDate(booking.createdAt)
                     }}</span>
                   </div>
                   <div class="col">
@@ -188,6 +422,14 @@ import { Booking, BookingStatus } from "../../models/booking.model";
                     >
                       {{ getStatusLabel(booking.status) }}
                     </span>
+                    <span *ngIf="booking.enquiryOnly" class="enquiry-tag"
+                      >Enquiry</span
+                    >
+                    <span
+                      *ngIf="hasUndeliveredNotification(booking)"
+                      class="enquiry-tag notify-failed-tag"
+                      >Not Notified</span
+                    >
                   </div>
                   <div class="col">
                     <div class="action-buttons">
@@ -204,20 +446,18 @@ import { Booking, BookingStatus } from "../../models/booking.model";
                       >
                         WhatsApp
                       </button>
-                      <button
-                        *ngIf="booking.status === 'pending'"
-                        class="btn-small btn-success"
-                        (click)="markAsConfirmed(booking)"
+                      <ng-container
+                        *ngFor="let next of getNextStatuses(booking)"
                       >
-                        Mark as Confirmed
-                      </button>
-                      <button
-                        *ngIf="booking.status === 'pending'"
-                        class="btn-small btn-warning"
-                        (click)="markAsCancelled(booking)"
-                      >
-                        Mark as Cancelled
-                      </button>
+                        <button
+                          *appHasPermission="getStatusPermission(next)"
+                          class="btn-small"
+                          [ngClass]="getActionClass(next)"
+                          (click)="changeStatus(booking, next)"
+                        >
+                          {{ getActionLabel(next) }}
+                        </button>
+                      </ng-container>
                       <button
                         class="btn-small btn-info"
                         (click)="viewBookingDetails(booking)"
@@ -229,6 +469,25 @@ import { Booking, BookingStatus } from "../../models/booking.model";
                 </div>
               </div>
             </div>
+            <div class="pagination">
+              <button
+                class="btn-small btn-secondary"
+                [disabled]="pageIndex === 0 || isLoadingBookings"
+                (click)="previousPage()"
+              >
+                Previous
+              </button>
+              <span>{{
+                isLoadingBookings ? "Loading..." : "Page " + (pageIndex + 1)
+              }}</span>
+              <button
+                class="btn-small btn-secondary"
+                [disabled]="!hasNextPage || isLoadingBookings"
+                (click)="nextPage()"
+              >
+                Next
+              </button>
+            </div>
           </div>
         </div>
       </div>
@@ -277,6 +536,121 @@ import { Booking, BookingStatus } from "../../models/booking.model";
                   {{ getStatusLabel(selectedBooking.status) }}
                 </span>
               </div>
+              <div
+                class="detail-item"
+                *ngIf="selectedBooking.serviceName === 'Car Rental'"
+              >
+                <label>Vehicle:</label>
+                <span *ngIf="selectedBooking.availabilityConflict"
+                  >No car was free for these dates</span
+                >
+                <select
+                  class="form-input"
+                  [ngModel]="selectedBooking.vehicleId || ''"
+                  (ngModelChange)="assignVehicle(selectedBooking, $event)"
+                  [disabled]="isAssigningVehicle || !canEditBookings"
+                >
+                  <option value="">Unassigned</option>
+                  <option *ngFor="let vehicle of vehicles" [value]="vehicle.id">
+                    {{ vehicle.name }} ({{ vehicle.registration }})
+                  </option>
+                </select>
+                <small *ngIf="vehicleError" class="error-message">{{
+                  vehicleError
+                }}</small>
+              </div>
+              <div
+                class="detail-item"
+                *ngIf="selectedBooking.serviceName !== 'Car Rental'"
+              >
+                <label>Driver / Guide:</label>
+                <select
+                  class="form-input"
+                  [ngModel]="selectedBooking.staffId || ''"
+                  (ngModelChange)="assignStaffMember(selectedBooking, $event)"
+                  [disabled]="isAssigningStaff || !canEditBookings"
+                >
+                  <option value="">Unassigned</option>
+                  <option *ngFor="let member of staff" [value]="member.id">
+                    {{ member.name }} ({{
+                      member.kind === "guide" ? "Guide" : "Driver"
+                    }})
+                  </option>
+                </select>
+                <small *ngIf="staffError" class="error-message">{{
+                  staffError
+                }}</small>
+              </div>
+              <div class="detail-item" *ngIf="selectedBooking.quote">
+                <label>Quoted Price:</label>
+                <span
+                  >{{ selectedBooking.quote.currency }}
+                  {{ selectedBooking.quote.total | number : "1.0-0" }}
+                  <ng-container *ngIf="selectedBooking.quote.units > 1"
+                    >({{ selectedBooking.quote.units }} ×
+                    {{ selectedBooking.quote.unitPrice | number : "1.0-0" }})
+                  </ng-container></span
+                >
+              </div>
+              <div
+                class="detail-item"
+                *ngIf="selectedBooking.dateChangeRequest?.status === 'pending'"
+              >
+                <label>Customer Requested New Dates:</label>
+                <span
+                  >{{
+                    formatDate(
+                      selectedBooking.dateChangeRequest?.bookingDate ||
+                        selectedBooking.dateChangeRequest?.rentalStart
+                    )
+                  }}
+                  <ng-container
+                    *ngIf="selectedBooking.dateChangeRequest?.rentalEnd"
+                    >–
+                    {{
+                      formatDate(selectedBooking.dateChangeRequest?.rentalEnd)
+                    }}</ng-container
+                  >
+                  <ng-container
+                    *ngIf="selectedBooking.dateChangeRequest?.reason"
+                    >({{
+                      selectedBooking.dateChangeRequest?.reason
+                    }})</ng-container
+                  ></span
+                >
+                <div class="action-buttons" *ngIf="canEditBookings">
+                  <button
+                    class="btn-small btn-success"
+                    (click)="resolveDateChange(selectedBooking, 'approve')"
+                    [disabled]="isResolvingDateChange"
+                  >
+                    Approve
+                  </button>
+                  <button
+                    class="btn-small btn-warning"
+                    (click)="resolveDateChange(selectedBooking, 'decline')"
+                    [disabled]="isResolvingDateChange"
+                  >
+                    Decline
+                  </button>
+                </div>
+                <small *ngIf="dateChangeError" class="error-message">{{
+                  dateChangeError
+                }}</small>
+              </div>
+              <div class="detail-item" *ngIf="selectedBooking.pickup">
+                <label>Pickup:</label>
+                <span
+                  >{{ selectedBooking.pickup.time || "Time not set" }},
+                  {{
+                    selectedBooking.pickup.location || "location not set"
+                  }}</span
+                >
+              </div>
+              <div class="detail-item" *ngIf="selectedBooking.cancelledBy">
+                <label>Cancelled By:</label>
+                <span>{{ selectedBooking.cancelledBy }}</span>
+              </div>
               <div class="detail-item" *ngIf="selectedBooking.notes">
                 <label>Notes:</label>
                 <span>{{ selectedBooking.notes }}</span>
@@ -295,10 +669,27 @@ import { Booking, BookingStatus } from "../../models/booking.model";
                 }}</span>
               </div>
               <div class="detail-item" *ngIf="selectedBooking.paidAt">
-                <label>Paid At:</label>
+                <label>Paid In Full:</label>
                 <span>{{ formatDate(selectedBooking.paidAt) }}</span>
               </div>
             </div>
+
+            <app-payment-ledger
+              *appHasPermission="Permission.VIEW_PAYMENTS"
+              [booking]="selectedBooking"
+            ></app-payment-ledger>
+
+            <app-notification-status
+              [booking]="selectedBooking"
+            ></app-notification-status>
+
+            <app-booking-messages
+              [bookingId]="selectedBooking.id"
+            ></app-booking-messages>
+
+            <app-booking-history
+              [bookingId]="selectedBooking.id"
+            ></app-booking-history>
           </div>
         </div>
       </div>
@@ -309,13 +700,31 @@ import { Booking, BookingStatus } from "../../models/booking.model";
 export class AdminDashboardComponent implements OnInit, OnDestroy {
   isAuthenticated = false;
   currentUser: any = null;
+  // The current page of the bookings table
   bookings: Booking[] = [];
-  filteredBookings: Booking[] = [];
-  selectedStatus: string = "all";
+  bookingCounts: BookingCounts = { bookings: 0, byStatus: {} };
+  filters: BookingFilters = { ...DEFAULT_BOOKING_FILTERS };
+  serviceNames: string[] = [];
+  pageIndex = 0;
+  hasNextPage = false;
+  isLoadingBookings = false;
+  bookingsError = "";
   showDetailsModal = false;
   selectedBooking: Booking | null = null;
   isLoggingIn = false;
   loginError = "";
+  vehicles: Vehicle[] = [];
+  isAssigningVehicle = false;
+  vehicleError = "";
+  staff: StaffMember[] = [];
+  isAssigningStaff = false;
+  staffError = "";
+  isResolvingDateChange = false;
+  dateChangeError = "";
+  canEditBookings = false;
+  systemStatus: SystemStatus = DEFAULT_SYSTEM_STATUS;
+  isUpdatingMaintenance = false;
+  readonly Permission = Permission;
 
   loginData = {
     email: "",
@@ -324,16 +733,26 @@ export class AdminDashboardComponent implements OnInit, OnDestroy {
 
   statusFilters = [
     { value: "all", label: "All" },
-    { value: "pending", label: "Awaiting Follow-up" },
-    { value: "confirmed", label: "Confirmed" },
-    { value: "cancelled", label: "Cancelled" },
+    ...BOOKING_STATUSES.map((status) => ({
+      value: status,
+      label: this.getStatusLabel(status),
+    })),
   ];
 
   private subscriptions: Subscription[] = [];
+  private pageSubscription: Subscription | null = null;
+  // Cursor each page starts after; the first page starts at the beginning
+  private pageCursors: (BookingCursor | null)[] = [null];
+  private nextCursor: BookingCursor | null = null;
 
   constructor(
     private authService: AuthService,
     private bookingService: BookingService,
+    private fleetService: FleetService,
+    private permissionService: PermissionService,
+    private servicesService: ServicesService,
+    private staffService: StaffService,
+    private systemStatusService: SystemStatusService,
     private router: Router
   ) {}
 
@@ -352,10 +771,35 @@ export class AdminDashboardComponent implements OnInit, OnDestroy {
         this.currentUser = user;
       })
     );
+
+    // Drivers only see their own jobs
+    this.subscriptions.push(
+      this.permissionService.getPermissions().subscribe((result) => {
+        if (
+          result?.permissions.includes(Permission.VIEW_ASSIGNED_JOBS) &&
+          !result.permissions.includes(Permission.VIEW_BOOKINGS)
+        ) {
+          this.router.navigate(["/driver"]);
+        }
+      })
+    );
+
+    this.subscriptions.push(
+      this.permissionService
+        .hasPermission(Permission.EDIT_BOOKINGS)
+        .subscribe((allowed) => (this.canEditBookings = allowed))
+    );
+
+    this.subscriptions.push(
+      this.systemStatusService
+        .getStatus()
+        .subscribe((status) => (this.systemStatus = status))
+    );
   }
 
   ngOnDestroy() {
     this.subscriptions.forEach((sub) => sub.unsubscribe());
+    this.pageSubscription?.unsubscribe();
   }
 
   async login() {
@@ -384,63 +828,208 @@ export class AdminDashboardComponent implements OnInit, OnDestroy {
     }
   }
 
+  goToServices() {
+    this.router.navigate(["/admin/services"]);
+  }
+
+  goToStaff() {
+    this.router.navigate(["/admin/staff"]);
+  }
+
+  goToUsers() {
+    this.router.navigate(["/admin/users"]);
+  }
+
+  goToTemplates() {
+    this.router.navigate(["/admin/templates"]);
+  }
+
+  goToSchedule() {
+    this.router.navigate(["/admin/schedule"]);
+  }
+
+  goToAnalytics() {
+    this.router.navigate(["/admin/analytics"]);
+  }
+
+  async toggleMaintenanceMode() {
+    const enable = !this.systemStatus.maintenanceMode;
+    let message: string | undefined;
+    if (enable) {
+      const input = prompt(
+        "Message to show on the website (leave blank for the default):"
+      );
+      if (input === null) return;
+      message = input;
+    }
+
+    this.isUpdatingMaintenance = true;
+    try {
+      await this.systemStatusService.setMaintenanceMode(enable, message);
+    } catch (error: any) {
+      console.error("Error updating maintenance mode:", error);
+      alert(error.message || "Error updating maintenance mode.");
+    } finally {
+      this.isUpdatingMaintenance = false;
+    }
+  }
+
   loadBookings() {
+    this.loadPage();
     this.subscriptions.push(
-      this.bookingService.getBookings().subscribe((bookings) => {
-        this.bookings = bookings;
-        this.filterBookings();
+      this.servicesService.getAllServices().subscribe((services) => {
+        this.serviceNames = services.map((service) => service.name);
       })
     );
+    this.subscriptions.push(
+      this.bookingService.getBookingCounts().subscribe((counts) => {
+        this.bookingCounts = counts;
+      })
+    );
+    this.subscriptions.push(
+      this.fleetService.getActiveVehicles().subscribe((vehicles) => {
+        this.vehicles = vehicles;
+      })
+    );
+    this.subscriptions.push(
+      this.staffService.getActiveStaff().subscribe((staff) => {
+        this.staff = staff;
+      })
+    );
+  }
+
+  // Listen to the current page; it updates live like the rest of the dashboard
+  private loadPage() {
+    this.pageSubscription?.unsubscribe();
+    this.isLoadingBookings = true;
+    this.bookingsError = "";
+    this.pageSubscription = this.bookingService
+      .getBookingsPage(
+        this.filters,
+        BOOKINGS_PAGE_SIZE,
+        this.pageCursors[this.pageIndex]
+      )
+      .subscribe({
+        next: (page) => {
+          this.bookings = page.bookings;
+          this.nextCursor = page.cursor;
+          this.hasNextPage = page.hasMore;
+          this.isLoadingBookings = false;
+        },
+        error: (error) => {
+          console.error("Error loading bookings:", error);
+          this.bookings = [];
+          this.hasNextPage = false;
+          this.isLoadingBookings = false;
+          this.bookingsError =
+            error.message || "Error loading bookings. Please try again.";
+        },
+      });
+  }
+
+  // Any change of filter or sort order starts again from the first page
+  applyFilters() {
+    this.pageIndex = 0;
+    this.pageCursors = [null];
+    this.loadPage();
+  }
+
+  clearFilters() {
+    this.filters = { ...DEFAULT_BOOKING_FILTERS };
+    this.applyFilters();
+  }
+
+  nextPage() {
+    if (!this.hasNextPage || !this.nextCursor) return;
+    this.pageCursors[this.pageIndex + 1] = this.nextCursor;
+    this.pageIndex++;
+    this.loadPage();
+  }
+
+  previousPage() {
+    if (this.pageIndex === 0) return;
+    this.pageIndex--;
+    this.loadPage();
   }
 
   filterByStatus(status: string) {
-    this.selectedStatus = status;
-    this.filterBookings();
+    this.filters.status = status === "all" ? null : (status as BookingStatus);
+    this.applyFilters();
   }
 
-  filterBookings() {
-    if (this.selectedStatus === "all") {
-      this.filteredBookings = this.bookings;
+  // A service-date range can only be sorted by service date
+  get hasDateRange(): boolean {
+    return !!(this.filters.serviceDateFrom || this.filters.serviceDateTo);
+  }
+
+  sortBy(field: BookingSortField) {
+    if (this.filters.sortField === field) {
+      this.filters.sortDirection =
+        this.filters.sortDirection === "asc" ? "desc" : "asc";
     } else {
-      this.filteredBookings = this.bookings.filter(
-        (booking) => booking.status === this.selectedStatus
-      );
+      this.filters.sortField = field;
+      this.filters.sortDirection = field === "createdAt" ? "desc" : "asc";
     }
+    this.applyFilters();
   }
 
-  getBookingsByStatus(status: string): Booking[] {
-    if (status === "all") return this.bookings;
-    return this.bookings.filter((booking) => booking.status === status);
+  sortIndicator(field: BookingSortField): string {
+    const active = this.hasDateRange ? "serviceDate" : this.filters.sortField;
+    if (active !== field) return "";
+    return this.filters.sortDirection === "asc" ? "▲" : "▼";
   }
 
-  get totalBookings(): number {
-    return this.bookings.length;
+  // Counts come from the booking_stats counters, not the loaded bookings
+  statusCount(status: string): number {
+    if (status === "all") return this.bookingCounts.bookings;
+    return this.bookingCounts.byStatus[status as BookingStatus] || 0;
   }
 
-  get pendingBookings(): Booking[] {
-    return this.bookings.filter((booking) => booking.status === "pending");
+  getStatusLabel(status: BookingStatus): string {
+    if (status === "pending") return "Awaiting Follow-up";
+    return BOOKING_STATUS_LABELS[status] || status;
   }
 
-  get confirmedBookings(): Booking[] {
-    return this.bookings.filter((booking) => booking.status === "confirmed");
+  // A notification ran out of retries (see the details modal to retry it)
+  hasUndeliveredNotification(booking: Booking): boolean {
+    return Object.values(booking.notifications || {}).some(
+      (delivery) => delivery.status === "dead"
+    );
   }
 
-  get cancelledBookings(): Booking[] {
-    return this.bookings.filter((booking) => booking.status === "cancelled");
+  getNextStatuses(booking: Booking): BookingStatus[] {
+    // Deposits cannot be taken while the payments kill-switch is on
+    return nextStatuses(booking.status).filter(
+      (status) => this.systemStatus.paymentsEnabled || status !== "deposit_paid"
+    );
   }
 
-  getStatusLabel(status: BookingStatus): string {
-    const labels: { [key in BookingStatus]: string } = {
-      pending: "Awaiting Follow-up",
-      confirmed: "Confirmed",
-      cancelled: "Cancelled",
-    };
-    return labels[status] || status;
+  // Mirrors the check in the updateBookingStatus function
+  getStatusPermission(status: BookingStatus): Permission {
+    return status === "confirmed"
+      ? Permission.CONFIRM_BOOKINGS
+      : Permission.EDIT_BOOKINGS;
+  }
+
+  getActionLabel(status: BookingStatus): string {
+    return BOOKING_STATUS_ACTIONS[status] || status;
+  }
+
+  getActionClass(status: BookingStatus): string {
+    if (["cancelled", "no_show", "suspended"].includes(status)) {
+      return "btn-warning";
+    }
+    return status === "confirmed" || status === "completed"
+      ? "btn-success"
+      : "btn-secondary";
   }
 
   formatDate(date: Date | string | undefined): string {
     if (!date) return "-";
-    const d = new Date(date);
+    // Firestore returns Timestamps, which need converting before formatting
+    const value: any = date;
+    const d =
+      typeof value.toDate === "function" ? value.toDate() : new Date(value);
     if (isNaN(d.getTime())) return "-";
     return d.toLocaleDateString("en-US", {
       year: "numeric",
@@ -451,25 +1040,100 @@ export class AdminDashboardComponent implements OnInit, OnDestroy {
     });
   }
 
-  async markAsConfirmed(booking: Booking) {
+  async changeStatus(booking: Booking, status: BookingStatus) {
     if (!booking.id) return;
+    if (
+      (status === "cancelled" || status === "no_show") &&
+      !confirm(`Mark this booking as ${this.getStatusLabel(status)}?`)
+    ) {
+      return;
+    }
+
+    let pickup: PickupDetails | undefined;
+    if (status === "confirmed") {
+      // Sent to the customer with the confirmation; both can be left blank
+      const time = prompt(
+        "Pickup time (HH:MM), sent to the customer:",
+        booking.pickup?.time || ""
+      );
+      if (time === null) return;
+      const location = prompt(
+        "Pickup location, sent to the customer:",
+        booking.pickup?.location || ""
+      );
+      if (location === null) return;
+      pickup = { time: time.trim() || null, location: location.trim() || null };
+    }
 
     try {
-      await this.bookingService.updateBookingStatus(booking.id, "confirmed");
-    } catch (error) {
+      await this.bookingService.updateBookingStatus(booking.id, status, pickup);
+    } catch (error: any) {
       console.error("Error updating booking status:", error);
-      alert("Error updating booking status. Please try again.");
+      alert(
+        error.message || "Error updating booking status. Please try again."
+      );
     }
   }
 
-  async markAsCancelled(booking: Booking) {
+  async assignVehicle(booking: Booking, vehicleId: string) {
     if (!booking.id) return;
 
+    this.isAssigningVehicle = true;
+    this.vehicleError = "";
     try {
-      await this.bookingService.updateBookingStatus(booking.id, "cancelled");
-    } catch (error) {
-      console.error("Error cancelling booking:", error);
-      alert("Error cancelling booking. Please try again.");
+      await this.fleetService.assignVehicle(booking.id, vehicleId || null);
+      const vehicle = this.vehicles.find((v) => v.id === vehicleId);
+      booking.vehicleId = vehicle?.id || null;
+      booking.vehicleName = vehicle?.name || null;
+      booking.availabilityConflict = vehicle
+        ? false
+        : booking.availabilityConflict;
+    } catch (error: any) {
+      console.error("Error assigning vehicle:", error);
+      this.vehicleError =
+        error.message || "Error assigning vehicle. Please try again.";
+    } finally {
+      this.isAssigningVehicle = false;
+    }
+  }
+
+  async assignStaffMember(booking: Booking, staffId: string) {
+    if (!booking.id) return;
+
+    this.isAssigningStaff = true;
+    this.staffError = "";
+    try {
+      await this.staffService.assignStaff(booking.id, staffId || null);
+      const member = this.staff.find((s) => s.id === staffId);
+      booking.staffId = member?.id || null;
+      booking.staffName = member?.name || null;
+    } catch (error: any) {
+      console.error("Error assigning staff:", error);
+      this.staffError =
+        error.message || "Error assigning staff. Please try again.";
+    } finally {
+      this.isAssigningStaff = false;
+    }
+  }
+
+  async resolveDateChange(booking: Booking, action: "approve" | "decline") {
+    if (!booking.id || !booking.dateChangeRequest) return;
+
+    this.isResolvingDateChange = true;
+    this.dateChangeError = "";
+    try {
+      await this.bookingService.resolveDateChangeRequest(booking.id, action);
+      // The table row updates live; close the request here too
+      booking.dateChangeRequest = {
+        ...booking.dateChangeRequest,
+        status: action === "approve" ? "approved" : "declined",
+      };
+    } catch (error: any) {
+      console.error("Error resolving date change:", error);
+      this.dateChangeError =
+        error.message || "Error updating the booking dates. Please try again.";
+    } finally {
+      this.isResolvingDateChange = false;
     }
   }
 
@@ -505,5 +1169,8 @@ export class AdminDashboardComponent implements OnInit, OnDestroy {
   closeDetailsModal() {
     this.showDetailsModal = false;
     this.selectedBooking = null;
+    this.vehicleError = "";
+    this.staffError = "";
+    this.dateChangeError = "";
   }
 }
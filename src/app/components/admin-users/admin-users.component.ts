@@ -0,0 +1,448 @@
+import { Component, OnInit } from "@angular/core";
+import { CommonModule } from "@angular/common";
+import { FormsModule } from "@angular/forms";
+import { Router } from "@angular/router";
+import { AdminUsersService } from "../../services/admin-users.service";
+import { HasPermissionDirective } from "../../directives/has-permission.directive";
+import {
+  AdminInviteFormData,
+  AdminRole,
+  AdminUser,
+  Permission,
+  RoleAssignmentRequest,
+} from "../../models/permission.model";
+
+/**
+ * Admin screen for staff accounts: lists admins, invites new ones and files
+ * role requests, which Super Admins approve or reject inline.
+ */
+@Component({
+  selector: "app-admin-users",
+  standalone: true,
+  imports: [CommonModule, FormsModule, HasPermissionDirective],
+  template: `
+    <div class="admin-container">
+      <header class="admin-header">
+        <div class="container">
+          <div class="header-content">
+            <div class="logo">
+              <h1>Staff Accounts</h1>
+            </div>
+            <div class="header-actions">
+              <button class="btn-small btn-secondary" (click)="goBack()">
+                Back to Dashboard
+              </button>
+              <button
+                *appHasPermission="Permission.ASSIGN_ROLES"
+                class="btn-small btn-secondary"
+                (click)="refreshPermissions()"
+                [disabled]="isSaving"
+              >
+                Refresh Permissions
+              </button>
+              <button class="btn-small btn-info" (click)="startInvite()">
+                Invite Admin
+              </button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div class="dashboard-content">
+        <div class="container">
+          <div *ngIf="errorMessage" class="error-message">
+            {{ errorMessage }}
+          </div>
+          <div *ngIf="successMessage" class="success-message">
+            {{ successMessage }}
+          </div>
+
+          <!-- Pending role requests (Super Admins only) -->
+          <section
+            *appHasPermission="Permission.ASSIGN_ROLES"
+            class="requests-section"
+          >
+            <h2>Pending Role Requests</h2>
+            <p *ngIf="pendingRequests.length === 0" class="empty-note">
+              No requests waiting for approval.
+            </p>
+            <div *ngFor="let request of pendingRequests" class="request-card">
+              <div class="request-info">
+                <strong>{{ request.targetEmail || request.targetUid }}</strong>
+                <span>
+                  as {{ roleLabels[request.role] || request.role }}, requested
+                  by {{ userLabel(request.requestedBy) }}
+                </span>
+                <p>{{ request.businessJustification }}</p>
+              </div>
+              <div class="action-buttons">
+                <button
+                  class="btn-small btn-success"
+                  (click)="resolveRequest(request, 'approve')"
+                  [disabled]="isSaving"
+                >
+                  Approve
+                </button>
+                <button
+                  class="btn-small btn-warning"
+                  (click)="resolveRequest(request, 'reject')"
+                  [disabled]="isSaving"
+                >
+                  Reject
+                </button>
+              </div>
+            </div>
+          </section>
+
+          <div class="users-table" *ngIf="users.length > 0">
+            <div class="table-header">
+              <div class="col">Admin</div>
+              <div class="col">Role</div>
+              <div class="col">Last Sign-in</div>
+              <div class="col">Actions</div>
+            </div>
+            <div *ngFor="let user of users" class="table-row">
+              <div class="col">
+                <div class="user-info">
+                  <strong>{{ user.displayName || user.email }}</strong>
+                  <span *ngIf="user.displayName">{{ user.email }}</span>
+                </div>
+              </div>
+              <div class="col">
+                <span class="role-badge">{{
+                  user.role ? roleLabels[user.role] : "No role"
+                }}</span>
+              </div>
+              <div class="col">{{ formatDate(user.lastSignIn) }}</div>
+              <div class="col">
+                <div class="action-buttons">
+                  <button
+                    class="btn-small btn-info"
+                    (click)="startRoleRequest(user)"
+                  >
+                    Request Role Change
+                  </button>
+                  <button
+                    *appHasPermission="Permission.ASSIGN_ROLES"
+                    class="btn-small btn-warning"
+                    (click)="removeAccess(user)"
+                    [disabled]="isSaving"
+                  >
+                    Remove Access
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+          <p *ngIf="!loading && users.length === 0" class="empty-note">
+            No admin users found.
+          </p>
+        </div>
+      </div>
+
+      <!-- Invite / Role Request Modal -->
+      <div *ngIf="showForm" class="modal-overlay" (click)="closeForm()">
+        <div class="modal" (click)="$event.stopPropagation()">
+          <div class="modal-header">
+            <h3>
+              {{
+                roleRequestUser
+                  ? "Request Role for " +
+                    (roleRequestUser.email || roleRequestUser.uid)
+                  : "Invite Admin"
+              }}
+            </h3>
+            <button class="close-btn" (click)="closeForm()">&times;</button>
+          </div>
+          <div class="modal-body">
+            <form (ngSubmit)="submitForm()" #userForm="ngForm" novalidate>
+              <ng-container *ngIf="!roleRequestUser">
+                <div class="form-group">
+                  <label for="email">Email *</label>
+                  <input
+                    id="email"
+                    name="email"
+                    type="email"
+                    class="form-input"
+                    [(ngModel)]="formData.email"
+                    required
+                    email
+                  />
+                </div>
+                <div class="form-group">
+                  <label for="displayName">Name</label>
+                  <input
+                    id="displayName"
+                    name="displayName"
+                    class="form-input"
+                    [(ngModel)]="formData.displayName"
+                  />
+                </div>
+              </ng-container>
+              <div class="form-group">
+                <label for="role">Role *</label>
+                <select
+                  id="role"
+                  name="role"
+                  class="form-input"
+                  [(ngModel)]="formData.role"
+                  required
+                >
+                  <option *ngFor="let role of roles" [value]="role">
+                    {{ roleLabels[role] }}
+                  </option>
+                </select>
+              </div>
+              <div class="form-group">
+                <label for="businessJustification"
+                  >Business Justification *</label
+                >
+                <textarea
+                  id="businessJustification"
+                  name="businessJustification"
+                  class="form-input"
+                  rows="3"
+                  [(ngModel)]="formData.businessJustification"
+                  required
+                  minlength="10"
+                ></textarea>
+              </div>
+              <button
+                type="submit"
+                class="btn-primary"
+                [disabled]="!userForm.valid || isSaving"
+              >
+                {{ isSaving ? "Submitting..." : "Submit for Approval" }}
+              </button>
+            </form>
+          </div>
+        </div>
+      </div>
+    </div>
+  `,
+  styleUrls: [
+    "../admin-dashboard/admin-dashboard.component.scss",
+    "./admin-users.component.scss",
+  ],
+})
+export class AdminUsersComponent implements OnInit {
+  users: AdminUser[] = [];
+  pendingRequests: RoleAssignmentRequest[] = [];
+  loading = true;
+  isSaving = false;
+  errorMessage = "";
+  successMessage = "";
+  showForm = false;
+  roleRequestUser: AdminUser | null = null;
+  formData: AdminInviteFormData = this.emptyForm();
+  readonly Permission = Permission;
+
+  roles: AdminRole[] = [
+    AdminRole.DRIVER,
+    AdminRole.VIEWER,
+    AdminRole.MANAGER,
+    AdminRole.ADMIN,
+    AdminRole.SUPER_ADMIN,
+  ];
+  roleLabels: Record<AdminRole, string> = {
+    [AdminRole.SUPER_ADMIN]: "Super Admin",
+    [AdminRole.ADMIN]: "Admin",
+    [AdminRole.MANAGER]: "Manager",
+    [AdminRole.VIEWER]: "Viewer",
+    [AdminRole.DRIVER]: "Driver",
+  };
+
+  constructor(
+    private adminUsersService: AdminUsersService,
+    private router: Router
+  ) {}
+
+  ngOnInit() {
+    this.loadUsers();
+    this.loadPendingRequests();
+  }
+
+  goBack() {
+    this.router.navigate(["/admin"]);
+  }
+
+  async loadUsers() {
+    this.loading = true;
+    try {
+      this.users = await this.adminUsersService.listAdminUsers();
+    } catch (error: any) {
+      console.error("Error loading admin users:", error);
+      this.errorMessage = error.message || "Error loading admin users.";
+    } finally {
+      this.loading = false;
+    }
+  }
+
+  async loadPendingRequests() {
+    try {
+      this.pendingRequests =
+        await this.adminUsersService.getPendingRoleRequests();
+    } catch (error) {
+      // Only designated Super Admins can read requests; others see none
+      this.pendingRequests = [];
+    }
+  }
+
+  userLabel(uid: string): string {
+    const user = this.users.find((u) => u.uid === uid);
+    return user?.email || uid;
+  }
+
+  startInvite() {
+    this.roleRequestUser = null;
+    this.openForm();
+  }
+
+  startRoleRequest(user: AdminUser) {
+    this.roleRequestUser = user;
+    this.openForm();
+    if (user.role) {
+      this.formData.role = user.role;
+    }
+  }
+
+  closeForm() {
+    this.showForm = false;
+    this.roleRequestUser = null;
+  }
+
+  async submitForm() {
+    this.isSaving = true;
+    this.errorMessage = "";
+    this.successMessage = "";
+
+    try {
+      const justification = this.formData.businessJustification.trim();
+      if (this.roleRequestUser) {
+        await this.adminUsersService.requestRoleAssignment(
+          this.roleRequestUser.uid,
+          this.formData.role,
+          justification
+        );
+        this.successMessage = "Role request submitted for approval.";
+        this.closeForm();
+      } else {
+        const email = this.formData.email.trim();
+        await this.adminUsersService.inviteAdminUser({
+          ...this.formData,
+          email,
+          displayName: this.formData.displayName.trim(),
+          businessJustification: justification,
+        });
+        this.successMessage = `Invitation emailed to ${email}. Their role applies once a Super Admin approves the request.`;
+        this.closeForm();
+        this.loadUsers();
+      }
+      this.loadPendingRequests();
+    } catch (error: any) {
+      console.error("Error submitting admin request:", error);
+      this.errorMessage =
+        error.message || "Error submitting request. Please try again.";
+      this.closeForm();
+    } finally {
+      this.isSaving = false;
+    }
+  }
+
+  async resolveRequest(
+    request: RoleAssignmentRequest,
+    action: "approve" | "reject"
+  ) {
+    const reason =
+      action === "reject"
+        ? prompt("Reason for rejecting this request?") || undefined
+        : undefined;
+
+    this.isSaving = true;
+    this.errorMessage = "";
+    try {
+      await this.adminUsersService.resolveRoleRequest(
+        request.id,
+        action,
+        reason
+      );
+      this.successMessage =
+        action === "approve"
+          ? "Role request approved."
+          : "Role request rejected.";
+      await Promise.all([this.loadUsers(), this.loadPendingRequests()]);
+    } catch (error: any) {
+      console.error("Error resolving role request:", error);
+      this.errorMessage =
+        error.message || "Error updating the request. Please try again.";
+    } finally {
+      this.isSaving = false;
+    }
+  }
+
+  async removeAccess(user: AdminUser) {
+    if (!confirm(`Remove admin access for ${user.email || user.uid}?`)) return;
+
+    this.isSaving = true;
+    this.errorMessage = "";
+    try {
+      await this.adminUsersService.removeAdminRole(user.uid);
+      this.successMessage = "Admin access removed.";
+      await this.loadUsers();
+    } catch (error: any) {
+      console.error("Error removing admin access:", error);
+      this.errorMessage =
+        error.message || "Error removing access. Please try again.";
+    } finally {
+      this.isSaving = false;
+    }
+  }
+
+  async refreshPermissions() {
+    this.isSaving = true;
+    this.errorMessage = "";
+    this.successMessage = "";
+    try {
+      const result = await this.adminUsersService.refreshAdminPermissions();
+      this.successMessage =
+        `Permissions updated for ${result.updated} admin(s).` +
+        (result.withoutRole.length
+          ? ` ${result.withoutRole.length} admin(s) have no role; assign them one.`
+          : "");
+      await this.loadUsers();
+    } catch (error: any) {
+      console.error("Error refreshing permissions:", error);
+      this.errorMessage =
+        error.message || "Error refreshing permissions. Please try again.";
+    } finally {
+      this.isSaving = false;
+    }
+  }
+
+  formatDate(date: string | undefined): string {
+    if (!date) return "Never";
+    const d = new Date(date);
+    if (isNaN(d.getTime())) return "-";
+    return d.toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  }
+
+  private openForm() {
+    this.formData = this.emptyForm();
+    this.showForm = true;
+  }
+
+  private emptyForm(): AdminInviteFormData {
+    return {
+      email: "",
+      displayName: "",
+      role: AdminRole.VIEWER,
+      businessJustification: "",
+    };
+  }
+}
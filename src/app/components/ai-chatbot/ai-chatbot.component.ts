@@ -84,7 +84,10 @@ export class AiChatbotComponent {
     if (!text) return;
     this.messages.push({ role: "user", text });
     this.draft = "";
-    const phone = environment.ownerWhatsAppNumber || "";
+    const phone =
+      environment.whatsAppBusinessNumber ||
+      environment.ownerWhatsAppNumber ||
+      "";
     const msg = encodeURIComponent(text);
     const url = phone
       ? `https://wa.me/${phone}?text=${msg}`
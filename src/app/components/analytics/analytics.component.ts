@@ -0,0 +1,402 @@
+import { Component, OnInit } from "@angular/core";
+import { CommonModule } from "@angular/common";
+import { FormsModule } from "@angular/forms";
+import { Router } from "@angular/router";
+import { AnalyticsService } from "../../services/analytics.service";
+import {
+  AnalyticsGranularity,
+  AnalyticsPeriod,
+  BookingAnalytics,
+} from "../../models/analytics.model";
+import { BookingStatus } from "../../models/booking.model";
+import {
+  BOOKING_STATUS_LABELS,
+  BOOKING_STATUSES,
+} from "../../utils/booking-status";
+
+interface RangePreset {
+  label: string;
+  days: number;
+}
+
+/**
+ * Booking trends and revenue for a date range. Figures are aggregated by
+ * the getBookingAnalytics function and cover the bookings made in the
+ * range.
+ */
+@Component({
+  selector: "app-analytics",
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="admin-container">
+      <header class="admin-header">
+        <div class="container">
+          <div class="header-content">
+            <div class="logo">
+              <h1>Analytics</h1>
+            </div>
+            <div class="header-actions">
+              <button class="btn-small btn-secondary" (click)="goBack()">
+                Back to Dashboard
+              </button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div class="dashboard-content">
+        <div class="container">
+          <form class="range-controls" (ngSubmit)="load()">
+            <div class="form-group">
+              <label for="from">From</label>
+              <input
+                id="from"
+                name="from"
+                type="date"
+                class="form-input"
+                [(ngModel)]="from"
+                [max]="to"
+                required
+              />
+            </div>
+            <div class="form-group">
+              <label for="to">To</label>
+              <input
+                id="to"
+                name="to"
+                type="date"
+                class="form-input"
+                [(ngModel)]="to"
+                [min]="from"
+                required
+              />
+            </div>
+            <div class="form-group">
+              <label for="granularity">Group by</label>
+              <select
+                id="granularity"
+                name="granularity"
+                class="form-input"
+                [(ngModel)]="granularity"
+              >
+                <option value="">Automatic</option>
+                <option value="day">Day</option>
+                <option value="week">Week</option>
+                <option value="month">Month</option>
+              </select>
+            </div>
+            <button type="submit" class="btn-small" [disabled]="loading">
+              {{ loading ? "Loading..." : "Apply" }}
+            </button>
+            <div class="range-presets">
+              <button
+                *ngFor="let preset of presets"
+                type="button"
+                class="tab-btn"
+                (click)="applyPreset(preset)"
+              >
+                {{ preset.label }}
+              </button>
+            </div>
+          </form>
+
+          <div *ngIf="errorMessage" class="error-message">
+            {{ errorMessage }}
+          </div>
+
+          <ng-container *ngIf="analytics as data">
+            <div class="stats-grid">
+              <div class="stat-card">
+                <div class="stat-icon">📋</div>
+                <div class="stat-content">
+                  <h3>{{ data.totals.bookings }}</h3>
+                  <p>Bookings</p>
+                </div>
+              </div>
+              <div class="stat-card">
+                <div class="stat-icon">✅</div>
+                <div class="stat-content">
+                  <h3>{{ data.totals.conversionRate | percent : "1.0-1" }}</h3>
+                  <p>Confirmed ({{ data.totals.confirmed }})</p>
+                </div>
+              </div>
+              <div class="stat-card">
+                <div class="stat-icon">❌</div>
+                <div class="stat-content">
+                  <h3>
+                    {{ data.totals.cancellationRate | percent : "1.0-1" }}
+                  </h3>
+                  <p>Cancelled ({{ data.totals.cancelled }})</p>
+                </div>
+              </div>
+              <div class="stat-card">
+                <div class="stat-icon">💰</div>
+                <div class="stat-content">
+                  <h3>{{ data.totals.revenue | number : "1.0-0" }}</h3>
+                  <p>Revenue ({{ data.currency }})</p>
+                </div>
+              </div>
+            </div>
+
+            <section class="analytics-panel">
+              <h3>Bookings per {{ data.granularity }}</h3>
+              <div class="bar-chart">
+                <div
+                  *ngFor="let period of data.overTime"
+                  class="bar-column"
+                  [title]="periodTitle(period, data.currency)"
+                >
+                  <div class="bar-track">
+                    <div
+                      class="bar bar-bookings"
+                      [style.height.%]="barHeight(period.bookings, maxBookings)"
+                    >
+                      <div
+                        class="bar-confirmed"
+                        [style.height.%]="
+                          barHeight(period.confirmed, period.bookings)
+                        "
+                      ></div>
+                    </div>
+                  </div>
+                  <span class="bar-label">{{
+                    periodLabel(period.period, data.granularity)
+                  }}</span>
+                </div>
+              </div>
+              <p class="chart-legend">
+                <span class="legend-swatch bar-bookings"></span> Bookings
+                <span class="legend-swatch bar-confirmed"></span> Confirmed
+              </p>
+            </section>
+
+            <div class="analytics-columns">
+              <section class="analytics-panel">
+                <h3>Revenue per month</h3>
+                <div class="bar-chart">
+                  <div
+                    *ngFor="let month of data.revenueByMonth"
+                    class="bar-column"
+                    [title]="periodTitle(month, data.currency)"
+                  >
+                    <div class="bar-track">
+                      <div
+                        class="bar bar-revenue"
+                        [style.height.%]="barHeight(month.revenue, maxRevenue)"
+                      ></div>
+                    </div>
+                    <span class="bar-label">{{
+                      periodLabel(month.period, "month")
+                    }}</span>
+                  </div>
+                </div>
+              </section>
+
+              <section class="analytics-panel">
+                <h3>Lead time</h3>
+                <p class="lead-time-summary">
+                  Average
+                  <strong>{{ formatDays(data.leadTime.averageDays) }}</strong>
+                  · median
+                  <strong>{{ formatDays(data.leadTime.medianDays) }}</strong>
+                  between booking and service date
+                </p>
+                <ul class="bar-list">
+                  <li *ngFor="let bucket of data.leadTime.buckets">
+                    <span class="bar-list-label">{{ bucket.label }}</span>
+                    <span class="bar-list-track">
+                      <span
+                        class="bar-list-fill"
+                        [style.width.%]="
+                          barHeight(bucket.count, data.totals.bookings)
+                        "
+                      ></span>
+                    </span>
+                    <span class="bar-list-value">{{ bucket.count }}</span>
+                  </li>
+                </ul>
+              </section>
+            </div>
+
+            <div class="analytics-columns">
+              <section class="analytics-panel">
+                <h3>Revenue per service</h3>
+                <div
+                  *ngIf="data.revenueByService.length === 0"
+                  class="empty-note"
+                >
+                  No bookings in this range.
+                </div>
+                <table
+                  *ngIf="data.revenueByService.length > 0"
+                  class="analytics-table"
+                >
+                  <thead>
+                    <tr>
+                      <th>Service</th>
+                      <th>Bookings</th>
+                      <th>Revenue ({{ data.currency }})</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    <tr *ngFor="let service of data.revenueByService">
+                      <td>{{ service.serviceName }}</td>
+                      <td>{{ service.bookings }}</td>
+                      <td>{{ service.revenue | number : "1.0-0" }}</td>
+                    </tr>
+                  </tbody>
+                </table>
+              </section>
+
+              <section class="analytics-panel">
+                <h3>Current status</h3>
+                <ul class="bar-list">
+                  <li *ngFor="let status of statuses">
+                    <span class="bar-list-label">{{
+                      statusLabels[status]
+                    }}</span>
+                    <span class="bar-list-track">
+                      <span
+                        class="bar-list-fill"
+                        [style.width.%]="
+                          barHeight(
+                            data.statusCounts[status] || 0,
+                            data.totals.bookings
+                          )
+                        "
+                      ></span>
+                    </span>
+                    <span class="bar-list-value">{{
+                      data.statusCounts[status] || 0
+                    }}</span>
+                  </li>
+                </ul>
+              </section>
+            </div>
+          </ng-container>
+        </div>
+      </div>
+    </div>
+  `,
+  styleUrls: [
+    "../admin-dashboard/admin-dashboard.component.scss",
+    "./analytics.component.scss",
+  ],
+})
+export class AnalyticsComponent implements OnInit {
+  from = "";
+  to = "";
+  granularity: AnalyticsGranularity | "" = "";
+  analytics: BookingAnalytics | null = null;
+  loading = false;
+  errorMessage = "";
+
+  readonly statuses: BookingStatus[] = BOOKING_STATUSES;
+  readonly statusLabels = BOOKING_STATUS_LABELS;
+  readonly presets: RangePreset[] = [
+    { label: "Last 7 days", days: 7 },
+    { label: "Last 30 days", days: 30 },
+    { label: "Last 90 days", days: 90 },
+    { label: "Last 12 months", days: 365 },
+  ];
+
+  constructor(
+    private analyticsService: AnalyticsService,
+    private router: Router
+  ) {}
+
+  ngOnInit() {
+    this.applyPreset(this.presets[1]);
+  }
+
+  get maxBookings(): number {
+    return Math.max(
+      0,
+      ...(this.analytics?.overTime || []).map((p) => p.bookings)
+    );
+  }
+
+  get maxRevenue(): number {
+    return Math.max(
+      0,
+      ...(this.analytics?.revenueByMonth || []).map((p) => p.revenue)
+    );
+  }
+
+  goBack() {
+    this.router.navigate(["/admin"]);
+  }
+
+  // Today in Mauritius, as yyyy-mm-dd
+  private today(): Date {
+    return new Date(
+      new Date().toLocaleDateString("en-CA", { timeZone: "Indian/Mauritius" })
+    );
+  }
+
+  private toDateInput(date: Date): string {
+    return date.toISOString().split("T")[0];
+  }
+
+  applyPreset(preset: RangePreset) {
+    const today = this.today();
+    this.to = this.toDateInput(today);
+    this.from = this.toDateInput(
+      new Date(today.getTime() - (preset.days - 1) * 24 * 60 * 60 * 1000)
+    );
+    this.load();
+  }
+
+  async load() {
+    if (!this.from || !this.to) {
+      this.errorMessage = "Please choose a start and end date.";
+      return;
+    }
+
+    this.loading = true;
+    this.errorMessage = "";
+    try {
+      this.analytics = await this.analyticsService.getBookingAnalytics(
+        this.from,
+        this.to,
+        this.granularity || undefined
+      );
+    } catch (error: any) {
+      console.error("Error loading analytics:", error);
+      this.errorMessage = error.message || "Error loading analytics.";
+    } finally {
+      this.loading = false;
+    }
+  }
+
+  barHeight(value: number, max: number): number {
+    return max > 0 ? (value / max) * 100 : 0;
+  }
+
+  periodLabel(period: string, granularity: AnalyticsGranularity): string {
+    const date = new Date(
+      granularity === "month" ? `${period}-01T00:00:00Z` : `${period}T00:00:00Z`
+    );
+    return date.toLocaleDateString(
+      "en-US",
+      granularity === "month"
+        ? { month: "short", year: "2-digit", timeZone: "UTC" }
+        : { month: "short", day: "numeric", timeZone: "UTC" }
+    );
+  }
+
+  periodTitle(period: AnalyticsPeriod, currency: string): string {
+    return (
+      `${period.period}: ${period.bookings} bookings, ` +
+      `${period.confirmed} confirmed, ${period.cancelled} cancelled, ` +
+      `${currency} ${period.revenue.toLocaleString("en-US")}`
+    );
+  }
+
+  formatDays(days: number | null): string {
+    if (days === null) return "-";
+    const rounded = Math.round(days * 10) / 10;
+    return `${rounded} ${rounded === 1 ? "day" : "days"}`;
+  }
+}
@@ -0,0 +1,122 @@
+import { Component, Input, OnChanges, OnDestroy } from "@angular/core";
+import { CommonModule } from "@angular/common";
+import { Subscription } from "rxjs";
+import { BookingService } from "../../services/booking.service";
+import { BookingHistoryEntry, BookingStatus } from "../../models/booking.model";
+import { BOOKING_STATUS_LABELS } from "../../utils/booking-status";
+
+// Written alongside a status change, so listing them adds nothing
+const HIDDEN_FIELDS = ["statusTimestamps", "statusChangedBy"];
+
+/**
+ * Timeline of every change to a booking, shown in the dashboard details
+ * modal. Entries are recorded by the recordBookingHistory function.
+ */
+@Component({
+  selector: "app-booking-history",
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div class="history">
+      <h4>History</h4>
+      <div *ngIf="entries.length === 0" class="history-empty">
+        No changes recorded yet.
+      </div>
+      <ol *ngIf="entries.length > 0" class="timeline">
+        <li *ngFor="let entry of entries">
+          <div class="timeline-header">
+            <strong>{{ typeLabels[entry.type] }}</strong>
+            <span class="source-badge" [ngClass]="'source-' + entry.source">
+              {{ sourceLabels[entry.source] }}
+            </span>
+            <span class="timeline-meta">
+              {{ entry.actor ? "by " + entry.actor + " · " : ""
+              }}{{ formatDate(entry.at) }}
+            </span>
+          </div>
+          <ul *ngIf="visibleChanges(entry).length > 0" class="timeline-changes">
+            <li *ngFor="let change of visibleChanges(entry)">
+              <span class="change-field">{{ change.field }}</span>
+              <span class="change-before">{{
+                formatValue(change.field, change.before)
+              }}</span>
+              &rarr;
+              <span>{{ formatValue(change.field, change.after) }}</span>
+            </li>
+          </ul>
+        </li>
+      </ol>
+    </div>
+  `,
+  styleUrls: ["./booking-history.component.scss"],
+})
+export class BookingHistoryComponent implements OnChanges, OnDestroy {
+  @Input() bookingId?: string;
+
+  entries: BookingHistoryEntry[] = [];
+
+  typeLabels: Record<BookingHistoryEntry["type"], string> = {
+    created: "Booking created",
+    updated: "Booking updated",
+    deleted: "Booking deleted",
+  };
+  sourceLabels: Record<BookingHistoryEntry["source"], string> = {
+    dashboard: "Dashboard",
+    function: "System",
+    emergency: "Emergency",
+    customer: "Customer",
+    unknown: "Unknown",
+  };
+
+  private subscription?: Subscription;
+
+  constructor(private bookingService: BookingService) {}
+
+  ngOnChanges() {
+    this.subscription?.unsubscribe();
+    this.entries = [];
+    if (this.bookingId) {
+      this.subscription = this.bookingService
+        .getBookingHistory(this.bookingId)
+        .subscribe((entries) => (this.entries = entries));
+    }
+  }
+
+  ngOnDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  visibleChanges(entry: BookingHistoryEntry) {
+    return (entry.changes || []).filter(
+      (change) => !HIDDEN_FIELDS.includes(change.field)
+    );
+  }
+
+  formatValue(field: string, value: any): string {
+    if (value === null || value === undefined || value === "") return "-";
+    if (field === "status") {
+      return BOOKING_STATUS_LABELS[value as BookingStatus] || value;
+    }
+    if (typeof value.toDate === "function") {
+      return this.formatDate(value);
+    }
+    if (typeof value === "object") {
+      return JSON.stringify(value);
+    }
+    return String(value);
+  }
+
+  formatDate(date: Date | undefined): string {
+    if (!date) return "-";
+    const value: any = date;
+    const d =
+      typeof value.toDate === "function" ? value.toDate() : new Date(value);
+    return d.toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  }
+}
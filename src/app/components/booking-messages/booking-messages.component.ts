@@ -0,0 +1,89 @@
+import { Component, Input, OnChanges, OnDestroy } from "@angular/core";
+import { CommonModule } from "@angular/common";
+import { Subscription } from "rxjs";
+import { BookingService } from "../../services/booking.service";
+import { BookingMessage } from "../../models/booking.model";
+
+/**
+ * WhatsApp conversation with the customer, shown in the dashboard details
+ * modal. Messages we sent and the customer's replies are recorded by the
+ * Cloud API sender and the whatsappWebhook function.
+ */
+@Component({
+  selector: "app-booking-messages",
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div class="messages">
+      <h4>WhatsApp</h4>
+      <div *ngIf="messages.length === 0" class="messages-empty">
+        No WhatsApp messages for this booking.
+      </div>
+      <ol *ngIf="messages.length > 0" class="message-thread">
+        <li
+          *ngFor="let message of messages"
+          class="message"
+          [ngClass]="'message-' + message.direction"
+        >
+          <div class="message-body">{{ message.body }}</div>
+          <div class="message-meta">
+            {{
+              message.direction === "inbound"
+                ? message.contactName || message.phone
+                : "Shanal Tours"
+            }}
+            · {{ formatDate(message.sentAt) }}
+            <span *ngIf="message.template">· template</span>
+            <span *ngIf="message.status">
+              · {{ statusLabels[message.status] }}</span
+            >
+          </div>
+        </li>
+      </ol>
+    </div>
+  `,
+  styleUrls: ["./booking-messages.component.scss"],
+})
+export class BookingMessagesComponent implements OnChanges, OnDestroy {
+  @Input() bookingId?: string;
+
+  messages: BookingMessage[] = [];
+
+  statusLabels: Record<NonNullable<BookingMessage["status"]>, string> = {
+    sent: "Sent",
+    delivered: "Delivered",
+    read: "Read",
+    failed: "Not delivered",
+  };
+
+  private subscription?: Subscription;
+
+  constructor(private bookingService: BookingService) {}
+
+  ngOnChanges() {
+    this.subscription?.unsubscribe();
+    this.messages = [];
+    if (this.bookingId) {
+      this.subscription = this.bookingService
+        .getBookingMessages(this.bookingId)
+        .subscribe((messages) => (this.messages = messages));
+    }
+  }
+
+  ngOnDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  formatDate(date: Date | undefined): string {
+    if (!date) return "-";
+    const value: any = date;
+    const d =
+      typeof value.toDate === "function" ? value.toDate() : new Date(value);
+    return d.toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  }
+}
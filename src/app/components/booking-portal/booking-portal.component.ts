@@ -0,0 +1,442 @@
+import { Component, OnInit } from "@angular/core";
+import { CommonModule } from "@angular/common";
+import { FormsModule } from "@angular/forms";
+import { ActivatedRoute, Router } from "@angular/router";
+import { CustomerPortalService } from "../../services/customer-portal.service";
+import { BookingStatus, CustomerBookingView } from "../../models/booking.model";
+import { todayKey } from "../../utils/schedule";
+
+/**
+ * Customer self-service page for a single booking. Access comes from the
+ * signed link in the confirmation email, or from a one-time code sent to the
+ * phone number used when booking.
+ */
+@Component({
+  selector: "app-booking-portal",
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="portal-container">
+      <div class="portal-card">
+        <div class="portal-header">
+          <h1>Your Booking</h1>
+          <p class="booking-ref">Reference {{ bookingId }}</p>
+        </div>
+
+        <div *ngIf="errorMessage" class="error-message">{{ errorMessage }}</div>
+        <div *ngIf="successMessage" class="success-message">
+          {{ successMessage }}
+        </div>
+
+        <div *ngIf="loading" class="loading">Loading...</div>
+
+        <!-- Verification -->
+        <div *ngIf="!loading && !booking" class="verify-section">
+          <form *ngIf="!codeSent" (ngSubmit)="requestCode()" novalidate>
+            <p>Enter the phone number you used when booking.</p>
+            <div class="form-group">
+              <label for="phone">Phone Number</label>
+              <input
+                type="tel"
+                id="phone"
+                name="phone"
+                class="form-input"
+                [(ngModel)]="phone"
+                placeholder="+230 5707 1414"
+                required
+              />
+            </div>
+            <button
+              type="submit"
+              class="btn-primary"
+              [disabled]="!phone.trim() || isBusy"
+            >
+              {{ isBusy ? "Sending..." : "Send verification code" }}
+            </button>
+          </form>
+
+          <form *ngIf="codeSent" (ngSubmit)="verifyCode()" novalidate>
+            <p>We sent a 6-digit code by {{ codeChannel }}.</p>
+            <div class="form-group">
+              <label for="code">Verification Code</label>
+              <input
+                type="text"
+                id="code"
+                name="code"
+                class="form-input"
+                inputmode="numeric"
+                maxlength="6"
+                [(ngModel)]="code"
+                required
+              />
+            </div>
+            <button
+              type="submit"
+              class="btn-primary"
+              [disabled]="code.trim().length !== 6 || isBusy"
+            >
+              {{ isBusy ? "Verifying..." : "Verify" }}
+            </button>
+            <button
+              type="button"
+              class="btn-link"
+              (click)="codeSent = false"
+              [disabled]="isBusy"
+            >
+              Use a different number
+            </button>
+          </form>
+        </div>
+
+        <!-- Booking details -->
+        <div *ngIf="booking" class="booking-section">
+          <div class="details-grid">
+            <div class="detail-item">
+              <label>Service</label>
+              <span>{{ booking.serviceName }}</span>
+            </div>
+            <div class="detail-item">
+              <label>Status</label>
+              <span class="status-badge" [ngClass]="'status-' + booking.status">
+                {{ getStatusLabel(booking.status) }}
+              </span>
+            </div>
+            <div class="detail-item" *ngIf="booking.bookingDate">
+              <label>Date</label>
+              <span>{{ booking.bookingDate | date : "mediumDate" }}</span>
+            </div>
+            <div class="detail-item" *ngIf="booking.rentalStart">
+              <label>Rental Period</label>
+              <span
+                >{{ booking.rentalStart | date : "mediumDate" }} –
+                {{ booking.rentalEnd | date : "mediumDate" }}</span
+              >
+            </div>
+            <div class="detail-item" *ngIf="booking.quote">
+              <label>Quoted Price</label>
+              <span
+                >{{ booking.quote.currency }}
+                {{ booking.quote.total | number : "1.0-0" }}</span
+              >
+            </div>
+            <div class="detail-item" *ngIf="booking.notes">
+              <label>Notes</label>
+              <span>{{ booking.notes }}</span>
+            </div>
+            <div
+              class="detail-item"
+              *ngIf="booking.dateChangeRequest?.status === 'pending'"
+            >
+              <label>Date Change Requested</label>
+              <span
+                >{{
+                  booking.dateChangeRequest?.bookingDate ||
+                    booking.dateChangeRequest?.rentalStart | date : "mediumDate"
+                }}
+                <ng-container *ngIf="booking.dateChangeRequest?.rentalEnd">
+                  –
+                  {{
+                    booking.dateChangeRequest?.rentalEnd | date : "mediumDate"
+                  }}
+                </ng-container>
+                (awaiting our confirmation)</span
+              >
+            </div>
+          </div>
+
+          <div *ngIf="booking.canModify" class="actions-section">
+            <p class="deadline" *ngIf="booking.changeDeadline">
+              Online changes are possible until
+              {{ booking.changeDeadline | date : "medium" }}.
+            </p>
+
+            <form
+              *ngIf="showDateChange"
+              (ngSubmit)="submitDateChange()"
+              novalidate
+            >
+              <div class="form-row" *ngIf="isRental; else singleDate">
+                <div class="form-group">
+                  <label for="rentalStart">New Start Date</label>
+                  <input
+                    type="date"
+                    id="rentalStart"
+                    name="rentalStart"
+                    class="form-input"
+                    [min]="today"
+                    [(ngModel)]="dateChange.rentalStart"
+                    required
+                  />
+                </div>
+                <div class="form-group">
+                  <label for="rentalEnd">New End Date</label>
+                  <input
+                    type="date"
+                    id="rentalEnd"
+                    name="rentalEnd"
+                    class="form-input"
+                    [min]="dateChange.rentalStart || today"
+                    [(ngModel)]="dateChange.rentalEnd"
+                    required
+                  />
+                </div>
+              </div>
+              <ng-template #singleDate>
+                <div class="form-group">
+                  <label for="bookingDate">New Date</label>
+                  <input
+                    type="date"
+                    id="bookingDate"
+                    name="bookingDate"
+                    class="form-input"
+                    [min]="today"
+                    [(ngModel)]="dateChange.bookingDate"
+                    required
+                  />
+                </div>
+              </ng-template>
+              <div class="form-group">
+                <label for="reason">Reason (optional)</label>
+                <textarea
+                  id="reason"
+                  name="reason"
+                  class="form-input"
+                  rows="2"
+                  maxlength="500"
+                  [(ngModel)]="reason"
+                ></textarea>
+              </div>
+              <div class="form-actions">
+                <button
+                  type="button"
+                  class="btn-secondary"
+                  (click)="showDateChange = false"
+                >
+                  Back
+                </button>
+                <button
+                  type="submit"
+                  class="btn-primary"
+                  [disabled]="!dateChangeValid() || isBusy"
+                >
+                  {{ isBusy ? "Sending..." : "Request new dates" }}
+                </button>
+              </div>
+            </form>
+
+            <div *ngIf="!showDateChange" class="form-actions">
+              <button class="btn-secondary" (click)="showDateChange = true">
+                Change dates
+              </button>
+              <button
+                class="btn-danger"
+                (click)="cancelBooking()"
+                [disabled]="isBusy"
+              >
+                Cancel booking
+              </button>
+            </div>
+          </div>
+
+          <p *ngIf="!booking.canModify && isOpen" class="deadline">
+            Online changes are closed for this booking. Please contact us on
+            WhatsApp or by phone.
+          </p>
+        </div>
+
+        <button class="btn-link" (click)="goHome()">
+          Back to Shanal Tours
+        </button>
+      </div>
+    </div>
+  `,
+  styleUrls: ["./booking-portal.component.scss"],
+})
+export class BookingPortalComponent implements OnInit {
+  bookingId = "";
+  booking: CustomerBookingView | null = null;
+  loading = false;
+  isBusy = false;
+  errorMessage = "";
+  successMessage = "";
+  today = todayKey();
+
+  phone = "";
+  code = "";
+  codeSent = false;
+  codeChannel = "";
+
+  showDateChange = false;
+  reason = "";
+  dateChange = { bookingDate: "", rentalStart: "", rentalEnd: "" };
+
+  private token: string | null = null;
+
+  constructor(
+    private portalService: CustomerPortalService,
+    private route: ActivatedRoute,
+    private router: Router
+  ) {}
+
+  ngOnInit() {
+    this.bookingId = this.route.snapshot.paramMap.get("id") || "";
+    const linkToken = this.route.snapshot.queryParamMap.get("token");
+    if (linkToken) {
+      this.portalService.storeToken(this.bookingId, linkToken);
+      // Drop the token from the address bar once stored
+      this.router.navigate([], { queryParams: {}, replaceUrl: true });
+    }
+
+    this.token = linkToken || this.portalService.getStoredToken(this.bookingId);
+    if (this.token) {
+      this.loadBooking();
+    }
+  }
+
+  get isOpen(): boolean {
+    return !["cancelled", "completed", "no_show"].includes(
+      this.booking?.status || ""
+    );
+  }
+
+  get isRental(): boolean {
+    return !!this.booking?.rentalStart;
+  }
+
+  async loadBooking() {
+    if (!this.token) return;
+
+    this.loading = true;
+    this.errorMessage = "";
+    try {
+      this.booking = await this.portalService.getBooking(
+        this.bookingId,
+        this.token
+      );
+    } catch (error: any) {
+      console.error("Error loading booking:", error);
+      // Expired or invalid tokens fall back to phone verification
+      this.portalService.clearToken(this.bookingId);
+      this.token = null;
+      this.errorMessage =
+        error.message || "We could not load your booking. Please verify again.";
+    } finally {
+      this.loading = false;
+    }
+  }
+
+  async requestCode() {
+    this.isBusy = true;
+    this.errorMessage = "";
+    try {
+      const channel = await this.portalService.requestOtp(
+        this.bookingId,
+        this.phone.trim()
+      );
+      this.codeChannel = channel === "email" ? "email" : "WhatsApp";
+      this.codeSent = true;
+    } catch (error: any) {
+      console.error("Error requesting code:", error);
+      this.errorMessage =
+        error.message || "We could not send a code. Please try again.";
+    } finally {
+      this.isBusy = false;
+    }
+  }
+
+  async verifyCode() {
+    this.isBusy = true;
+    this.errorMessage = "";
+    try {
+      this.token = await this.portalService.verifyOtp(
+        this.bookingId,
+        this.code.trim()
+      );
+      this.code = "";
+      await this.loadBooking();
+    } catch (error: any) {
+      console.error("Error verifying code:", error);
+      this.errorMessage = error.message || "Verification failed.";
+    } finally {
+      this.isBusy = false;
+    }
+  }
+
+  async cancelBooking() {
+    if (!this.token) return;
+    if (!confirm("Are you sure you want to cancel this booking?")) return;
+
+    this.isBusy = true;
+    this.errorMessage = "";
+    try {
+      this.booking = await this.portalService.cancelBooking(
+        this.bookingId,
+        this.token,
+        this.reason.trim() || undefined
+      );
+      this.successMessage = "Your booking has been cancelled.";
+    } catch (error: any) {
+      console.error("Error cancelling booking:", error);
+      this.errorMessage =
+        error.message || "We could not cancel your booking. Please try again.";
+    } finally {
+      this.isBusy = false;
+    }
+  }
+
+  dateChangeValid(): boolean {
+    if (this.isRental) {
+      const { rentalStart, rentalEnd } = this.dateChange;
+      return !!rentalStart && !!rentalEnd && rentalEnd >= rentalStart;
+    }
+    return !!this.dateChange.bookingDate;
+  }
+
+  async submitDateChange() {
+    if (!this.token || !this.dateChangeValid()) return;
+
+    this.isBusy = true;
+    this.errorMessage = "";
+    try {
+      const change = this.isRental
+        ? {
+            rentalStart: this.dateChange.rentalStart,
+            rentalEnd: this.dateChange.rentalEnd,
+          }
+        : { bookingDate: this.dateChange.bookingDate };
+      this.booking = await this.portalService.requestDateChange(
+        this.bookingId,
+        this.token,
+        { ...change, reason: this.reason.trim() || undefined }
+      );
+      this.showDateChange = false;
+      this.successMessage =
+        "Your date change request has been sent. We will confirm availability shortly.";
+    } catch (error: any) {
+      console.error("Error requesting date change:", error);
+      this.errorMessage =
+        error.message || "We could not send your request. Please try again.";
+    } finally {
+      this.isBusy = false;
+    }
+  }
+
+  getStatusLabel(status: BookingStatus): string {
+    const labels: { [key in BookingStatus]: string } = {
+      pending: "Awaiting Confirmation",
+      quoted: "Quote Sent",
+      deposit_paid: "Deposit Received",
+      confirmed: "Confirmed",
+      in_progress: "In Progress",
+      completed: "Completed",
+      no_show: "No Show",
+      cancelled: "Cancelled",
+      suspended: "On Hold",
+    };
+    return labels[status] || status;
+  }
+
+  goHome() {
+    this.router.navigate(["/"]);
+  }
+}
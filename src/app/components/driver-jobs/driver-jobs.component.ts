@@ -0,0 +1,223 @@
+import { Component, OnInit } from "@angular/core";
+import { CommonModule } from "@angular/common";
+import { Router } from "@angular/router";
+import { AuthService } from "../../services/auth.service";
+import { StaffService } from "../../services/staff.service";
+import {
+  BookingStatus,
+  DriverJob,
+  DriverJobs,
+} from "../../models/booking.model";
+import { BOOKING_STATUS_LABELS } from "../../utils/booking-status";
+import { todayKey } from "../../utils/schedule";
+
+/**
+ * What a driver or guide sees on their phone: their jobs from today onwards,
+ * with buttons to mark each one started and completed.
+ */
+@Component({
+  selector: "app-driver-jobs",
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div class="admin-container">
+      <header class="admin-header">
+        <div class="container">
+          <div class="header-content">
+            <div class="logo">
+              <h1>My Jobs</h1>
+            </div>
+            <div class="header-actions">
+              <button
+                class="btn-small btn-secondary"
+                (click)="loadJobs()"
+                [disabled]="loading"
+              >
+                Refresh
+              </button>
+              <button class="btn-small btn-secondary" (click)="logout()">
+                Logout
+              </button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div class="dashboard-content">
+        <div class="container">
+          <div *ngIf="errorMessage" class="error-message">
+            {{ errorMessage }}
+          </div>
+
+          <div *ngIf="loading && !result" class="empty-state">
+            <p>Loading your jobs...</p>
+          </div>
+
+          <div *ngIf="result && !result.staff" class="empty-state">
+            <p>
+              There is no driver or guide record linked to your email. Ask the
+              office to add your sign-in email to your staff record.
+            </p>
+          </div>
+
+          <ng-container *ngIf="result?.staff">
+            <p class="driver-greeting">Hello {{ result?.staff?.name }}</p>
+
+            <div *ngIf="result?.jobs?.length === 0" class="empty-state">
+              <p>No upcoming jobs.</p>
+            </div>
+
+            <div
+              *ngFor="let job of result?.jobs"
+              class="job-card"
+              [class.today]="job.date === today"
+            >
+              <div class="job-header">
+                <div>
+                  <div class="job-when">
+                    {{ formatDay(job.date) }}
+                    <ng-container *ngIf="job.pickup?.time"
+                      >· {{ job.pickup?.time }}</ng-container
+                    >
+                  </div>
+                  <div class="job-service">{{ job.serviceName }}</div>
+                </div>
+                <span class="status-badge" [ngClass]="'status-' + job.status">{{
+                  statusLabels[job.status]
+                }}</span>
+              </div>
+
+              <dl class="job-details">
+                <dt>Pickup</dt>
+                <dd>{{ job.pickup?.location || "To be confirmed" }}</dd>
+                <dt>Customer</dt>
+                <dd>{{ job.customerName }}</dd>
+                <ng-container *ngIf="job.notes">
+                  <dt>Notes</dt>
+                  <dd class="job-notes">{{ job.notes }}</dd>
+                </ng-container>
+              </dl>
+
+              <div class="job-contact">
+                <a class="btn-small btn-secondary" [href]="phoneLink(job)"
+                  >Call</a
+                >
+                <a
+                  class="btn-small btn-success"
+                  [href]="whatsAppLink(job)"
+                  target="_blank"
+                  rel="noopener"
+                  >WhatsApp</a
+                >
+              </div>
+
+              <button
+                *ngIf="job.status === 'confirmed'"
+                class="btn-primary job-action"
+                (click)="updateStatus(job, 'in_progress')"
+                [disabled]="updatingId === job.id"
+              >
+                {{ updatingId === job.id ? "Saving..." : "Start Job" }}
+              </button>
+              <button
+                *ngIf="job.status === 'in_progress'"
+                class="btn-primary job-action"
+                (click)="updateStatus(job, 'completed')"
+                [disabled]="updatingId === job.id"
+              >
+                {{ updatingId === job.id ? "Saving..." : "Complete Job" }}
+              </button>
+            </div>
+          </ng-container>
+        </div>
+      </div>
+    </div>
+  `,
+  styleUrls: [
+    "../admin-dashboard/admin-dashboard.component.scss",
+    "./driver-jobs.component.scss",
+  ],
+})
+export class DriverJobsComponent implements OnInit {
+  result: DriverJobs | null = null;
+  loading = false;
+  errorMessage = "";
+  updatingId: string | null = null;
+  today = todayKey();
+
+  readonly statusLabels = BOOKING_STATUS_LABELS;
+
+  constructor(
+    private authService: AuthService,
+    private staffService: StaffService,
+    private router: Router
+  ) {}
+
+  ngOnInit() {
+    this.loadJobs();
+  }
+
+  async loadJobs() {
+    this.loading = true;
+    this.errorMessage = "";
+    this.today = todayKey();
+
+    try {
+      this.result = await this.staffService.getMyJobs();
+    } catch (error: any) {
+      console.error("Error loading jobs:", error);
+      this.errorMessage =
+        error.message || "Error loading your jobs. Please try again.";
+    } finally {
+      this.loading = false;
+    }
+  }
+
+  async updateStatus(job: DriverJob, status: BookingStatus) {
+    this.updatingId = job.id;
+    this.errorMessage = "";
+
+    try {
+      await this.staffService.updateJobStatus(job.id, status);
+      await this.loadJobs();
+    } catch (error: any) {
+      console.error("Error updating job status:", error);
+      this.errorMessage =
+        error.message || "Error updating the job. Please try again.";
+    } finally {
+      this.updatingId = null;
+    }
+  }
+
+  async logout() {
+    try {
+      await this.authService.signOut();
+      this.router.navigate(["/"]);
+    } catch (error) {
+      console.error("Logout error:", error);
+    }
+  }
+
+  // Job dates are yyyy-mm-dd keys of midnight UTC
+  formatDay(dayKey: string): string {
+    if (dayKey === this.today) {
+      return "Today";
+    }
+    return new Date(`${dayKey}T00:00:00Z`).toLocaleDateString("en-GB", {
+      weekday: "short",
+      day: "numeric",
+      month: "short",
+      timeZone: "UTC",
+    });
+  }
+
+  phoneLink(job: DriverJob): string {
+    return `tel:${job.customerPhone.replace(/\s+/g, "")}`;
+  }
+
+  whatsAppLink(job: DriverJob): string {
+    const digits = job.customerPhone.replace(/[^0-9+]/g, "");
+    const phoneNumber = digits.startsWith("+") ? digits.substring(1) : digits;
+    return `https://wa.me/${phoneNumber}`;
+  }
+}
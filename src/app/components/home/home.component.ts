@@ -1,11 +1,24 @@
-import { Component, OnInit } from "@angular/core";
+import { Component, OnDestroy, OnInit } from "@angular/core";
 import { CommonModule } from "@angular/common";
 import { FormsModule } from "@angular/forms";
 import { Router } from "@angular/router";
+import { Subscription } from "rxjs";
 import { ServicesService } from "../../services/services.service";
 import { AiChatbotComponent } from "../ai-chatbot/ai-chatbot.component";
 import { BookingService } from "../../services/booking.service";
+import { FleetService } from "../../services/fleet.service";
+import { SystemStatusService } from "../../services/system-status.service";
 import { Service, BookingFormData } from "../../models/booking.model";
+import {
+  TEMPLATE_LOCALE_LABELS,
+  TemplateLocale,
+} from "../../models/notification-template.model";
+import {
+  DEFAULT_SYSTEM_STATUS,
+  SystemStatus,
+} from "../../models/system-status.model";
+import { countRentalDays, quoteService } from "../../utils/pricing";
+import { todayKey } from "../../utils/schedule";
 import { environment } from "../../../environments/environment";
 
 @Component({
@@ -15,7 +28,7 @@ import { environment } from "../../../environments/environment";
   templateUrl: "./home.component.html",
   styleUrls: ["./home.component.scss"],
 })
-export class HomeComponent implements OnInit {
+export class HomeComponent implements OnInit, OnDestroy {
   services: Service[] = [];
   filteredServices: Service[] = [];
   selectedService: Service | null = null;
@@ -23,10 +36,15 @@ export class HomeComponent implements OnInit {
   mobileMenuOpen = false;
   showSuccessModal = false;
   isSubmitting = false;
-  today = new Date().toISOString().split("T")[0];
+  // The server checks dates against the Mauritius day, not the UTC one
+  today = todayKey();
   defaultServiceImage = "assets/service-images/default-service.svg";
-  ownerWhatsAppNumber = environment.ownerWhatsAppNumber;
+  whatsAppNumber =
+    environment.whatsAppBusinessNumber || environment.ownerWhatsAppNumber;
   whatsAppUrl: string | null = null;
+  unavailableRentalDates: string[] = [];
+  loadingAvailability = false;
+  systemStatus: SystemStatus = DEFAULT_SYSTEM_STATUS;
 
   filter: { type: string; maxPrice: number | null } = {
     type: "",
@@ -40,17 +58,44 @@ export class HomeComponent implements OnInit {
     serviceName: "",
     bookingDate: "",
     notes: "",
+    locale: this.defaultLocale(),
+    preferredChannel: "email",
   };
+  readonly messageLocales: TemplateLocale[] = ["en", "fr", "mfe"];
+  readonly localeLabels = TEMPLATE_LOCALE_LABELS;
+
+  private servicesSubscription?: Subscription;
+  private statusSubscription?: Subscription;
+  private bookingFormOpenedAt = 0;
 
   constructor(
     private servicesService: ServicesService,
     private bookingService: BookingService,
+    private fleetService: FleetService,
+    private systemStatusService: SystemStatusService,
     private router: Router
   ) {}
 
   ngOnInit() {
-    this.services = this.servicesService.getServices();
-    this.filteredServices = [...this.services];
+    this.servicesSubscription = this.servicesService
+      .getServices()
+      .subscribe((services) => {
+        this.services = services;
+        this.applyFilters();
+      });
+    this.statusSubscription = this.systemStatusService
+      .getStatus()
+      .subscribe((status) => (this.systemStatus = status));
+  }
+
+  ngOnDestroy() {
+    this.servicesSubscription?.unsubscribe();
+    this.statusSubscription?.unsubscribe();
+  }
+
+  // Payments are switched off: requests are taken as enquiries only
+  get enquiryOnly(): boolean {
+    return !this.systemStatus.paymentsEnabled;
   }
 
   applyFilters() {
@@ -74,6 +119,16 @@ export class HomeComponent implements OnInit {
   }
 
   openBookingModal(service: Service) {
+    // Online bookings are closed; send the enquiry over WhatsApp instead
+    if (this.systemStatus.maintenanceMode) {
+      const text = encodeURIComponent(`Enquiry about ${service.name}`);
+      window.open(
+        `https://wa.me/${this.whatsAppNumber}?text=${text}`,
+        "_blank"
+      );
+      return;
+    }
+
     this.selectedService = service;
     this.bookingFormData = {
       customerName: "",
@@ -82,8 +137,31 @@ export class HomeComponent implements OnInit {
       serviceName: service.name,
       bookingDate: "",
       notes: "",
+      locale: this.bookingFormData.locale,
+      preferredChannel: this.bookingFormData.preferredChannel,
+      website: "",
     };
+    this.bookingFormOpenedAt = Date.now();
     this.showBookingModal = true;
+    if (service.id === "car-rental") {
+      this.loadRentalAvailability();
+    }
+  }
+
+  async loadRentalAvailability() {
+    this.loadingAvailability = true;
+    this.unavailableRentalDates = [];
+    try {
+      const availability = await this.fleetService.getRentalAvailability(
+        this.today
+      );
+      this.unavailableRentalDates = availability.unavailableDates;
+    } catch (error) {
+      // Availability is advisory; the booking is still checked server-side
+      console.error("Error loading rental availability:", error);
+    } finally {
+      this.loadingAvailability = false;
+    }
   }
 
   closeBookingModal() {
@@ -119,6 +197,12 @@ export class HomeComponent implements OnInit {
       alert("End date cannot be before start date.");
       return;
     }
+    if (this.selectedService.id === "car-rental" && this.rentalClashes.length) {
+      alert(
+        "No cars are available on some of the selected dates. Please choose different dates."
+      );
+      return;
+    }
 
     // For non car-rental services, require a single booking date
     if (
@@ -130,22 +214,23 @@ export class HomeComponent implements OnInit {
     }
 
     this.isSubmitting = true;
+    // Open a placeholder window immediately to preserve user gesture
+    // so the WhatsApp tab isn't blocked by popup blockers.
+    let waWindow: Window | null = null;
     try {
-      // Open a placeholder window immediately to preserve user gesture
-      // so the WhatsApp tab isn't blocked by popup blockers.
-      let waWindow: Window | null = null;
       try {
         waWindow = window.open("about:blank", "_blank");
       } catch (_) {}
 
       // Create booking in Firestore
-      const bookingId = await this.bookingService.createBooking(
-        this.bookingFormData
-      );
+      const bookingId = await this.bookingService.createBooking({
+        ...this.bookingFormData,
+        fillTimeMs: Date.now() - this.bookingFormOpenedAt,
+      });
 
       // Build final WhatsApp deep link to notify owner directly
       const text = encodeURIComponent(
-        `New booking request\n` +
+        `${this.enquiryOnly ? "New enquiry" : "New booking request"}\n` +
           `Service: ${this.bookingFormData.serviceName}\n` +
           `Date: ${this.bookingFormData.bookingDate}\n` +
           `Name: ${this.bookingFormData.customerName}\n` +
@@ -154,7 +239,7 @@ export class HomeComponent implements OnInit {
           `Notes: ${this.bookingFormData.notes || "-"}\n` +
           `Booking ID: ${bookingId}`
       );
-      const finalUrl = `https://wa.me/${this.ownerWhatsAppNumber}?text=${text}`;
+      const finalUrl = `https://wa.me/${this.whatsAppNumber}?text=${text}`;
       this.whatsAppUrl = finalUrl;
 
       // If we managed to pre-open a window, navigate it now; otherwise fallback to button in success modal
@@ -167,9 +252,19 @@ export class HomeComponent implements OnInit {
       }
       this.closeBookingModal();
       this.showSuccessModal = true;
-    } catch (error) {
+    } catch (error: any) {
       console.error("Error submitting booking:", error);
-      alert("There was an error submitting your booking. Please try again.");
+      waWindow?.close();
+      // Validation and rate-limit errors carry a customer-facing message
+      alert(
+        [
+          "functions/invalid-argument",
+          "functions/resource-exhausted",
+          "functions/unavailable",
+        ].includes(error?.code)
+          ? error.message
+          : "There was an error submitting your booking. Please try again."
+      );
     } finally {
       this.isSubmitting = false;
     }
@@ -183,6 +278,11 @@ export class HomeComponent implements OnInit {
     this.mobileMenuOpen = false;
   }
 
+  // Start from the browser language; Kreol speakers pick it in the form
+  private defaultLocale(): TemplateLocale {
+    return navigator.language?.toLowerCase().startsWith("fr") ? "fr" : "en";
+  }
+
   // Helpers for car rental pricing
   get isCarRental(): boolean {
     return this.selectedService?.id === "car-rental";
@@ -190,25 +290,30 @@ export class HomeComponent implements OnInit {
 
   get rentalDays(): number {
     const { startDate, endDate } = this.bookingFormData;
-    if (!startDate || !endDate) return 0;
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    if (isNaN(start.getTime()) || isNaN(end.getTime())) return 0;
-    const ms = end.getTime() - start.getTime();
-    const days = Math.floor(ms / (1000 * 60 * 60 * 24)) + 1; // inclusive
-    return days > 0 ? days : 0;
+    return countRentalDays(startDate, endDate);
   }
 
   get rentalTotal(): number {
-    if (!this.isCarRental) return 0;
-    const pricePerDay = this.selectedService?.price || 0;
-    return this.rentalDays * pricePerDay;
+    if (!this.isCarRental || !this.selectedService) return 0;
+    const { startDate, endDate } = this.bookingFormData;
+    return quoteService(this.selectedService, startDate, endDate).total;
+  }
+
+  // Fully booked days that fall inside the selected rental period
+  get rentalClashes(): string[] {
+    const { startDate, endDate } = this.bookingFormData;
+    if (!startDate || !endDate) return [];
+    return this.unavailableRentalDates.filter(
+      (day) => day >= startDate && day <= endDate
+    );
   }
 
   datesValid(): boolean {
     if (!this.isCarRental) return true;
     const { startDate, endDate } = this.bookingFormData;
     if (!startDate || !endDate) return false;
-    return new Date(endDate) >= new Date(startDate);
+    return (
+      new Date(endDate) >= new Date(startDate) && !this.rentalClashes.length
+    );
   }
 }
@@ -0,0 +1,136 @@
+import { Component, Input } from "@angular/core";
+import { CommonModule } from "@angular/common";
+import { BookingService } from "../../services/booking.service";
+import { HasPermissionDirective } from "../../directives/has-permission.directive";
+import { Permission } from "../../models/permission.model";
+import {
+  Booking,
+  NotificationDelivery,
+  NotificationDeliveryStatus,
+  NotificationEvent,
+} from "../../models/booking.model";
+
+/**
+ * Delivery status of the notifications sent for a booking, shown in the
+ * dashboard details modal. Failed messages are retried automatically; staff
+ * with edit_bookings can also retry them by hand.
+ */
+@Component({
+  selector: "app-notification-status",
+  standalone: true,
+  imports: [CommonModule, HasPermissionDirective],
+  template: `
+    <div class="notifications">
+      <h4>Notifications</h4>
+      <div *ngIf="deliveries.length === 0" class="notifications-empty">
+        No notifications sent for this booking.
+      </div>
+      <ul *ngIf="deliveries.length > 0" class="notification-list">
+        <li *ngFor="let delivery of deliveries">
+          <span class="notification-target">
+            {{ eventLabels[delivery.event || "new_booking"] }} ·
+            {{ recipientLabels[delivery.recipient] }} ·
+            {{ channelLabels[delivery.channel] }}
+          </span>
+          <span
+            class="status-badge"
+            [ngClass]="'notification-' + delivery.status"
+          >
+            {{ statusLabels[delivery.status] }}
+          </span>
+          <span class="notification-attempts">
+            {{ delivery.attempts }}
+            {{ delivery.attempts === 1 ? "attempt" : "attempts" }}
+          </span>
+          <button
+            *appHasPermission="Permission.EDIT_BOOKINGS"
+            [hidden]="!canRetry(delivery)"
+            class="btn-small btn-secondary"
+            (click)="retry(delivery)"
+            [disabled]="retrying === delivery.id"
+          >
+            {{ retrying === delivery.id ? "Retrying..." : "Retry" }}
+          </button>
+          <span *ngIf="delivery.lastError" class="notification-error">{{
+            delivery.lastError
+          }}</span>
+        </li>
+      </ul>
+      <div *ngIf="errorMessage" class="error-message">{{ errorMessage }}</div>
+    </div>
+  `,
+  styleUrls: [
+    "../admin-dashboard/admin-dashboard.component.scss",
+    "./notification-status.component.scss",
+  ],
+})
+export class NotificationStatusComponent {
+  @Input() booking!: Booking;
+
+  retrying: string | null = null;
+  errorMessage = "";
+  readonly Permission = Permission;
+
+  eventLabels: Record<NotificationEvent, string> = {
+    new_booking: "New booking",
+    confirmed: "Confirmation",
+    cancelled: "Cancellation",
+    rescheduled: "New date",
+    reminder_day_before: "Day-before reminder",
+    reminder_soon: "Pickup reminder",
+    return_reminder: "Return reminder",
+  };
+  recipientLabels: Record<NotificationDelivery["recipient"], string> = {
+    owner: "Owner",
+    customer: "Customer",
+  };
+  channelLabels: Record<NotificationDelivery["channel"], string> = {
+    email: "Email",
+    whatsapp: "WhatsApp",
+  };
+  statusLabels: Record<NotificationDeliveryStatus, string> = {
+    pending: "Queued",
+    sending: "Sending",
+    sent: "Sent",
+    failed: "Retrying",
+    dead: "Failed",
+  };
+
+  constructor(private bookingService: BookingService) {}
+
+  // Oldest first, so the list reads as a timeline
+  get deliveries(): NotificationDelivery[] {
+    return Object.values(this.booking?.notifications || {}).sort(
+      (a, b) => this.toMillis(a.updatedAt) - this.toMillis(b.updatedAt)
+    );
+  }
+
+  private toMillis(date: any): number {
+    if (!date) return 0;
+    const d =
+      typeof date.toDate === "function" ? date.toDate() : new Date(date);
+    return d.getTime();
+  }
+
+  canRetry(delivery: NotificationDelivery): boolean {
+    return delivery.status === "failed" || delivery.status === "dead";
+  }
+
+  async retry(delivery: NotificationDelivery) {
+    this.retrying = delivery.id;
+    this.errorMessage = "";
+    try {
+      const sent = await this.bookingService.retryNotification(delivery.id);
+      if (!sent) {
+        this.errorMessage =
+          "The notification failed again and will be retried automatically.";
+      }
+    } catch (error: any) {
+      console.error("Error retrying notification:", error);
+      this.errorMessage =
+        error.message || "Error retrying notification. Please try again.";
+    } finally {
+      this.retrying = null;
+    }
+  }
+}
@@ -0,0 +1,181 @@
+import { Component, OnInit } from "@angular/core";
+import { CommonModule } from "@angular/common";
+import { FormsModule } from "@angular/forms";
+import { Router } from "@angular/router";
+import { DomSanitizer, SafeHtml } from "@angular/platform-browser";
+import { NotificationTemplatesService } from "../../services/notification-templates.service";
+import {
+  NotificationTemplateSummary,
+  RenderedNotification,
+  TEMPLATE_LOCALE_LABELS,
+  TemplateLocale,
+} from "../../models/notification-template.model";
+
+/**
+ * Admin preview of the notification templates in each locale, showing the
+ * HTML and plain-text email and the WhatsApp message as customers get them.
+ */
+@Component({
+  selector: "app-notification-templates",
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="admin-container">
+      <header class="admin-header">
+        <div class="container">
+          <div class="header-content">
+            <div class="logo">
+              <h1>Message Templates</h1>
+            </div>
+            <div class="header-actions">
+              <button class="btn-small btn-secondary" (click)="goBack()">
+                Back to Dashboard
+              </button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div class="dashboard-content">
+        <div class="container">
+          <div *ngIf="errorMessage" class="error-message">
+            {{ errorMessage }}
+          </div>
+
+          <div class="template-controls" *ngIf="templates.length > 0">
+            <div class="form-group">
+              <label for="template">Template</label>
+              <select
+                id="template"
+                name="template"
+                class="form-input"
+                [(ngModel)]="selectedTemplate"
+                (ngModelChange)="loadPreview()"
+              >
+                <option
+                  *ngFor="let template of templates"
+                  [value]="template.name"
+                >
+                  {{ template.description }}
+                </option>
+              </select>
+            </div>
+            <div class="form-group">
+              <label for="locale">Language</label>
+              <select
+                id="locale"
+                name="locale"
+                class="form-input"
+                [(ngModel)]="selectedLocale"
+                (ngModelChange)="loadPreview()"
+              >
+                <option *ngFor="let locale of locales" [value]="locale">
+                  {{ localeLabels[locale] }}
+                </option>
+              </select>
+            </div>
+          </div>
+
+          <p *ngIf="selectedSummary" class="template-variables">
+            Variables:
+            <code *ngFor="let variable of selectedSummary.variables">{{
+              variable
+            }}</code>
+          </p>
+
+          <div *ngIf="loading" class="empty-note">Rendering preview...</div>
+
+          <div *ngIf="preview && !loading" class="template-preview">
+            <section class="preview-panel preview-wide">
+              <h3>Email</h3>
+              <p class="preview-subject">
+                <strong>Subject:</strong> {{ preview.subject }}
+              </p>
+              <iframe
+                class="preview-html"
+                title="HTML email preview"
+                sandbox=""
+                [srcdoc]="previewHtml"
+              ></iframe>
+            </section>
+            <section class="preview-panel">
+              <h3>Plain-text email</h3>
+              <pre>{{ preview.text }}</pre>
+            </section>
+            <section class="preview-panel">
+              <h3>WhatsApp</h3>
+              <pre class="preview-whatsapp">{{ preview.whatsapp }}</pre>
+            </section>
+          </div>
+        </div>
+      </div>
+    </div>
+  `,
+  styleUrls: [
+    "../admin-dashboard/admin-dashboard.component.scss",
+    "./notification-templates.component.scss",
+  ],
+})
+export class NotificationTemplatesComponent implements OnInit {
+  templates: NotificationTemplateSummary[] = [];
+  locales: TemplateLocale[] = [];
+  selectedTemplate = "";
+  selectedLocale: TemplateLocale = "en";
+  preview: RenderedNotification | null = null;
+  previewHtml: SafeHtml = "";
+  loading = false;
+  errorMessage = "";
+  readonly localeLabels = TEMPLATE_LOCALE_LABELS;
+
+  constructor(
+    private templatesService: NotificationTemplatesService,
+    private sanitizer: DomSanitizer,
+    private router: Router
+  ) {}
+
+  async ngOnInit() {
+    try {
+      const { templates, locales } =
+        await this.templatesService.previewTemplate();
+      this.templates = templates;
+      this.locales = locales;
+      if (templates.length > 0) {
+        this.selectedTemplate = templates[0].name;
+        await this.loadPreview();
+      }
+    } catch (error: any) {
+      console.error("Error loading templates:", error);
+      this.errorMessage = error.message || "Error loading templates.";
+    }
+  }
+
+  get selectedSummary(): NotificationTemplateSummary | undefined {
+    return this.templates.find((t) => t.name === this.selectedTemplate);
+  }
+
+  goBack() {
+    this.router.navigate(["/admin"]);
+  }
+
+  async loadPreview() {
+    this.loading = true;
+    this.errorMessage = "";
+    try {
+      const { preview } = await this.templatesService.previewTemplate(
+        this.selectedTemplate,
+        this.selectedLocale
+      );
+      this.preview = preview;
+      // Rendered by our own function and shown in a sandboxed frame
+      this.previewHtml = this.sanitizer.bypassSecurityTrustHtml(
+        preview?.html || ""
+      );
+    } catch (error: any) {
+      console.error("Error rendering template preview:", error);
+      this.errorMessage = error.message || "Error rendering the preview.";
+      this.preview = null;
+    } finally {
+      this.loading = false;
+    }
+  }
+}
@@ -0,0 +1,263 @@
+import { Component, Input, OnChanges, OnDestroy } from "@angular/core";
+import { CommonModule } from "@angular/common";
+import { FormsModule } from "@angular/forms";
+import { Subscription } from "rxjs";
+import { PaymentService } from "../../services/payment.service";
+import { SystemStatusService } from "../../services/system-status.service";
+import {
+  Booking,
+  Payment,
+  PaymentFormData,
+  PaymentMethod,
+  PaymentType,
+} from "../../models/booking.model";
+import { balanceDue } from "../../utils/pricing";
+import { HasPermissionDirective } from "../../directives/has-permission.directive";
+import { Permission } from "../../models/permission.model";
+
+/**
+ * Payments received for a booking, shown in the dashboard details modal.
+ * Payments are collected offline and recorded here by staff with the
+ * process_payments permission.
+ */
+@Component({
+  selector: "app-payment-ledger",
+  standalone: true,
+  imports: [CommonModule, FormsModule, HasPermissionDirective],
+  template: `
+    <div class="ledger">
+      <div class="ledger-header">
+        <h4>Payments</h4>
+        <span
+          class="status-badge"
+          [ngClass]="'payment-' + (booking.paymentStatus || 'unpaid')"
+        >
+          {{ paymentStatusLabels[booking.paymentStatus || "unpaid"] }}
+        </span>
+      </div>
+
+      <div class="ledger-summary">
+        <div>
+          <label>Quoted</label>
+          <span>{{
+            booking.quote ? (booking.quote.total | number : "1.0-0") : "-"
+          }}</span>
+        </div>
+        <div>
+          <label>Received</label>
+          <span>{{ booking.amountPaid || 0 | number : "1.0-0" }}</span>
+        </div>
+        <div>
+          <label>Balance Due</label>
+          <span>{{
+            balance !== null ? (balance | number : "1.0-0") : "-"
+          }}</span>
+        </div>
+      </div>
+
+      <div *ngIf="payments.length === 0" class="ledger-empty">
+        No payments recorded yet.
+      </div>
+      <ul *ngIf="payments.length > 0" class="ledger-entries">
+        <li *ngFor="let payment of payments">
+          <span class="entry-amount" [class.refund]="payment.type === 'refund'">
+            {{ payment.type === "refund" ? "-" : "" }}{{ payment.currency }}
+            {{ payment.amount | number : "1.0-0" }}
+          </span>
+          <span
+            >{{ typeLabels[payment.type] }} ·
+            {{ methodLabels[payment.method] }}</span
+          >
+          <span *ngIf="payment.reference" class="entry-reference">{{
+            payment.reference
+          }}</span>
+          <span class="entry-date">{{ formatDate(payment.receivedAt) }}</span>
+        </li>
+      </ul>
+
+      <div *ngIf="!paymentsEnabled" class="ledger-empty">
+        Payments are switched off; new payments cannot be recorded.
+      </div>
+      <ng-container *ngIf="paymentsEnabled">
+        <form
+          *appHasPermission="Permission.PROCESS_PAYMENTS"
+          (ngSubmit)="save()"
+          class="ledger-form"
+          novalidate
+        >
+          <div class="form-row">
+            <div class="form-group">
+              <label for="paymentAmount">Amount *</label>
+              <input
+                id="paymentAmount"
+                name="amount"
+                type="number"
+                min="1"
+                class="form-input"
+                [(ngModel)]="formData.amount"
+                required
+              />
+            </div>
+            <div class="form-group">
+              <label for="paymentType">Type</label>
+              <select
+                id="paymentType"
+                name="type"
+                class="form-input"
+                [(ngModel)]="formData.type"
+              >
+                <option *ngFor="let type of types" [value]="type">
+                  {{ typeLabels[type] }}
+                </option>
+              </select>
+            </div>
+            <div class="form-group">
+              <label for="paymentMethod">Method</label>
+              <select
+                id="paymentMethod"
+                name="method"
+                class="form-input"
+                [(ngModel)]="formData.method"
+              >
+                <option *ngFor="let method of methods" [value]="method">
+                  {{ methodLabels[method] }}
+                </option>
+              </select>
+            </div>
+          </div>
+          <div class="form-group">
+            <label for="paymentReference">Reference</label>
+            <input
+              id="paymentReference"
+              name="reference"
+              class="form-input"
+              maxlength="100"
+              placeholder="Receipt or transfer reference"
+              [(ngModel)]="formData.reference"
+            />
+          </div>
+          <div *ngIf="errorMessage" class="error-message">
+            {{ errorMessage }}
+          </div>
+          <button
+            type="submit"
+            class="btn-small btn-success"
+            [disabled]="!(formData.amount && formData.amount > 0) || isSaving"
+          >
+            {{ isSaving ? "Saving..." : "Record Payment" }}
+          </button>
+        </form>
+      </ng-container>
+    </div>
+  `,
+  styleUrls: [
+    "../admin-dashboard/admin-dashboard.component.scss",
+    "./payment-ledger.component.scss",
+  ],
+})
+export class PaymentLedgerComponent implements OnChanges, OnDestroy {
+  @Input() booking!: Booking;
+
+  payments: Payment[] = [];
+  isSaving = false;
+  errorMessage = "";
+  formData: PaymentFormData = this.emptyForm();
+  paymentsEnabled = true;
+  readonly Permission = Permission;
+
+  methods: PaymentMethod[] = ["cash", "eft", "mobile_wallet", "card"];
+  types: PaymentType[] = ["deposit", "payment", "refund"];
+
+  methodLabels: Record<PaymentMethod, string> = {
+    cash: "Cash",
+    eft: "Bank Transfer",
+    mobile_wallet: "Mobile Wallet",
+    card: "Card",
+  };
+  typeLabels: Record<PaymentType, string> = {
+    deposit: "Deposit",
+    payment: "Payment",
+    refund: "Refund",
+  };
+  paymentStatusLabels: Record<string, string> = {
+    unpaid: "Unpaid",
+    partial: "Part Paid",
+    paid: "Paid",
+  };
+
+  private subscription?: Subscription;
+  private statusSubscription: Subscription;
+
+  constructor(
+    private paymentService: PaymentService,
+    systemStatusService: SystemStatusService
+  ) {
+    this.statusSubscription = systemStatusService
+      .getStatus()
+      .subscribe((status) => (this.paymentsEnabled = status.paymentsEnabled));
+  }
+
+  ngOnChanges() {
+    this.subscription?.unsubscribe();
+    this.payments = [];
+    if (this.booking?.id) {
+      this.subscription = this.paymentService
+        .getPayments(this.booking.id)
+        .subscribe((payments) => (this.payments = payments));
+    }
+  }
+
+  ngOnDestroy() {
+    this.subscription?.unsubscribe();
+    this.statusSubscription.unsubscribe();
+  }
+
+  get balance(): number | null {
+    return balanceDue(this.booking);
+  }
+
+  async save() {
+    if (!this.booking.id || !this.formData.amount) return;
+
+    this.isSaving = true;
+    this.errorMessage = "";
+    try {
+      const result = await this.paymentService.recordPayment(this.booking.id, {
+        ...this.formData,
+        amount: Number(this.formData.amount),
+        reference: this.formData.reference.trim(),
+      });
+      this.booking.amountPaid = result.amountPaid;
+      this.booking.paymentStatus = result.paymentStatus;
+      this.formData = this.emptyForm();
+    } catch (error: any) {
+      console.error("Error recording payment:", error);
+      this.errorMessage =
+        error.message || "Error recording payment. Please try again.";
+    } finally {
+      this.isSaving = false;
+    }
+  }
+
+  formatDate(date: Date | undefined): string {
+    if (!date) return "-";
+    const value: any = date;
+    const d =
+      typeof value.toDate === "function" ? value.toDate() : new Date(value);
+    return d.toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    });
+  }
+
+  private emptyForm(): PaymentFormData {
+    return {
+      amount: null,
+      type: "payment",
+      method: "cash",
+      reference: "",
+      note: "",
+    };
+  }
+}
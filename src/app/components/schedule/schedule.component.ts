@@ -0,0 +1,513 @@
+import { Component, OnDestroy, OnInit } from "@angular/core";
+import { CommonModule } from "@angular/common";
+import { FormsModule } from "@angular/forms";
+import { Router } from "@angular/router";
+import { Subscription } from "rxjs";
+import { BookingService } from "../../services/booking.service";
+import { Booking, BookingStatus } from "../../models/booking.model";
+import { BOOKING_STATUS_LABELS } from "../../utils/booking-status";
+import {
+  addDays,
+  bookingDays,
+  daysBetween,
+  startOfWeek,
+  todayKey,
+} from "../../utils/schedule";
+
+type ScheduleView = "day" | "week" | "month";
+
+// One booking's bar within a calendar week
+interface ScheduleSegment {
+  booking: Booking;
+  column: number; // 1 = Monday
+  span: number;
+  lane: number;
+  continuesBefore: boolean;
+  continuesAfter: boolean;
+}
+
+interface ScheduleWeek {
+  days: string[];
+  segments: ScheduleSegment[];
+  lanes: number;
+}
+
+interface RunSheetEntry {
+  booking: Booking;
+  job: string;
+  time: string | null;
+  location: string | null;
+}
+
+// Hidden from the calendar unless asked for, and never on the run sheet
+const CLOSED_STATUSES: BookingStatus[] = ["cancelled", "no_show"];
+
+/**
+ * Day, week and month calendar of bookings by service date, with rentals
+ * drawn across the days they run. The day view is the run sheet for that
+ * day and prints on its own.
+ */
+@Component({
+  selector: "app-schedule",
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="admin-container">
+      <header class="admin-header no-print">
+        <div class="container">
+          <div class="header-content">
+            <div class="logo">
+              <h1>Schedule</h1>
+            </div>
+            <div class="header-actions">
+              <button class="btn-small" (click)="printRunSheet()">
+                {{ view === "day" ? "Print Run Sheet" : "Today's Run Sheet" }}
+              </button>
+              <button class="btn-small btn-secondary" (click)="goBack()">
+                Back to Dashboard
+              </button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div class="dashboard-content">
+        <div class="container">
+          <div class="schedule-toolbar no-print">
+            <div class="filter-tabs">
+              <button
+                *ngFor="let option of views"
+                class="tab-btn"
+                [class.active]="view === option.value"
+                (click)="setView(option.value)"
+              >
+                {{ option.label }}
+              </button>
+            </div>
+            <div class="schedule-nav">
+              <button class="btn-small btn-secondary" (click)="move(-1)">
+                &lsaquo;
+              </button>
+              <button class="btn-small btn-secondary" (click)="goToToday()">
+                Today
+              </button>
+              <button class="btn-small btn-secondary" (click)="move(1)">
+                &rsaquo;
+              </button>
+              <h2>{{ title }}</h2>
+            </div>
+            <label class="schedule-toggle">
+              <input
+                type="checkbox"
+                [(ngModel)]="showClosed"
+                (ngModelChange)="refresh()"
+              />
+              Show cancelled and no-shows
+            </label>
+          </div>
+
+          <div *ngIf="errorMessage" class="error-message">
+            {{ errorMessage }}
+          </div>
+
+          <div
+            *ngIf="view !== 'day'"
+            class="calendar"
+            [class.calendar-month]="view === 'month'"
+          >
+            <div class="calendar-weekdays">
+              <span *ngFor="let name of weekdayNames">{{ name }}</span>
+            </div>
+            <div
+              *ngFor="let week of weeks"
+              class="calendar-week"
+              [style.grid-template-rows]="weekRows(week)"
+            >
+              <button
+                *ngFor="let day of week.days; let i = index"
+                class="calendar-day"
+                [class.outside]="isOutsideMonth(day)"
+                [class.today]="day === today"
+                [style.grid-column]="i + 1"
+                [style.grid-row]="'1 / span ' + (week.lanes + 2)"
+                (click)="openDay(day)"
+              >
+                <span class="day-number">{{ dayNumber(day) }}</span>
+              </button>
+              <div
+                *ngFor="let segment of week.segments"
+                class="calendar-event"
+                [ngClass]="'status-' + segment.booking.status"
+                [class.continues-before]="segment.continuesBefore"
+                [class.continues-after]="segment.continuesAfter"
+                [style.grid-column]="segment.column + ' / span ' + segment.span"
+                [style.grid-row]="segment.lane + 2"
+                [title]="eventTitle(segment.booking)"
+                (click)="openDay(week.days[segment.column - 1])"
+              >
+                {{ eventLabel(segment.booking) }}
+              </div>
+            </div>
+            <p class="calendar-legend">
+              <span
+                *ngFor="let status of legendStatuses"
+                class="status-badge"
+                [ngClass]="'status-' + status"
+                >{{ statusLabels[status] }}</span
+              >
+            </p>
+          </div>
+
+          <section *ngIf="view === 'day'" class="run-sheet">
+            <h2 class="print-only">Run sheet · {{ title }}</h2>
+            <div *ngIf="!loading && runSheet.length === 0" class="empty-note">
+              No pickups, returns or tours on this day.
+            </div>
+            <table *ngIf="runSheet.length > 0" class="run-sheet-table">
+              <thead>
+                <tr>
+                  <th>Time</th>
+                  <th>Job</th>
+                  <th>Customer</th>
+                  <th>Phone</th>
+                  <th>Pickup</th>
+                  <th>Vehicle</th>
+                  <th>Driver / Guide</th>
+                  <th>Notes</th>
+                  <th>Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr *ngFor="let entry of runSheet">
+                  <td>{{ entry.time || "-" }}</td>
+                  <td>{{ entry.job }}</td>
+                  <td>{{ entry.booking.customerName }}</td>
+                  <td>
+                    <a [href]="'tel:' + entry.booking.customerPhone">{{
+                      entry.booking.customerPhone
+                    }}</a>
+                  </td>
+                  <td>{{ entry.location || "-" }}</td>
+                  <td>{{ entry.booking.vehicleName || "-" }}</td>
+                  <td>{{ entry.booking.staffName || "-" }}</td>
+                  <td class="run-sheet-notes">
+                    {{ entry.booking.notes || "" }}
+                  </td>
+                  <td>
+                    <span
+                      class="status-badge"
+                      [ngClass]="'status-' + entry.booking.status"
+                      >{{ statusLabels[entry.booking.status] }}</span
+                    >
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          </section>
+        </div>
+      </div>
+    </div>
+  `,
+  styleUrls: [
+    "../admin-dashboard/admin-dashboard.component.scss",
+    "./schedule.component.scss",
+  ],
+})
+export class ScheduleComponent implements OnInit, OnDestroy {
+  view: ScheduleView = "week";
+  // The day the view is built around
+  focusDay = todayKey();
+  today = todayKey();
+  showClosed = false;
+  loading = false;
+  errorMessage = "";
+
+  bookings: Booking[] = [];
+  weeks: ScheduleWeek[] = [];
+  runSheet: RunSheetEntry[] = [];
+
+  readonly statusLabels = BOOKING_STATUS_LABELS;
+  readonly weekdayNames = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+  readonly legendStatuses: BookingStatus[] = [
+    "pending",
+    "quoted",
+    "confirmed",
+    "in_progress",
+    "completed",
+    "suspended",
+    "cancelled",
+  ];
+  readonly views: { value: ScheduleView; label: string }[] = [
+    { value: "day", label: "Day" },
+    { value: "week", label: "Week" },
+    { value: "month", label: "Month" },
+  ];
+
+  private bookingsSubscription: Subscription | null = null;
+  private printWhenLoaded = false;
+
+  constructor(private bookingService: BookingService, private router: Router) {}
+
+  ngOnInit() {
+    this.load();
+  }
+
+  ngOnDestroy() {
+    this.bookingsSubscription?.unsubscribe();
+  }
+
+  goBack() {
+    this.router.navigate(["/admin"]);
+  }
+
+  // First and last day shown, padded to whole weeks outside the day view
+  private get range(): { from: string; to: string } {
+    if (this.view === "day") {
+      return { from: this.focusDay, to: this.focusDay };
+    }
+    if (this.view === "week") {
+      const from = startOfWeek(this.focusDay);
+      return { from, to: addDays(from, 6) };
+    }
+    const month = this.focusDay.slice(0, 7);
+    const nextMonth = addDays(`${month}-28`, 4).slice(0, 7);
+    return {
+      from: startOfWeek(`${month}-01`),
+      to: addDays(startOfWeek(addDays(`${nextMonth}-01`, -1)), 6),
+    };
+  }
+
+  private load() {
+    const { from, to } = this.range;
+    this.bookingsSubscription?.unsubscribe();
+    this.loading = true;
+    this.errorMessage = "";
+    this.bookingsSubscription = this.bookingService
+      .getBookingsBetween(from, to)
+      .subscribe({
+        next: (bookings) => {
+          this.bookings = bookings;
+          this.loading = false;
+          this.refresh();
+          if (this.printWhenLoaded) {
+            this.printWhenLoaded = false;
+            // Let the run sheet render first
+            setTimeout(() => window.print());
+          }
+        },
+        error: (error) => {
+          console.error("Error loading schedule:", error);
+          this.loading = false;
+          this.printWhenLoaded = false;
+          this.errorMessage = error.message || "Error loading the schedule.";
+        },
+      });
+  }
+
+  refresh() {
+    const { from, to } = this.range;
+    const visible = this.bookings.filter(
+      (booking) => this.showClosed || !CLOSED_STATUSES.includes(booking.status)
+    );
+
+    this.weeks = [];
+    if (this.view !== "day") {
+      for (let day = from; day <= to; day = addDays(day, 7)) {
+        this.weeks.push(this.layoutWeek(day, visible));
+      }
+    }
+    this.runSheet = this.view === "day" ? this.buildRunSheet(from) : [];
+  }
+
+  /**
+   * Place each booking running in the week on the first lane that is free
+   * for all of its days, longest bookings first
+   */
+  private layoutWeek(first: string, bookings: Booking[]): ScheduleWeek {
+    const last = addDays(first, 6);
+    const laneEnds: string[] = [];
+    const segments = bookings
+      .map((booking) => ({ booking, ...bookingDays(booking) }))
+      .filter(({ start, end }) => start && start <= last && end >= first)
+      .sort(
+        (a, b) =>
+          a.start.localeCompare(b.start) ||
+          daysBetween(b.start, b.end) - daysBetween(a.start, a.end)
+      )
+      .map(({ booking, start, end }) => {
+        const from = start < first ? first : start;
+        const to = end > last ? last : end;
+        let lane = laneEnds.findIndex((laneEnd) => laneEnd < from);
+        if (lane === -1) {
+          lane = laneEnds.length;
+        }
+        laneEnds[lane] = to;
+        return {
+          booking,
+          column: daysBetween(first, from) + 1,
+          span: daysBetween(from, to) + 1,
+          lane,
+          continuesBefore: start < first,
+          continuesAfter: end > last,
+        };
+      });
+
+    return {
+      days: Array.from({ length: 7 }, (_, i) => addDays(first, i)),
+      segments,
+      lanes: laneEnds.length,
+    };
+  }
+
+  // Rental pickups and returns, and tours and transfers, by pickup time
+  private buildRunSheet(day: string): RunSheetEntry[] {
+    const entries: RunSheetEntry[] = [];
+    this.bookings
+      .filter(
+        (booking) =>
+          !CLOSED_STATUSES.includes(booking.status) &&
+          booking.status !== "suspended"
+      )
+      .forEach((booking) => {
+        const { start, end } = bookingDays(booking);
+        const isRental = !!booking.rentalStart;
+        if (start === day) {
+          entries.push({
+            booking,
+            job: isRental
+              ? `${booking.serviceName} pickup`
+              : booking.serviceName,
+            time: booking.pickup?.time || null,
+            location: booking.pickup?.location || null,
+          });
+        }
+        if (isRental && end === day) {
+          entries.push({
+            booking,
+            job: `${booking.serviceName} return`,
+            time: null,
+            location: null,
+          });
+        }
+      });
+
+    // Entries without a time go last
+    return entries.sort((a, b) =>
+      (a.time || "99:99").localeCompare(b.time || "99:99")
+    );
+  }
+
+  setView(view: ScheduleView) {
+    this.view = view;
+    this.load();
+  }
+
+  openDay(day: string) {
+    this.focusDay = day;
+    this.setView("day");
+  }
+
+  goToToday() {
+    this.today = todayKey();
+    this.focusDay = this.today;
+    this.load();
+  }
+
+  move(direction: 1 | -1) {
+    if (this.view === "day") {
+      this.focusDay = addDays(this.focusDay, direction);
+    } else if (this.view === "week") {
+      this.focusDay = addDays(this.focusDay, 7 * direction);
+    } else {
+      const month = this.focusDay.slice(0, 7);
+      const target =
+        direction === 1
+          ? addDays(`${month}-28`, 4)
+          : addDays(`${month}-01`, -1);
+      this.focusDay = `${target.slice(0, 7)}-01`;
+    }
+    this.load();
+  }
+
+  /**
+   * Print the run sheet of the day shown, or of today from the other views
+   */
+  printRunSheet() {
+    if (this.view === "day" && !this.loading) {
+      window.print();
+      return;
+    }
+    this.printWhenLoaded = true;
+    if (this.view !== "day") {
+      this.today = todayKey();
+      this.openDay(this.today);
+    }
+  }
+
+  get title(): string {
+    const { from, to } = this.range;
+    if (this.view === "day") {
+      return this.formatDay(from, {
+        weekday: "long",
+        day: "numeric",
+        month: "long",
+        year: "numeric",
+      });
+    }
+    if (this.view === "week") {
+      return `${this.formatDay(from, {
+        day: "numeric",
+        month: "short",
+      })} – ${this.formatDay(to, {
+        day: "numeric",
+        month: "short",
+        year: "numeric",
+      })}`;
+    }
+    return this.formatDay(`${this.focusDay.slice(0, 7)}-01`, {
+      month: "long",
+      year: "numeric",
+    });
+  }
+
+  private formatDay(day: string, options: Intl.DateTimeFormatOptions): string {
+    return new Date(`${day}T00:00:00Z`).toLocaleDateString("en-GB", {
+      ...options,
+      timeZone: "UTC",
+    });
+  }
+
+  // Day numbers on the first row, then one row per lane
+  weekRows(week: ScheduleWeek): string {
+    return `28px repeat(${week.lanes}, 24px) 1fr`;
+  }
+
+  isOutsideMonth(day: string): boolean {
+    return (
+      this.view === "month" && day.slice(0, 7) !== this.focusDay.slice(0, 7)
+    );
+  }
+
+  dayNumber(day: string): number {
+    return Number(day.slice(8));
+  }
+
+  eventLabel(booking: Booking): string {
+    const time =
+      booking.pickup?.time && this.view === "week"
+        ? `${booking.pickup.time} `
+        : "";
+    return `${time}${booking.customerName} · ${booking.serviceName}`;
+  }
+
+  eventTitle(booking: Booking): string {
+    const { start, end } = bookingDays(booking);
+    const dates = start === end ? start : `${start} to ${end}`;
+    return (
+      `${booking.customerName} (${booking.customerPhone})\n` +
+      `${booking.serviceName}, ${dates}\n` +
+      `${this.statusLabels[booking.status] || booking.status}` +
+      (booking.vehicleName ? `, ${booking.vehicleName}` : "")
+    );
+  }
+}
@@ -0,0 +1,365 @@
+import { Component, OnInit, OnDestroy } from "@angular/core";
+import { CommonModule } from "@angular/common";
+import { FormsModule } from "@angular/forms";
+import { Router } from "@angular/router";
+import { Subscription } from "rxjs";
+import { ServicesService } from "../../services/services.service";
+import { Service, ServiceFormData } from "../../models/booking.model";
+
+/**
+ * Admin screen for maintaining the service catalog shown on the public site.
+ * Prices, descriptions and ordering are stored in Firestore, so changes go
+ * live without a redeploy.
+ */
+@Component({
+  selector: "app-service-catalog",
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="admin-container">
+      <header class="admin-header">
+        <div class="container">
+          <div class="header-content">
+            <div class="logo">
+              <h1>Service Catalog</h1>
+            </div>
+            <div class="header-actions">
+              <button class="btn-small btn-secondary" (click)="goBack()">
+                Back to Dashboard
+              </button>
+              <button class="btn-small btn-info" (click)="startCreate()">
+                New Service
+              </button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div class="dashboard-content">
+        <div class="container">
+          <div *ngIf="errorMessage" class="error-message">
+            {{ errorMessage }}
+          </div>
+
+          <div *ngIf="!loading && services.length === 0" class="empty-state">
+            <p>The catalog is empty.</p>
+            <button
+              class="btn-small btn-info"
+              (click)="importDefaults()"
+              [disabled]="isSaving"
+            >
+              Import default services
+            </button>
+          </div>
+
+          <div class="services-table" *ngIf="services.length > 0">
+            <div class="table-header">
+              <div class="col">Order</div>
+              <div class="col">Service</div>
+              <div class="col">Price (MUR)</div>
+              <div class="col">Status</div>
+              <div class="col">Actions</div>
+            </div>
+            <div
+              *ngFor="let service of services; let i = index; let last = last"
+              class="table-row"
+              [class.inactive]="!service.active"
+            >
+              <div class="col order-buttons">
+                <button
+                  class="btn-small btn-secondary"
+                  (click)="move(i, -1)"
+                  [disabled]="i === 0 || isSaving"
+                  aria-label="Move up"
+                >
+                  ↑
+                </button>
+                <button
+                  class="btn-small btn-secondary"
+                  (click)="move(i, 1)"
+                  [disabled]="last || isSaving"
+                  aria-label="Move down"
+                >
+                  ↓
+                </button>
+              </div>
+              <div class="col">
+                <div class="service-info">
+                  <strong>{{ service.name }}</strong>
+                  <span>{{ service.duration }}</span>
+                </div>
+              </div>
+              <div class="col">{{ service.price | number : "1.0-0" }}</div>
+              <div class="col">
+                <span
+                  class="status-badge"
+                  [ngClass]="
+                    service.active ? 'status-confirmed' : 'status-cancelled'
+                  "
+                >
+                  {{ service.active ? "Active" : "Inactive" }}
+                </span>
+              </div>
+              <div class="col">
+                <div class="action-buttons">
+                  <button
+                    class="btn-small btn-info"
+                    (click)="startEdit(service)"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    class="btn-small"
+                    [ngClass]="service.active ? 'btn-warning' : 'btn-success'"
+                    (click)="toggleActive(service)"
+                    [disabled]="isSaving"
+                  >
+                    {{ service.active ? "Deactivate" : "Activate" }}
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <!-- Create / Edit Modal -->
+      <div *ngIf="showEditor" class="modal-overlay" (click)="closeEditor()">
+        <div class="modal" (click)="$event.stopPropagation()">
+          <div class="modal-header">
+            <h3>{{ editingId ? "Edit Service" : "New Service" }}</h3>
+            <button class="close-btn" (click)="closeEditor()">&times;</button>
+          </div>
+          <div class="modal-body">
+            <form (ngSubmit)="save()" #serviceForm="ngForm" novalidate>
+              <div class="form-group">
+                <label for="name">Name *</label>
+                <input
+                  id="name"
+                  name="name"
+                  class="form-input"
+                  [(ngModel)]="formData.name"
+                  required
+                  minlength="2"
+                />
+              </div>
+              <div class="form-group">
+                <label for="description">Description *</label>
+                <textarea
+                  id="description"
+                  name="description"
+                  class="form-input"
+                  rows="3"
+                  [(ngModel)]="formData.description"
+                  required
+                ></textarea>
+              </div>
+              <div class="form-row">
+                <div class="form-group">
+                  <label for="price">Price (MUR) *</label>
+                  <input
+                    id="price"
+                    name="price"
+                    type="number"
+                    min="0"
+                    class="form-input"
+                    [(ngModel)]="formData.price"
+                    required
+                  />
+                </div>
+                <div class="form-group">
+                  <label for="duration">Duration</label>
+                  <input
+                    id="duration"
+                    name="duration"
+                    class="form-input"
+                    placeholder="e.g. Per day"
+                    [(ngModel)]="formData.duration"
+                  />
+                </div>
+              </div>
+              <div class="form-group">
+                <label for="imageUrl">Image URL</label>
+                <input
+                  id="imageUrl"
+                  name="imageUrl"
+                  class="form-input"
+                  placeholder="assets/service-images/..."
+                  [(ngModel)]="formData.imageUrl"
+                />
+              </div>
+              <div class="form-group">
+                <label for="features">Features (one per line)</label>
+                <textarea
+                  id="features"
+                  name="features"
+                  class="form-input"
+                  rows="5"
+                  [(ngModel)]="featuresText"
+                ></textarea>
+              </div>
+              <button
+                type="submit"
+                class="btn-primary"
+                [disabled]="!serviceForm.valid || isSaving"
+              >
+                {{ isSaving ? "Saving..." : "Save" }}
+              </button>
+            </form>
+          </div>
+        </div>
+      </div>
+    </div>
+  `,
+  styleUrls: [
+    "../admin-dashboard/admin-dashboard.component.scss",
+    "./service-catalog.component.scss",
+  ],
+})
+export class ServiceCatalogComponent implements OnInit, OnDestroy {
+  services: Service[] = [];
+  loading = true;
+  isSaving = false;
+  errorMessage = "";
+  showEditor = false;
+  editingId: string | null = null;
+  formData: ServiceFormData = this.emptyForm();
+  featuresText = "";
+
+  private subscriptions: Subscription[] = [];
+
+  constructor(
+    private servicesService: ServicesService,
+    private router: Router
+  ) {}
+
+  ngOnInit() {
+    this.subscriptions.push(
+      this.servicesService.getAllServices().subscribe((services) => {
+        this.services = services;
+        this.loading = false;
+      })
+    );
+  }
+
+  ngOnDestroy() {
+    this.subscriptions.forEach((sub) => sub.unsubscribe());
+  }
+
+  goBack() {
+    this.router.navigate(["/admin"]);
+  }
+
+  startCreate() {
+    this.editingId = null;
+    this.formData = this.emptyForm();
+    this.featuresText = "";
+    this.showEditor = true;
+  }
+
+  startEdit(service: Service) {
+    this.editingId = service.id;
+    this.formData = {
+      name: service.name,
+      description: service.description,
+      price: service.price,
+      duration: service.duration || "",
+      imageUrl: service.imageUrl || "",
+      features: [...(service.features || [])],
+    };
+    this.featuresText = this.formData.features.join("\n");
+    this.showEditor = true;
+  }
+
+  closeEditor() {
+    this.showEditor = false;
+    this.editingId = null;
+  }
+
+  async save() {
+    this.isSaving = true;
+    this.errorMessage = "";
+
+    const data: ServiceFormData = {
+      ...this.formData,
+      name: this.formData.name.trim(),
+      price: Number(this.formData.price) || 0,
+      features: this.featuresText
+        .split("\n")
+        .map((feature) => feature.trim())
+        .filter((feature) => feature.length > 0),
+    };
+
+    try {
+      if (this.editingId) {
+        await this.servicesService.updateService(this.editingId, data);
+      } else {
+        await this.servicesService.createService(data, this.services.length);
+      }
+      this.closeEditor();
+    } catch (error: any) {
+      console.error("Error saving service:", error);
+      this.errorMessage =
+        error.message || "Error saving service. Please try again.";
+    } finally {
+      this.isSaving = false;
+    }
+  }
+
+  async toggleActive(service: Service) {
+    this.isSaving = true;
+    this.errorMessage = "";
+
+    try {
+      await this.servicesService.setServiceActive(service.id, !service.active);
+    } catch (error) {
+      console.error("Error updating service status:", error);
+      this.errorMessage = "Error updating service status. Please try again.";
+    } finally {
+      this.isSaving = false;
+    }
+  }
+
+  async move(index: number, direction: -1 | 1) {
+    const target = index + direction;
+    if (target < 0 || target >= this.services.length) return;
+
+    const ids = this.services.map((service) => service.id);
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+
+    this.isSaving = true;
+    this.errorMessage = "";
+    try {
+      await this.servicesService.reorderServices(ids);
+    } catch (error) {
+      console.error("Error reordering services:", error);
+      this.errorMessage = "Error reordering services. Please try again.";
+    } finally {
+      this.isSaving = false;
+    }
+  }
+
+  async importDefaults() {
+    this.isSaving = true;
+    this.errorMessage = "";
+    try {
+      await this.servicesService.seedDefaultServices();
+    } catch (error) {
+      console.error("Error importing default services:", error);
+      this.errorMessage = "Error importing default services. Please try again.";
+    } finally {
+      this.isSaving = false;
+    }
+  }
+
+  private emptyForm(): ServiceFormData {
+    return {
+      name: "",
+      description: "",
+      price: 0,
+      duration: "",
+      imageUrl: "",
+      features: [],
+    };
+  }
+}
@@ -0,0 +1,280 @@
+import { Component, OnInit, OnDestroy } from "@angular/core";
+import { CommonModule } from "@angular/common";
+import { FormsModule } from "@angular/forms";
+import { Router } from "@angular/router";
+import { Subscription } from "rxjs";
+import { StaffService } from "../../services/staff.service";
+import {
+  StaffFormData,
+  StaffKind,
+  StaffMember,
+} from "../../models/booking.model";
+
+/**
+ * Admin screen for the drivers and guides who can be assigned to tours and
+ * transfers. A staff member whose sign-in email matches a driver account
+ * sees their jobs at /driver.
+ */
+@Component({
+  selector: "app-staff",
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="admin-container">
+      <header class="admin-header">
+        <div class="container">
+          <div class="header-content">
+            <div class="logo">
+              <h1>Drivers &amp; Guides</h1>
+            </div>
+            <div class="header-actions">
+              <button class="btn-small btn-secondary" (click)="goBack()">
+                Back to Dashboard
+              </button>
+              <button class="btn-small btn-info" (click)="startCreate()">
+                New Staff Member
+              </button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div class="dashboard-content">
+        <div class="container">
+          <div *ngIf="errorMessage" class="error-message">
+            {{ errorMessage }}
+          </div>
+
+          <div *ngIf="!loading && staff.length === 0" class="empty-state">
+            <p>No drivers or guides yet.</p>
+          </div>
+
+          <div class="staff-table" *ngIf="staff.length > 0">
+            <div class="table-header">
+              <div class="col">Name</div>
+              <div class="col">Role</div>
+              <div class="col">Sign-in Email</div>
+              <div class="col">Status</div>
+              <div class="col">Actions</div>
+            </div>
+            <div
+              *ngFor="let member of staff"
+              class="table-row"
+              [class.inactive]="!member.active"
+            >
+              <div class="col">
+                <div class="staff-info">
+                  <strong>{{ member.name }}</strong>
+                  <span>{{ member.phone }}</span>
+                </div>
+              </div>
+              <div class="col">{{ kindLabels[member.kind] }}</div>
+              <div class="col">{{ member.email || "No driver account" }}</div>
+              <div class="col">
+                <span
+                  class="status-badge"
+                  [ngClass]="
+                    member.active ? 'status-confirmed' : 'status-cancelled'
+                  "
+                >
+                  {{ member.active ? "Active" : "Inactive" }}
+                </span>
+              </div>
+              <div class="col">
+                <div class="action-buttons">
+                  <button
+                    class="btn-small btn-info"
+                    (click)="startEdit(member)"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    class="btn-small"
+                    [ngClass]="member.active ? 'btn-warning' : 'btn-success'"
+                    (click)="toggleActive(member)"
+                    [disabled]="isSaving"
+                  >
+                    {{ member.active ? "Deactivate" : "Activate" }}
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <!-- Create / Edit Modal -->
+      <div *ngIf="showEditor" class="modal-overlay" (click)="closeEditor()">
+        <div class="modal" (click)="$event.stopPropagation()">
+          <div class="modal-header">
+            <h3>{{ editingId ? "Edit Staff Member" : "New Staff Member" }}</h3>
+            <button class="close-btn" (click)="closeEditor()">&times;</button>
+          </div>
+          <div class="modal-body">
+            <form (ngSubmit)="save()" #staffForm="ngForm" novalidate>
+              <div class="form-group">
+                <label for="name">Name *</label>
+                <input
+                  id="name"
+                  name="name"
+                  class="form-input"
+                  [(ngModel)]="formData.name"
+                  required
+                  minlength="2"
+                />
+              </div>
+              <div class="form-row">
+                <div class="form-group">
+                  <label for="phone">Phone *</label>
+                  <input
+                    id="phone"
+                    name="phone"
+                    type="tel"
+                    class="form-input"
+                    [(ngModel)]="formData.phone"
+                    required
+                  />
+                </div>
+                <div class="form-group">
+                  <label for="kind">Role *</label>
+                  <select
+                    id="kind"
+                    name="kind"
+                    class="form-input"
+                    [(ngModel)]="formData.kind"
+                    required
+                  >
+                    <option *ngFor="let kind of kinds" [value]="kind">
+                      {{ kindLabels[kind] }}
+                    </option>
+                  </select>
+                </div>
+              </div>
+              <div class="form-group">
+                <label for="email">Sign-in Email</label>
+                <input
+                  id="email"
+                  name="email"
+                  type="email"
+                  class="form-input"
+                  [(ngModel)]="formData.email"
+                />
+                <small class="form-hint"
+                  >Invite this email with the Driver role from Users so they can
+                  see their jobs on their phone.</small
+                >
+              </div>
+              <button
+                type="submit"
+                class="btn-primary"
+                [disabled]="!staffForm.valid || isSaving"
+              >
+                {{ isSaving ? "Saving..." : "Save" }}
+              </button>
+            </form>
+          </div>
+        </div>
+      </div>
+    </div>
+  `,
+  styleUrls: [
+    "../admin-dashboard/admin-dashboard.component.scss",
+    "./staff.component.scss",
+  ],
+})
+export class StaffComponent implements OnInit, OnDestroy {
+  staff: StaffMember[] = [];
+  loading = true;
+  isSaving = false;
+  errorMessage = "";
+  showEditor = false;
+  editingId: string | null = null;
+  formData: StaffFormData = this.emptyForm();
+
+  readonly kinds: StaffKind[] = ["driver", "guide"];
+  readonly kindLabels: Record<StaffKind, string> = {
+    driver: "Driver",
+    guide: "Guide",
+  };
+
+  private subscriptions: Subscription[] = [];
+
+  constructor(private staffService: StaffService, private router: Router) {}
+
+  ngOnInit() {
+    this.subscriptions.push(
+      this.staffService.getAllStaff().subscribe((staff) => {
+        this.staff = staff;
+        this.loading = false;
+      })
+    );
+  }
+
+  ngOnDestroy() {
+    this.subscriptions.forEach((sub) => sub.unsubscribe());
+  }
+
+  goBack() {
+    this.router.navigate(["/admin"]);
+  }
+
+  startCreate() {
+    this.editingId = null;
+    this.formData = this.emptyForm();
+    this.showEditor = true;
+  }
+
+  startEdit(member: StaffMember) {
+    this.editingId = member.id;
+    this.formData = {
+      name: member.name,
+      phone: member.phone,
+      kind: member.kind,
+      email: member.email || "",
+    };
+    this.showEditor = true;
+  }
+
+  closeEditor() {
+    this.showEditor = false;
+    this.editingId = null;
+  }
+
+  async save() {
+    this.isSaving = true;
+    this.errorMessage = "";
+
+    try {
+      if (this.editingId) {
+        await this.staffService.updateStaff(this.editingId, this.formData);
+      } else {
+        await this.staffService.createStaff(this.formData);
+      }
+      this.closeEditor();
+    } catch (error: any) {
+      console.error("Error saving staff member:", error);
+      this.errorMessage =
+        error.message || "Error saving staff member. Please try again.";
+    } finally {
+      this.isSaving = false;
+    }
+  }
+
+  async toggleActive(member: StaffMember) {
+    this.isSaving = true;
+    this.errorMessage = "";
+
+    try {
+      await this.staffService.setStaffActive(member.id, !member.active);
+    } catch (error) {
+      console.error("Error updating staff status:", error);
+      this.errorMessage = "Error updating staff status. Please try again.";
+    } finally {
+      this.isSaving = false;
+    }
+  }
+
+  private emptyForm(): StaffFormData {
+    return { name: "", phone: "", kind: "driver", email: "" };
+  }
+}
@@ -0,0 +1,69 @@
+import {
+  Directive,
+  Input,
+  OnDestroy,
+  OnInit,
+  Renderer2,
+  TemplateRef,
+  ViewContainerRef,
+} from "@angular/core";
+import { Subscription } from "rxjs";
+import { PermissionService } from "../services/permission.service";
+import { Permission } from "../models/permission.model";
+
+/**
+ * Renders its element only when the signed-in user has the permission:
+ *
+ *   <button *appHasPermission="Permission.CONFIRM_BOOKINGS">Confirm</button>
+ *
+ * With `disable: true` the element is always rendered but disabled when the
+ * permission is missing:
+ *
+ *   <button *appHasPermission="Permission.EDIT_BOOKINGS; disable: true">
+ */
+@Directive({
+  selector: "[appHasPermission]",
+  standalone: true,
+})
+export class HasPermissionDirective implements OnInit, OnDestroy {
+  @Input("appHasPermission") permission!: Permission;
+  @Input("appHasPermissionDisable") disable = false;
+
+  private subscription?: Subscription;
+
+  constructor(
+    private templateRef: TemplateRef<unknown>,
+    private viewContainer: ViewContainerRef,
+    private permissionService: PermissionService,
+    private renderer: Renderer2
+  ) {}
+
+  ngOnInit() {
+    this.subscription = this.permissionService
+      .hasPermission(this.permission)
+      .subscribe((allowed) => this.render(allowed));
+  }
+
+  ngOnDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  private render(allowed: boolean) {
+    this.viewContainer.clear();
+    if (!allowed && !this.disable) return;
+
+    const view = this.viewContainer.createEmbeddedView(this.templateRef);
+    if (!allowed) {
+      view.rootNodes
+        .filter((node) => node instanceof HTMLElement)
+        .forEach((node) => {
+          this.renderer.setProperty(node, "disabled", true);
+          this.renderer.setAttribute(
+            node,
+            "title",
+            "You do not have permission for this action"
+          );
+        });
+    }
+  }
+}
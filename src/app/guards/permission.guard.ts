@@ -0,0 +1,33 @@
+import { Injectable } from "@angular/core";
+import { ActivatedRouteSnapshot, CanActivate, Router } from "@angular/router";
+import { PermissionService } from "../services/permission.service";
+import { Permission } from "../models/permission.model";
+import { Observable, map, take } from "rxjs";
+
+/**
+ * Allows a route only when the signed-in user has the permission named in
+ * the route's data, e.g. `data: { permission: Permission.MANAGE_CATALOG }`.
+ */
+@Injectable({
+  providedIn: "root",
+})
+export class PermissionGuard implements CanActivate {
+  constructor(
+    private permissionService: PermissionService,
+    private router: Router
+  ) {}
+
+  canActivate(route: ActivatedRouteSnapshot): Observable<boolean> {
+    const permission = route.data["permission"] as Permission;
+    return this.permissionService.hasPermission(permission).pipe(
+      take(1),
+      map((allowed) => {
+        if (!allowed) {
+          this.router.navigate(["/admin"]);
+          return false;
+        }
+        return true;
+      })
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { BookingStatus } from "./booking.model";
+
+// Aggregates returned by getBookingAnalytics (functions/src/analytics.ts)
+export type AnalyticsGranularity = "day" | "week" | "month";
+
+export interface AnalyticsPeriod {
+  period: string; // yyyy-mm-dd (day or week start) or yyyy-mm
+  bookings: number;
+  confirmed: number;
+  cancelled: number;
+  revenue: number;
+}
+
+export interface ServiceAnalytics {
+  serviceName: string;
+  bookings: number;
+  revenue: number;
+}
+
+export interface BookingAnalytics {
+  from: string;
+  to: string;
+  granularity: AnalyticsGranularity;
+  currency: string;
+  totals: {
+    bookings: number;
+    confirmed: number;
+    cancelled: number;
+    revenue: number;
+    conversionRate: number;
+    cancellationRate: number;
+  };
+  statusCounts: Partial<Record<BookingStatus, number>>;
+  overTime: AnalyticsPeriod[];
+  revenueByMonth: AnalyticsPeriod[];
+  revenueByService: ServiceAnalytics[];
+  leadTime: {
+    averageDays: number | null;
+    medianDays: number | null;
+    buckets: { label: string; count: number }[];
+  };
+}
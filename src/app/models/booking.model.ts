@@ -1,23 +1,204 @@
+import { TemplateLocale } from "./notification-template.model";
+
 export interface Booking {
   id?: string;
   customerName: string;
   customerEmail?: string;
   customerPhone: string;
   serviceName: string;
+  serviceId?: string;
   bookingDate?: Date; // for single‑day services
   rentalStart?: Date; // car rental start
   rentalEnd?: Date; // car rental end
+  vehicleId?: string | null; // assigned fleet vehicle (car rental only)
+  vehicleName?: string | null;
+  availabilityConflict?: boolean; // no free vehicle when the booking arrived
+  staffId?: string | null; // assigned driver or guide (tours and transfers)
+  staffName?: string | null;
+  quote?: PriceQuote; // price snapshot taken when the booking was created
+  dateChangeRequest?: DateChangeRequest | null; // submitted by the customer
+  cancelledBy?: string;
+  amountPaid?: number; // running total of the payments ledger
+  paymentStatus?: PaymentStatus;
   notes?: string;
+  locale?: TemplateLocale;
+  preferredChannel?: ContactChannel;
+  pickup?: PickupDetails | null; // sent to the customer on confirmation
   status: BookingStatus;
+  statusTimestamps?: Partial<Record<BookingStatus, Date>>; // when each status was entered
+  statusChangedBy?: string;
+  enquiryOnly?: boolean; // received while payments were switched off
   userId?: string;
   paidAt?: Date;
-  ownerNotifiedAt?: Date;
+  ownerNotifiedAt?: Date; // first successful owner notification
   customerNotifiedAt?: Date;
+  notifications?: Record<string, NotificationDelivery>; // keyed by event, recipient and channel
+  lastCustomerMessageAt?: Date; // latest WhatsApp message from the customer
+  searchTerms?: string[]; // derived for search by the indexBookingForSearch function
+  serviceDate?: Date | null; // rental start or booking date, derived likewise
   createdAt: Date;
   updatedAt: Date;
 }
 
-export type BookingStatus = "pending" | "confirmed" | "cancelled";
+export type ContactChannel = "email" | "whatsapp";
+
+export interface PickupDetails {
+  location: string | null;
+  time: string | null; // HH:mm, Mauritius time
+}
+
+export interface PriceQuote {
+  unitPrice: number;
+  units: number; // rental days for per-day services, otherwise 1
+  total: number;
+  currency: string;
+}
+
+export type PaymentMethod = "cash" | "eft" | "mobile_wallet" | "card";
+
+export type PaymentType = "deposit" | "payment" | "refund";
+
+export type PaymentStatus = "unpaid" | "partial" | "paid";
+
+export type NotificationDeliveryStatus =
+  | "pending"
+  | "sending"
+  | "sent"
+  | "failed"
+  | "dead";
+
+export type NotificationEvent =
+  | "new_booking"
+  | "confirmed"
+  | "cancelled"
+  | "rescheduled"
+  | "reminder_day_before"
+  | "reminder_soon"
+  | "return_reminder";
+
+// Delivery status of one outbox message, mirrored on the booking by
+// functions/src/notifications.ts
+export interface NotificationDelivery {
+  id: string; // notifications document ID
+  event?: NotificationEvent;
+  channel: ContactChannel;
+  recipient: "owner" | "customer";
+  status: NotificationDeliveryStatus;
+  attempts: number;
+  lastError?: string;
+  updatedAt?: Date;
+}
+
+// Entry in bookings/{id}/payments, written by the recordPayment function
+export interface Payment {
+  id?: string;
+  amount: number;
+  type: PaymentType;
+  method: PaymentMethod;
+  reference: string;
+  note: string;
+  currency: string;
+  receivedBy: string;
+  receivedAt: Date;
+}
+
+// Entry in bookings/{id}/history, written by the recordBookingHistory function
+export interface BookingHistoryEntry {
+  id?: string;
+  type: "created" | "updated" | "deleted";
+  changes: { field: string; before: any; after: any }[];
+  status: BookingStatus | null;
+  actor: string | null;
+  source: "dashboard" | "function" | "emergency" | "customer" | "unknown";
+  at: Date;
+}
+
+// Message in bookings/{id}/messages, the booking's WhatsApp thread
+export interface BookingMessage {
+  id?: string;
+  direction: "inbound" | "outbound";
+  phone: string;
+  body: string;
+  type: string;
+  template?: string | null;
+  status?: "sent" | "delivered" | "read" | "failed" | null;
+  contactName?: string | null;
+  sentAt: Date;
+}
+
+export type BookingSortField = "createdAt" | "serviceDate" | "customerName";
+
+// Filters and sort order for the admin bookings table
+export interface BookingFilters {
+  status: BookingStatus | null;
+  serviceName: string | null;
+  search: string;
+  serviceDateFrom: string | null; // yyyy-mm-dd, inclusive
+  serviceDateTo: string | null;
+  sortField: BookingSortField;
+  sortDirection: "asc" | "desc";
+}
+
+// booking_stats/all, the all-time counters kept by the updateBookingStats function
+export interface BookingCounts {
+  bookings: number;
+  byStatus: Partial<Record<BookingStatus, number>>;
+}
+
+export interface PaymentFormData {
+  amount: number | null;
+  type: PaymentType;
+  method: PaymentMethod;
+  reference: string;
+  note: string;
+}
+
+export interface DateChangeRequest {
+  bookingDate?: Date;
+  rentalStart?: Date;
+  rentalEnd?: Date;
+  reason?: string | null;
+  status: "pending" | "approved" | "declined";
+  requestedAt?: Date;
+  resolvedAt?: Date;
+}
+
+// Booking as returned to customers by the self-service portal functions
+export interface CustomerBookingView {
+  id: string;
+  customerName: string;
+  serviceName: string;
+  status: BookingStatus;
+  bookingDate: string | null; // ISO timestamps
+  rentalStart: string | null;
+  rentalEnd: string | null;
+  notes: string;
+  quote: PriceQuote | null;
+  dateChangeRequest:
+    | (Omit<
+        DateChangeRequest,
+        "bookingDate" | "rentalStart" | "rentalEnd" | "requestedAt"
+      > & {
+        bookingDate: string | null;
+        rentalStart: string | null;
+        rentalEnd: string | null;
+        requestedAt: string | null;
+      })
+    | null;
+  canModify: boolean;
+  changeDeadline: string | null;
+}
+
+export type BookingStatus =
+  | "pending"
+  | "quoted"
+  | "deposit_paid"
+  | "confirmed"
+  | "in_progress"
+  | "completed"
+  | "no_show"
+  | "cancelled"
+  | "suspended";
 
 export interface Service {
   id: string;
@@ -27,6 +208,65 @@ export interface Service {
   duration?: string;
   imageUrl?: string;
   features: string[];
+  active: boolean; // inactive services are hidden from the public site
+  sortOrder: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export type ServiceFormData = Omit<
+  Service,
+  "id" | "active" | "sortOrder" | "createdAt" | "updatedAt"
+>;
+
+export interface Vehicle {
+  id?: string;
+  name: string;
+  registration: string;
+  seats?: number;
+  active: boolean;
+}
+
+export type StaffKind = "driver" | "guide";
+
+// Driver or guide in the staff collection
+export interface StaffMember {
+  id: string;
+  name: string;
+  phone: string;
+  kind: StaffKind;
+  email?: string | null; // sign-in email of their driver account
+  uid?: string | null; // driver account linked to the record
+  active: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export type StaffFormData = Pick<StaffMember, "name" | "phone" | "kind"> & {
+  email: string;
+};
+
+// Job returned by the getMyJobs function for the signed-in driver
+export interface DriverJob {
+  id: string;
+  serviceName: string;
+  date: string; // yyyy-mm-dd
+  pickup: PickupDetails | null;
+  customerName: string;
+  customerPhone: string;
+  customerEmail: string | null;
+  notes: string | null;
+  status: BookingStatus;
+}
+
+export interface DriverJobs {
+  staff: { id: string; name: string; kind: StaffKind } | null;
+  jobs: DriverJob[];
+}
+
+export interface RentalAvailability {
+  fleetSize: number;
+  unavailableDates: string[]; // yyyy‑mm‑dd days with every car taken
 }
 
 export interface BookingFormData {
@@ -38,4 +278,8 @@ export interface BookingFormData {
   startDate?: string; // yyyy‑mm‑dd for car rental
   endDate?: string; // yyyy‑mm‑dd for car rental
   notes?: string;
+  locale?: TemplateLocale; // language for our messages to the customer
+  preferredChannel?: ContactChannel;
+  website?: string; // honeypot, always empty for real customers
+  fillTimeMs?: number; // time spent on the form before submitting
 }
@@ -0,0 +1,27 @@
+// Notification templates rendered by functions/src/notification-templates.ts
+export type TemplateLocale = "en" | "fr" | "mfe";
+
+export const TEMPLATE_LOCALE_LABELS: Record<TemplateLocale, string> = {
+  en: "English",
+  fr: "Français",
+  mfe: "Kreol Morisien",
+};
+
+export interface NotificationTemplateSummary {
+  name: string;
+  description: string;
+  variables: string[];
+}
+
+export interface RenderedNotification {
+  subject: string;
+  text: string;
+  html: string;
+  whatsapp: string;
+}
+
+export interface TemplatePreviewResponse {
+  templates: NotificationTemplateSummary[];
+  locales: TemplateLocale[];
+  preview: RenderedNotification | null;
+}
@@ -0,0 +1,67 @@
+// Mirrors the Permission enum in functions/src/admin.ts, which sets these on
+// each staff user's custom claims
+export enum Permission {
+  VIEW_BOOKINGS = "view_bookings",
+  EDIT_BOOKINGS = "edit_bookings",
+  DELETE_BOOKINGS = "delete_bookings",
+  CONFIRM_BOOKINGS = "confirm_bookings",
+  VIEW_ASSIGNED_JOBS = "view_assigned_jobs",
+  UPDATE_ASSIGNED_JOBS = "update_assigned_jobs",
+  MANAGE_CATALOG = "manage_catalog",
+  VIEW_PAYMENTS = "view_payments",
+  PROCESS_PAYMENTS = "process_payments",
+  GENERATE_PAYMENT_LINKS = "generate_payment_links",
+  VIEW_USERS = "view_users",
+  MANAGE_USERS = "manage_users",
+  ASSIGN_ROLES = "assign_roles",
+  VIEW_ANALYTICS = "view_analytics",
+  MANAGE_SYSTEM = "manage_system",
+  VIEW_LOGS = "view_logs",
+}
+
+// Result of the getUserPermissions function
+export interface UserPermissions {
+  uid: string;
+  admin: boolean;
+  role: string | null;
+  permissions: Permission[];
+}
+
+// Mirrors AdminRole in functions/src/admin.ts
+export enum AdminRole {
+  SUPER_ADMIN = "super_admin",
+  ADMIN = "admin",
+  MANAGER = "manager",
+  VIEWER = "viewer",
+  DRIVER = "driver",
+}
+
+// Entry returned by the listAdminUsers function
+export interface AdminUser {
+  uid: string;
+  email?: string;
+  displayName?: string;
+  role: AdminRole | null;
+  permissions: Permission[];
+  lastSignIn?: string;
+  createdAt?: string;
+}
+
+// Pending request returned by the getPendingRoleRequests function
+export interface RoleAssignmentRequest {
+  id: string;
+  targetUid: string;
+  targetEmail?: string | null;
+  role: AdminRole;
+  businessJustification: string;
+  requestedBy: string;
+  status: string;
+  createdAt?: any;
+}
+
+export interface AdminInviteFormData {
+  email: string;
+  displayName: string;
+  role: AdminRole;
+  businessJustification: string;
+}
@@ -0,0 +1,12 @@
+// Public summary kept in system_config/status by functions/src/system-config.ts
+export interface SystemStatus {
+  paymentsEnabled: boolean;
+  maintenanceMode: boolean;
+  message: string | null;
+}
+
+export const DEFAULT_SYSTEM_STATUS: SystemStatus = {
+  paymentsEnabled: true,
+  maintenanceMode: false,
+  message: null,
+};
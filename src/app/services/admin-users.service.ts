@@ -0,0 +1,93 @@
+import { Injectable } from "@angular/core";
+import { Functions, httpsCallable } from "@angular/fire/functions";
+import {
+  AdminInviteFormData,
+  AdminRole,
+  AdminUser,
+  RoleAssignmentRequest,
+} from "../models/permission.model";
+
+/**
+ * Staff account management. Role changes go through the Super Admin approval
+ * workflow in functions/src/super-admin.ts.
+ */
+@Injectable({
+  providedIn: "root",
+})
+export class AdminUsersService {
+  constructor(private functions: Functions) {}
+
+  async listAdminUsers(): Promise<AdminUser[]> {
+    const callable = httpsCallable<void, { adminUsers: AdminUser[] }>(
+      this.functions,
+      "listAdminUsers"
+    );
+    const result = await callable();
+    return result.data.adminUsers;
+  }
+
+  /**
+   * Creates the account and emails the new admin a password setup link
+   */
+  async inviteAdminUser(invite: AdminInviteFormData): Promise<void> {
+    const callable = httpsCallable<AdminInviteFormData, { success: boolean }>(
+      this.functions,
+      "inviteAdminUser"
+    );
+    await callable(invite);
+  }
+
+  async requestRoleAssignment(
+    targetUid: string,
+    role: AdminRole,
+    businessJustification: string
+  ): Promise<void> {
+    const callable = httpsCallable<
+      { targetUid: string; role: AdminRole; businessJustification: string },
+      { success: boolean }
+    >(this.functions, "requestRoleAssignment");
+    await callable({ targetUid, role, businessJustification });
+  }
+
+  async getPendingRoleRequests(): Promise<RoleAssignmentRequest[]> {
+    const callable = httpsCallable<void, { requests: RoleAssignmentRequest[] }>(
+      this.functions,
+      "getPendingRoleRequests"
+    );
+    const result = await callable();
+    return result.data.requests;
+  }
+
+  async resolveRoleRequest(
+    requestId: string,
+    action: "approve" | "reject",
+    reason?: string
+  ): Promise<void> {
+    const callable = httpsCallable<
+      { requestId: string; action: string; reason?: string },
+      { success: boolean }
+    >(this.functions, "approveRoleAssignment");
+    await callable({ requestId, action, reason });
+  }
+
+  async removeAdminRole(targetUid: string): Promise<void> {
+    const callable = httpsCallable<{ targetUid: string }, { success: boolean }>(
+      this.functions,
+      "removeAdminRole"
+    );
+    await callable({ targetUid });
+  }
+
+  // Re-applies each admin's role permissions to their claims
+  async refreshAdminPermissions(): Promise<{
+    updated: number;
+    withoutRole: string[];
+  }> {
+    const callable = httpsCallable<
+      void,
+      { success: boolean; updated: number; withoutRole: string[] }
+    >(this.functions, "refreshAdminPermissions");
+    const result = await callable();
+    return result.data;
+  }
+}
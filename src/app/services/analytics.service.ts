@@ -0,0 +1,33 @@
+import { Injectable } from "@angular/core";
+import { Functions, httpsCallable } from "@angular/fire/functions";
+import {
+  AnalyticsGranularity,
+  BookingAnalytics,
+} from "../models/analytics.model";
+
+/**
+ * Booking analytics, aggregated server-side for a range of days
+ */
+@Injectable({
+  providedIn: "root",
+})
+export class AnalyticsService {
+  constructor(private functions: Functions) {}
+
+  /**
+   * Dates are yyyy-mm-dd Mauritius days, both inclusive. Without a
+   * granularity the function picks one to suit the length of the range.
+   */
+  async getBookingAnalytics(
+    from: string,
+    to: string,
+    granularity?: AnalyticsGranularity
+  ): Promise<BookingAnalytics> {
+    const callable = httpsCallable<
+      { from: string; to: string; granularity?: AnalyticsGranularity },
+      BookingAnalytics
+    >(this.functions, "getBookingAnalytics");
+    const result = await callable({ from, to, granularity });
+    return result.data;
+  }
+}
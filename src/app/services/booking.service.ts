@@ -1,22 +1,49 @@
 import { Injectable } from "@angular/core";
 import {
+  DocumentData,
   Firestore,
+  QueryConstraint,
+  QueryDocumentSnapshot,
   collection,
-  addDoc,
   collectionData,
+  collectionSnapshots,
   doc,
-  updateDoc,
+  docData,
+  limit,
   query,
   orderBy,
+  startAfter,
   where,
 } from "@angular/fire/firestore";
-import { deleteField } from "firebase/firestore";
+import { Functions, httpsCallable } from "@angular/fire/functions";
 import { Observable } from "rxjs";
+import { map } from "rxjs/operators";
 import {
   Booking,
+  BookingCounts,
+  BookingFilters,
   BookingFormData,
+  BookingHistoryEntry,
+  BookingMessage,
   BookingStatus,
+  PickupDetails,
 } from "../models/booking.model";
+import {
+  matchesSearchWords,
+  parseBookingSearch,
+} from "../utils/booking-search";
+import { MAX_RENTAL_DAYS, addDays, bookingDays } from "../utils/schedule";
+
+export type BookingCursor = QueryDocumentSnapshot<DocumentData>;
+
+export interface BookingPage {
+  bookings: Booking[];
+  // Pass to getBookingsPage for the following page
+  cursor: BookingCursor | null;
+  hasMore: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 @Injectable({
   providedIn: "root",
@@ -24,46 +51,131 @@ import {
 export class BookingService {
   private readonly bookingsCollection = "bookings";
 
-  constructor(private firestore: Firestore) {}
-
-  createBooking(bookingData: BookingFormData): Promise<string> {
-    const base: Partial<Omit<Booking, "id">> = {
-      customerName: bookingData.customerName,
-      customerPhone: bookingData.customerPhone,
-      serviceName: bookingData.serviceName,
-      notes: bookingData.notes,
-      status: "pending",
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
-
-    if (bookingData.customerEmail?.trim()) {
-      base.customerEmail = bookingData.customerEmail.trim();
+  constructor(private firestore: Firestore, private functions: Functions) {}
+
+  /**
+   * Bookings are created by the createBooking function, which validates and
+   * normalises the form data. Returns the new booking ID.
+   */
+  async createBooking(bookingData: BookingFormData): Promise<string> {
+    const callable = httpsCallable<
+      BookingFormData,
+      { success: boolean; bookingId: string }
+    >(this.functions, "createBooking");
+    const result = await callable(bookingData);
+    return result.data.bookingId;
+  }
+
+  /**
+   * Live page of bookings for the admin table, starting after the cursor of
+   * the previous page. Every combination of filters and sort field has a
+   * composite index in firestore.indexes.json. Firestore only allows a
+   * range on the field it sorts by, so a service-date range always sorts by
+   * service date.
+   */
+  getBookingsPage(
+    filters: BookingFilters,
+    pageSize: number,
+    after: BookingCursor | null = null
+  ): Observable<BookingPage> {
+    const search = parseBookingSearch(filters.search);
+    const hasDateRange = !!(filters.serviceDateFrom || filters.serviceDateTo);
+    const constraints: QueryConstraint[] = [];
+
+    if (filters.status) {
+      constraints.push(where("status", "==", filters.status));
+    }
+    if (filters.serviceName) {
+      constraints.push(where("serviceName", "==", filters.serviceName));
     }
-    if (bookingData.bookingDate) {
-      base.bookingDate = new Date(bookingData.bookingDate);
+    if (search.term) {
+      constraints.push(where("searchTerms", "array-contains", search.term));
     }
-    if (bookingData.startDate) {
-      base.rentalStart = new Date(bookingData.startDate);
+    // Service dates are stored as midnight UTC of the chosen day
+    if (filters.serviceDateFrom) {
+      constraints.push(
+        where(
+          "serviceDate",
+          ">=",
+          new Date(`${filters.serviceDateFrom}T00:00:00Z`)
+        )
+      );
     }
-    if (bookingData.endDate) {
-      base.rentalEnd = new Date(bookingData.endDate);
+    if (filters.serviceDateTo) {
+      constraints.push(
+        where(
+          "serviceDate",
+          "<",
+          new Date(Date.parse(`${filters.serviceDateTo}T00:00:00Z`) + DAY_MS)
+        )
+      );
+    }
+    constraints.push(
+      orderBy(
+        hasDateRange ? "serviceDate" : filters.sortField,
+        filters.sortDirection
+      )
+    );
+    if (after) {
+      constraints.push(startAfter(after));
     }
+    // One extra document tells whether there is a next page
+    constraints.push(limit(pageSize + 1));
 
-    const booking = base as Omit<Booking, "id">;
+    const bookingsRef = collection(this.firestore, this.bookingsCollection);
+    return collectionSnapshots(query(bookingsRef, ...constraints)).pipe(
+      map((snapshots) => {
+        const page = snapshots.slice(0, pageSize);
+        return {
+          bookings: page
+            .map(
+              (snapshot) => ({ id: snapshot.id, ...snapshot.data() } as Booking)
+            )
+            .filter((booking) => matchesSearchWords(booking, search.words)),
+          cursor: page.length ? page[page.length - 1] : null,
+          hasMore: snapshots.length > pageSize,
+        };
+      })
+    );
+  }
 
-    return addDoc(collection(this.firestore, this.bookingsCollection), booking)
-      .then((docRef) => docRef.id)
-      .catch((error) => {
-        console.error("Error creating booking:", error);
-        throw error;
-      });
+  /**
+   * Booking totals by status, read from one counter document rather than
+   * from every booking
+   */
+  getBookingCounts(): Observable<BookingCounts> {
+    const countsRef = doc(this.firestore, "booking_stats", "all");
+    return docData(countsRef).pipe(
+      map((counts) => ({
+        bookings: counts?.["bookings"] || 0,
+        byStatus: counts?.["byStatus"] || {},
+      }))
+    );
   }
 
-  getBookings(): Observable<Booking[]> {
+  /**
+   * Live list of the bookings on any day from one day to another
+   * (yyyy-mm-dd, inclusive), for the schedule. Rentals are found by their
+   * start date, looking back far enough to catch the longest rental still
+   * running on the first day.
+   */
+  getBookingsBetween(from: string, to: string): Observable<Booking[]> {
     const bookingsRef = collection(this.firestore, this.bookingsCollection);
-    const q = query(bookingsRef, orderBy("createdAt", "desc"));
-    return collectionData(q, { idField: "id" }) as Observable<Booking[]>;
+    const q = query(
+      bookingsRef,
+      where(
+        "serviceDate",
+        ">=",
+        new Date(`${addDays(from, -MAX_RENTAL_DAYS)}T00:00:00Z`)
+      ),
+      where("serviceDate", "<", new Date(`${addDays(to, 1)}T00:00:00Z`)),
+      orderBy("serviceDate", "asc")
+    );
+    return (collectionData(q, { idField: "id" }) as Observable<Booking[]>).pipe(
+      map((bookings) =>
+        bookings.filter((booking) => bookingDays(booking).end >= from)
+      )
+    );
   }
 
   getBookingsByStatus(status: string): Observable<Booking[]> {
@@ -76,14 +188,71 @@ export class BookingService {
     return collectionData(q, { idField: "id" }) as Observable<Booking[]>;
   }
 
-  updateBookingStatus(bookingId: string, status: BookingStatus): Promise<void> {
-    const bookingRef = doc(this.firestore, this.bookingsCollection, bookingId);
-    return updateDoc(bookingRef, {
-      status,
-      updatedAt: new Date(),
-      ...(status === "confirmed"
-        ? { paidAt: new Date() }
-        : { paidAt: deleteField() }),
-    });
+  getBookingHistory(bookingId: string): Observable<BookingHistoryEntry[]> {
+    const historyRef = collection(
+      this.firestore,
+      this.bookingsCollection,
+      bookingId,
+      "history"
+    );
+    const q = query(historyRef, orderBy("at", "desc"));
+    return collectionData(q, { idField: "id" }) as Observable<
+      BookingHistoryEntry[]
+    >;
+  }
+
+  getBookingMessages(bookingId: string): Observable<BookingMessage[]> {
+    const messagesRef = collection(
+      this.firestore,
+      this.bookingsCollection,
+      bookingId,
+      "messages"
+    );
+    const q = query(messagesRef, orderBy("sentAt", "asc"));
+    return collectionData(q, { idField: "id" }) as Observable<BookingMessage[]>;
+  }
+
+  /**
+   * Requeue a failed or dead notification; returns true if it was sent
+   */
+  async retryNotification(notificationId: string): Promise<boolean> {
+    const callable = httpsCallable<
+      { notificationId: string },
+      { success: boolean }
+    >(this.functions, "retryNotification");
+    const result = await callable({ notificationId });
+    return result.data.success;
+  }
+
+  /**
+   * Status changes go through the updateBookingStatus function, which
+   * enforces the allowed lifecycle transitions. Pickup details are only
+   * used when confirming.
+   */
+  async updateBookingStatus(
+    bookingId: string,
+    status: BookingStatus,
+    pickup?: PickupDetails
+  ): Promise<void> {
+    const callable = httpsCallable<
+      { bookingId: string; status: BookingStatus; pickup?: PickupDetails },
+      { success: boolean }
+    >(this.functions, "updateBookingStatus");
+    await callable({ bookingId, status, pickup });
+  }
+
+  /**
+   * Approve or decline the customer's date change request. Approving moves
+   * the booking and re-checks car and driver availability for the new dates.
+   */
+  async resolveDateChangeRequest(
+    bookingId: string,
+    action: "approve" | "decline"
+  ): Promise<void> {
+    const callable = httpsCallable<
+      { bookingId: string; action: "approve" | "decline" },
+      { success: boolean }
+    >(this.functions, "resolveDateChangeRequest");
+    await callable({ bookingId, action });
   }
 }
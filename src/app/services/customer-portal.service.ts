@@ -0,0 +1,96 @@
+import { Injectable } from "@angular/core";
+import { Functions, httpsCallable } from "@angular/fire/functions";
+import { CustomerBookingView } from "../models/booking.model";
+
+export interface DateChangeInput {
+  bookingDate?: string;
+  rentalStart?: string;
+  rentalEnd?: string;
+  reason?: string;
+}
+
+/**
+ * Customer self-service access to a single booking. Every call goes through
+ * Cloud Functions, which check the signed access token.
+ */
+@Injectable({
+  providedIn: "root",
+})
+export class CustomerPortalService {
+  private readonly tokenStoragePrefix = "booking-token:";
+
+  constructor(private functions: Functions) {}
+
+  getStoredToken(bookingId: string): string | null {
+    return sessionStorage.getItem(this.tokenStoragePrefix + bookingId);
+  }
+
+  storeToken(bookingId: string, token: string) {
+    sessionStorage.setItem(this.tokenStoragePrefix + bookingId, token);
+  }
+
+  clearToken(bookingId: string) {
+    sessionStorage.removeItem(this.tokenStoragePrefix + bookingId);
+  }
+
+  requestOtp(bookingId: string, phone: string): Promise<string> {
+    const callable = httpsCallable<
+      { bookingId: string; phone: string },
+      { success: boolean; channel: string }
+    >(this.functions, "requestBookingOtp");
+    return callable({ bookingId, phone }).then((result) => result.data.channel);
+  }
+
+  async verifyOtp(bookingId: string, code: string): Promise<string> {
+    const callable = httpsCallable<
+      { bookingId: string; code: string },
+      { token: string }
+    >(this.functions, "verifyBookingOtp");
+    const { token } = (await callable({ bookingId, code })).data;
+    this.storeToken(bookingId, token);
+    return token;
+  }
+
+  getBooking(bookingId: string, token: string): Promise<CustomerBookingView> {
+    const callable = httpsCallable<
+      { bookingId: string; token: string },
+      { booking: CustomerBookingView }
+    >(this.functions, "getCustomerBooking");
+    return callable({ bookingId, token }).then((result) => result.data.booking);
+  }
+
+  cancelBooking(
+    bookingId: string,
+    token: string,
+    reason?: string
+  ): Promise<CustomerBookingView> {
+    return this.updateBooking({ bookingId, token, action: "cancel", reason });
+  }
+
+  requestDateChange(
+    bookingId: string,
+    token: string,
+    change: DateChangeInput
+  ): Promise<CustomerBookingView> {
+    return this.updateBooking({
+      bookingId,
+      token,
+      action: "request_date_change",
+      ...change,
+    });
+  }
+
+  private updateBooking(
+    data: DateChangeInput & {
+      bookingId: string;
+      token: string;
+      action: "cancel" | "request_date_change";
+    }
+  ): Promise<CustomerBookingView> {
+    const callable = httpsCallable<
+      typeof data,
+      { booking: CustomerBookingView }
+    >(this.functions, "updateCustomerBooking");
+    return callable(data).then((result) => result.data.booking);
+  }
+}
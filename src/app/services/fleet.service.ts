@@ -0,0 +1,42 @@
+import { Injectable } from "@angular/core";
+import {
+  Firestore,
+  collection,
+  collectionData,
+  query,
+  where,
+} from "@angular/fire/firestore";
+import { Functions, httpsCallable } from "@angular/fire/functions";
+import { Observable } from "rxjs";
+import { RentalAvailability, Vehicle } from "../models/booking.model";
+
+@Injectable({
+  providedIn: "root",
+})
+export class FleetService {
+  private readonly vehiclesCollection = "vehicles";
+
+  constructor(private firestore: Firestore, private functions: Functions) {}
+
+  getActiveVehicles(): Observable<Vehicle[]> {
+    const vehiclesRef = collection(this.firestore, this.vehiclesCollection);
+    const q = query(vehiclesRef, where("active", "==", true));
+    return collectionData(q, { idField: "id" }) as Observable<Vehicle[]>;
+  }
+
+  getRentalAvailability(from: string, days = 90): Promise<RentalAvailability> {
+    const callable = httpsCallable<
+      { from: string; days: number },
+      RentalAvailability
+    >(this.functions, "getRentalAvailability");
+    return callable({ from, days }).then((result) => result.data);
+  }
+
+  assignVehicle(bookingId: string, vehicleId: string | null): Promise<void> {
+    const callable = httpsCallable<{
+      bookingId: string;
+      vehicleId: string | null;
+    }>(this.functions, "assignVehicle");
+    return callable({ bookingId, vehicleId }).then(() => undefined);
+  }
+}
@@ -0,0 +1,32 @@
+import { Injectable } from "@angular/core";
+import { Functions, httpsCallable } from "@angular/fire/functions";
+import {
+  TemplateLocale,
+  TemplatePreviewResponse,
+} from "../models/notification-template.model";
+
+/**
+ * Previews of the notification templates, rendered server-side with sample
+ * booking data
+ */
+@Injectable({
+  providedIn: "root",
+})
+export class NotificationTemplatesService {
+  constructor(private functions: Functions) {}
+
+  /**
+   * Without a template, only lists the available templates and locales
+   */
+  async previewTemplate(
+    template?: string,
+    locale?: TemplateLocale
+  ): Promise<TemplatePreviewResponse> {
+    const callable = httpsCallable<
+      { template?: string; locale?: TemplateLocale },
+      TemplatePreviewResponse
+    >(this.functions, "previewNotificationTemplate");
+    const result = await callable({ template, locale });
+    return result.data;
+  }
+}
@@ -0,0 +1,49 @@
+import { Injectable } from "@angular/core";
+import {
+  Firestore,
+  collection,
+  collectionData,
+  query,
+  orderBy,
+} from "@angular/fire/firestore";
+import { Functions, httpsCallable } from "@angular/fire/functions";
+import { Observable } from "rxjs";
+import {
+  Payment,
+  PaymentFormData,
+  PaymentStatus,
+} from "../models/booking.model";
+
+@Injectable({
+  providedIn: "root",
+})
+export class PaymentService {
+  constructor(private firestore: Firestore, private functions: Functions) {}
+
+  getPayments(bookingId: string): Observable<Payment[]> {
+    const paymentsRef = collection(
+      this.firestore,
+      "bookings",
+      bookingId,
+      "payments"
+    );
+    const q = query(paymentsRef, orderBy("receivedAt", "desc"));
+    return collectionData(q, { idField: "id" }) as Observable<Payment[]>;
+  }
+
+  /**
+   * Payments are written by the recordPayment function, which also keeps the
+   * booking's running total and payment status up to date.
+   */
+  async recordPayment(
+    bookingId: string,
+    payment: PaymentFormData
+  ): Promise<{ amountPaid: number; paymentStatus: PaymentStatus }> {
+    const callable = httpsCallable<
+      PaymentFormData & { bookingId: string },
+      { amountPaid: number; paymentStatus: PaymentStatus }
+    >(this.functions, "recordPayment");
+    const result = await callable({ ...payment, bookingId });
+    return result.data;
+  }
+}
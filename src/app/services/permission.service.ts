@@ -0,0 +1,50 @@
+import { Injectable } from "@angular/core";
+import { Functions, httpsCallable } from "@angular/fire/functions";
+import { Observable, from, of } from "rxjs";
+import { catchError, map, shareReplay, switchMap } from "rxjs/operators";
+import { AuthService } from "./auth.service";
+import { Permission, UserPermissions } from "../models/permission.model";
+
+/**
+ * Permissions of the signed-in staff user, loaded once per sign-in from the
+ * getUserPermissions function. Used to hide or disable dashboard actions; the
+ * functions and Firestore rules enforce the same permissions server-side.
+ */
+@Injectable({
+  providedIn: "root",
+})
+export class PermissionService {
+  private readonly permissions$: Observable<UserPermissions | null>;
+
+  constructor(private authService: AuthService, private functions: Functions) {
+    this.permissions$ = this.authService.getCurrentUser().pipe(
+      switchMap((user) => (user ? from(this.fetchPermissions()) : of(null))),
+      catchError((error) => {
+        console.error("Error loading permissions:", error);
+        return of(null);
+      }),
+      shareReplay(1)
+    );
+  }
+
+  getPermissions(): Observable<UserPermissions | null> {
+    return this.permissions$;
+  }
+
+  hasPermission(permission: Permission): Observable<boolean> {
+    return this.permissions$.pipe(
+      map(
+        (result) => !!result?.admin && result.permissions.includes(permission)
+      )
+    );
+  }
+
+  private async fetchPermissions(): Promise<UserPermissions> {
+    const callable = httpsCallable<void, UserPermissions>(
+      this.functions,
+      "getUserPermissions"
+    );
+    const result = await callable();
+    return result.data;
+  }
+}
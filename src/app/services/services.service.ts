@@ -1,98 +1,229 @@
 import { Injectable } from "@angular/core";
-import { Service } from "../models/booking.model";
+import {
+  Firestore,
+  collection,
+  collectionData,
+  doc,
+  docData,
+  getDoc,
+  query,
+  orderBy,
+  setDoc,
+  updateDoc,
+  where,
+  writeBatch,
+} from "@angular/fire/firestore";
+import { Observable } from "rxjs";
+import { Service, ServiceFormData } from "../models/booking.model";
+
+// Initial catalog, imported once from the admin services screen when the
+// services collection is empty.
+const DEFAULT_SERVICES: Array<ServiceFormData & { id: string }> = [
+  {
+    id: "car-rental",
+    name: "Car Rental",
+    description:
+      "Explore Mauritius at your own pace with our reliable and affordable car rental service. Perfect for families and groups who want freedom to travel.",
+    price: 2500,
+    duration: "Per day",
+    imageUrl: "assets/service-images/car-rental.svg",
+    features: [
+      "Comprehensive insurance",
+      "24/7 roadside assistance",
+      "GPS navigation included",
+      "Unlimited mileage",
+      "Free delivery to hotels",
+    ],
+  },
+  {
+    id: "sightseeing-tour",
+    name: "Sightseeing Tour",
+    description:
+      "Discover Mauritius with our experienced local guide. Visit the most beautiful places including Chamarel, Black River Gorges, and more.",
+    price: 3500,
+    duration: "Full day (8 hours)",
+    imageUrl: "assets/service-images/sightseeing-tour.svg",
+    features: [
+      "Professional local guide",
+      "Visit 4-5 attractions",
+      "Lunch included",
+      "Hotel pickup/drop-off",
+      "Small group tours (max 6 people)",
+    ],
+  },
+  {
+    id: "catamaran-trip",
+    name: "Catamaran Trip",
+    description:
+      "Enjoy a relaxing day on the crystal-clear waters of Mauritius. Snorkeling, swimming, and a delicious BBQ lunch on board.",
+    price: 4500,
+    duration: "Full day (6 hours)",
+    imageUrl: "assets/service-images/catamaran-trip.svg",
+    features: [
+      "Comfortable catamaran",
+      "Snorkeling equipment",
+      "BBQ lunch on board",
+      "Soft drinks included",
+      "Visit to beautiful lagoons",
+    ],
+  },
+  {
+    id: "ile-aux-cerfs",
+    name: "Ile Aux Cerfs Island Trip",
+    description:
+      "Visit the famous Ile Aux Cerfs island with its pristine white sand beaches and crystal clear waters. Perfect for relaxation and water activities.",
+    price: 4000,
+    duration: "Full day (7 hours)",
+    imageUrl: "assets/service-images/ile-aux-cerfs.svg",
+    features: [
+      "Boat transfer included",
+      "Beach access",
+      "Water sports available",
+      "Lunch at island restaurant",
+      "Return transfer",
+    ],
+  },
+  {
+    id: "airport-transfer",
+    name: "Airport Transfers",
+    description:
+      "Comfortable and reliable airport transfer service. We'll pick you up from the airport and take you to your hotel or anywhere in Mauritius.",
+    price: 1500,
+    duration: "One way",
+    imageUrl: "assets/service-images/airport-transfer.svg",
+    features: [
+      "Meet & greet service",
+      "Air-conditioned vehicles",
+      "Flight tracking",
+      "Luggage assistance",
+      "24/7 availability",
+    ],
+  },
+];
 
 @Injectable({
   providedIn: "root",
 })
 export class ServicesService {
-  private services: Service[] = [
-    {
-      id: "car-rental",
-      name: "Car Rental",
-      description:
-        "Explore Mauritius at your own pace with our reliable and affordable car rental service. Perfect for families and groups who want freedom to travel.",
-      price: 2500,
-      duration: "Per day",
-      imageUrl: "assets/service-images/car-rental.svg",
-      features: [
-        "Comprehensive insurance",
-        "24/7 roadside assistance",
-        "GPS navigation included",
-        "Unlimited mileage",
-        "Free delivery to hotels",
-      ],
-    },
-    {
-      id: "sightseeing-tour",
-      name: "Sightseeing Tour",
-      description:
-        "Discover Mauritius with our experienced local guide. Visit the most beautiful places including Chamarel, Black River Gorges, and more.",
-      price: 3500,
-      duration: "Full day (8 hours)",
-      imageUrl: "assets/service-images/sightseeing-tour.svg",
-      features: [
-        "Professional local guide",
-        "Visit 4-5 attractions",
-        "Lunch included",
-        "Hotel pickup/drop-off",
-        "Small group tours (max 6 people)",
-      ],
-    },
-    {
-      id: "catamaran-trip",
-      name: "Catamaran Trip",
-      description:
-        "Enjoy a relaxing day on the crystal-clear waters of Mauritius. Snorkeling, swimming, and a delicious BBQ lunch on board.",
-      price: 4500,
-      duration: "Full day (6 hours)",
-      imageUrl: "assets/service-images/catamaran-trip.svg",
-      features: [
-        "Comfortable catamaran",
-        "Snorkeling equipment",
-        "BBQ lunch on board",
-        "Soft drinks included",
-        "Visit to beautiful lagoons",
-      ],
-    },
-    {
-      id: "ile-aux-cerfs",
-      name: "Ile Aux Cerfs Island Trip",
-      description:
-        "Visit the famous Ile Aux Cerfs island with its pristine white sand beaches and crystal clear waters. Perfect for relaxation and water activities.",
-      price: 4000,
-      duration: "Full day (7 hours)",
-      imageUrl: "assets/service-images/ile-aux-cerfs.svg",
-      features: [
-        "Boat transfer included",
-        "Beach access",
-        "Water sports available",
-        "Lunch at island restaurant",
-        "Return transfer",
-      ],
-    },
-    {
-      id: "airport-transfer",
-      name: "Airport Transfers",
-      description:
-        "Comfortable and reliable airport transfer service. We'll pick you up from the airport and take you to your hotel or anywhere in Mauritius.",
-      price: 1500,
-      duration: "One way",
-      imageUrl: "assets/service-images/airport-transfer.svg",
-      features: [
-        "Meet & greet service",
-        "Air-conditioned vehicles",
-        "Flight tracking",
-        "Luggage assistance",
-        "24/7 availability",
-      ],
-    },
-  ];
-
-  getServices(): Service[] {
-    return this.services;
+  private readonly servicesCollection = "services";
+
+  constructor(private firestore: Firestore) {}
+
+  /**
+   * Live list of active services, in display order, for the public site.
+   */
+  getServices(): Observable<Service[]> {
+    const servicesRef = collection(this.firestore, this.servicesCollection);
+    const q = query(
+      servicesRef,
+      where("active", "==", true),
+      orderBy("sortOrder", "asc")
+    );
+    return collectionData(q, { idField: "id" }) as Observable<Service[]>;
+  }
+
+  /**
+   * Live list of every service, including inactive ones, for admins.
+   */
+  getAllServices(): Observable<Service[]> {
+    const servicesRef = collection(this.firestore, this.servicesCollection);
+    const q = query(servicesRef, orderBy("sortOrder", "asc"));
+    return collectionData(q, { idField: "id" }) as Observable<Service[]>;
+  }
+
+  getServiceById(id: string): Observable<Service | undefined> {
+    const serviceRef = doc(this.firestore, this.servicesCollection, id);
+    return docData(serviceRef, { idField: "id" }) as Observable<
+      Service | undefined
+    >;
+  }
+
+  /**
+   * Create a service using a slug of its name as the document ID, so IDs such
+   * as "car-rental" stay stable and readable.
+   */
+  async createService(
+    service: ServiceFormData,
+    sortOrder: number
+  ): Promise<string> {
+    const id = this.slugify(service.name);
+    if (!id) {
+      throw new Error("Service name is required");
+    }
+
+    const serviceRef = doc(this.firestore, this.servicesCollection, id);
+    const existing = await getDoc(serviceRef);
+    if (existing.exists()) {
+      throw new Error(`A service with the ID "${id}" already exists`);
+    }
+
+    await setDoc(serviceRef, {
+      ...service,
+      active: true,
+      sortOrder,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    return id;
+  }
+
+  updateService(id: string, changes: Partial<ServiceFormData>): Promise<void> {
+    const serviceRef = doc(this.firestore, this.servicesCollection, id);
+    return updateDoc(serviceRef, { ...changes, updatedAt: new Date() });
+  }
+
+  setServiceActive(id: string, active: boolean): Promise<void> {
+    const serviceRef = doc(this.firestore, this.servicesCollection, id);
+    return updateDoc(serviceRef, { active, updatedAt: new Date() });
+  }
+
+  /**
+   * Persist a new display order; the index in the array becomes sortOrder.
+   */
+  reorderServices(ids: string[]): Promise<void> {
+    const batch = writeBatch(this.firestore);
+    ids.forEach((id, index) => {
+      batch.update(doc(this.firestore, this.servicesCollection, id), {
+        sortOrder: index,
+        updatedAt: new Date(),
+      });
+    });
+    return batch.commit();
+  }
+
+  /**
+   * Import the default catalog. Existing documents with the same IDs are left
+   * untouched.
+   */
+  async seedDefaultServices(): Promise<number> {
+    const batch = writeBatch(this.firestore);
+    let created = 0;
+
+    for (const [index, { id, ...service }] of DEFAULT_SERVICES.entries()) {
+      const serviceRef = doc(this.firestore, this.servicesCollection, id);
+      const existing = await getDoc(serviceRef);
+      if (existing.exists()) {
+        continue;
+      }
+      batch.set(serviceRef, {
+        ...service,
+        active: true,
+        sortOrder: index,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+      created++;
+    }
+
+    await batch.commit();
+    return created;
   }
 
-  getServiceById(id: string): Service | undefined {
-    return this.services.find((service) => service.id === id);
+  private slugify(name: string): string {
+    return name
+      .toLowerCase()
+      .trim()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "");
   }
 }
@@ -0,0 +1,111 @@
+import { Injectable } from "@angular/core";
+import {
+  Firestore,
+  addDoc,
+  collection,
+  collectionData,
+  doc,
+  orderBy,
+  query,
+  updateDoc,
+  where,
+} from "@angular/fire/firestore";
+import { Functions, httpsCallable } from "@angular/fire/functions";
+import { Observable } from "rxjs";
+import {
+  BookingStatus,
+  DriverJobs,
+  StaffFormData,
+  StaffMember,
+} from "../models/booking.model";
+
+/**
+ * Drivers and guides. The staff collection is edited directly; assignments
+ * and the driver's own jobs go through the functions in
+ * functions/src/staff.ts.
+ */
+@Injectable({
+  providedIn: "root",
+})
+export class StaffService {
+  private readonly staffCollection = "staff";
+
+  constructor(private firestore: Firestore, private functions: Functions) {}
+
+  getAllStaff(): Observable<StaffMember[]> {
+    const staffRef = collection(this.firestore, this.staffCollection);
+    const q = query(staffRef, orderBy("name", "asc"));
+    return collectionData(q, { idField: "id" }) as Observable<StaffMember[]>;
+  }
+
+  getActiveStaff(): Observable<StaffMember[]> {
+    const staffRef = collection(this.firestore, this.staffCollection);
+    const q = query(staffRef, where("active", "==", true));
+    return collectionData(q, { idField: "id" }) as Observable<StaffMember[]>;
+  }
+
+  async createStaff(staff: StaffFormData): Promise<string> {
+    const staffRef = await addDoc(
+      collection(this.firestore, this.staffCollection),
+      {
+        ...this.normalize(staff),
+        active: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      }
+    );
+    return staffRef.id;
+  }
+
+  updateStaff(id: string, staff: StaffFormData): Promise<void> {
+    const staffRef = doc(this.firestore, this.staffCollection, id);
+    return updateDoc(staffRef, {
+      ...this.normalize(staff),
+      updatedAt: new Date(),
+    });
+  }
+
+  setStaffActive(id: string, active: boolean): Promise<void> {
+    const staffRef = doc(this.firestore, this.staffCollection, id);
+    return updateDoc(staffRef, { active, updatedAt: new Date() });
+  }
+
+  assignStaff(bookingId: string, staffId: string | null): Promise<void> {
+    const callable = httpsCallable<{
+      bookingId: string;
+      staffId: string | null;
+    }>(this.functions, "assignStaff");
+    return callable({ bookingId, staffId }).then(() => undefined);
+  }
+
+  async getMyJobs(): Promise<DriverJobs> {
+    const callable = httpsCallable<void, DriverJobs>(
+      this.functions,
+      "getMyJobs"
+    );
+    const result = await callable();
+    return result.data;
+  }
+
+  async updateJobStatus(
+    bookingId: string,
+    status: BookingStatus
+  ): Promise<void> {
+    const callable = httpsCallable<
+      { bookingId: string; status: BookingStatus },
+      { success: boolean }
+    >(this.functions, "updateJobStatus");
+    await callable({ bookingId, status });
+  }
+
+  // The email links the record to a driver account, so it is matched
+  // case-insensitively
+  private normalize(staff: StaffFormData) {
+    return {
+      name: staff.name.trim(),
+      phone: staff.phone.trim(),
+      kind: staff.kind,
+      email: staff.email.trim().toLowerCase() || null,
+    };
+  }
+}
@@ -0,0 +1,44 @@
+import { Injectable } from "@angular/core";
+import { Firestore, doc, docData } from "@angular/fire/firestore";
+import { Functions, httpsCallable } from "@angular/fire/functions";
+import { Observable, of } from "rxjs";
+import { catchError, map, shareReplay } from "rxjs/operators";
+import {
+  DEFAULT_SYSTEM_STATUS,
+  SystemStatus,
+} from "../models/system-status.model";
+
+/**
+ * Live payments kill-switch and maintenance flag. The booking and payment
+ * functions enforce the same switches server-side.
+ */
+@Injectable({
+  providedIn: "root",
+})
+export class SystemStatusService {
+  private readonly status$: Observable<SystemStatus>;
+
+  constructor(private firestore: Firestore, private functions: Functions) {
+    const statusRef = doc(this.firestore, "system_config", "status");
+    this.status$ = docData(statusRef).pipe(
+      map((status) => ({ ...DEFAULT_SYSTEM_STATUS, ...(status || {}) })),
+      catchError((error) => {
+        console.error("Error loading system status:", error);
+        return of(DEFAULT_SYSTEM_STATUS);
+      }),
+      shareReplay(1)
+    );
+  }
+
+  getStatus(): Observable<SystemStatus> {
+    return this.status$;
+  }
+
+  async setMaintenanceMode(enabled: boolean, message?: string): Promise<void> {
+    const callable = httpsCallable<
+      { enabled: boolean; message?: string },
+      { success: boolean }
+    >(this.functions, "setMaintenanceMode");
+    await callable({ enabled, message });
+  }
+}
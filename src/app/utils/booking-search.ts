@@ -0,0 +1,68 @@
+import { Booking } from "../models/booking.model";
+
+/**
+ * Free-text booking search. Bookings are indexed by the indexBookingForSearch
+ * function (functions/src/booking-search.ts), which stores the words and
+ * word prefixes of the customer's name, email and phone plus the booking ID
+ * in searchTerms. Firestore matches one term per query, so the longest word
+ * typed is matched there and any others are checked on the returned page.
+ */
+
+// Shorter terms are not indexed
+export const MIN_SEARCH_TERM_LENGTH = 2;
+
+export interface BookingSearch {
+  // Matched against searchTerms with array-contains; null when not searching
+  term: string | null;
+  // Further words every result must also match
+  words: string[];
+}
+
+/**
+ * Lower-case words with accents removed, as the function indexes them
+ */
+export function searchWords(text: string): string[] {
+  return text
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+export function parseBookingSearch(text: string): BookingSearch {
+  const trimmed = text.trim();
+
+  // Phone numbers are indexed by their digits
+  if (/^[+\d\s().-]+$/.test(trimmed)) {
+    const digits = trimmed.replace(/\D/g, "");
+    return {
+      term: digits.length >= MIN_SEARCH_TERM_LENGTH ? digits : null,
+      words: [],
+    };
+  }
+
+  // Whole email addresses are indexed as typed
+  if (trimmed.includes("@") && !/\s/.test(trimmed)) {
+    return { term: trimmed.toLowerCase(), words: [] };
+  }
+
+  const words = searchWords(trimmed).sort((a, b) => b.length - a.length);
+  if (!words.length || words[0].length < MIN_SEARCH_TERM_LENGTH) {
+    return { term: null, words: [] };
+  }
+  return { term: words[0], words: words.slice(1) };
+}
+
+/**
+ * Whether every word starts one of the words of the booking's customer
+ * name or email
+ */
+export function matchesSearchWords(booking: Booking, words: string[]): boolean {
+  const bookingWords = searchWords(
+    `${booking.customerName || ""} ${booking.customerEmail || ""}`
+  );
+  return words.every((word) =>
+    bookingWords.some((bookingWord) => bookingWord.startsWith(word))
+  );
+}
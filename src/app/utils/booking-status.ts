@@ -0,0 +1,58 @@
+import { BookingStatus } from "../models/booking.model";
+
+/**
+ * Booking lifecycle as shown in the dashboard. The transition map mirrors
+ * functions/src/booking-lifecycle.ts, which enforces it on every change.
+ */
+
+export const BOOKING_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  pending: ["quoted", "deposit_paid", "confirmed", "cancelled", "suspended"],
+  quoted: ["deposit_paid", "confirmed", "cancelled", "suspended"],
+  deposit_paid: ["confirmed", "cancelled", "suspended"],
+  confirmed: ["in_progress", "no_show", "cancelled", "suspended"],
+  in_progress: ["completed"],
+  completed: [],
+  no_show: [],
+  cancelled: [],
+  suspended: ["pending", "cancelled"],
+};
+
+export const BOOKING_STATUSES = Object.keys(
+  BOOKING_TRANSITIONS
+) as BookingStatus[];
+
+// Statuses counted towards revenue
+export const REVENUE_STATUSES: BookingStatus[] = [
+  "confirmed",
+  "in_progress",
+  "completed",
+];
+
+export const BOOKING_STATUS_LABELS: Record<BookingStatus, string> = {
+  pending: "Pending",
+  quoted: "Quoted",
+  deposit_paid: "Deposit Paid",
+  confirmed: "Confirmed",
+  in_progress: "In Progress",
+  completed: "Completed",
+  no_show: "No Show",
+  cancelled: "Cancelled",
+  suspended: "Suspended",
+};
+
+// Button text for moving a booking into each status
+export const BOOKING_STATUS_ACTIONS: Record<BookingStatus, string> = {
+  pending: "Reopen",
+  quoted: "Mark Quoted",
+  deposit_paid: "Deposit Received",
+  confirmed: "Confirm",
+  in_progress: "Start",
+  completed: "Complete",
+  no_show: "No Show",
+  cancelled: "Cancel",
+  suspended: "Suspend",
+};
+
+export function nextStatuses(status: BookingStatus): BookingStatus[] {
+  return BOOKING_TRANSITIONS[status] || [];
+}
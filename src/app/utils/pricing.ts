@@ -0,0 +1,48 @@
+import { Booking, PriceQuote, Service } from "../models/booking.model";
+
+/**
+ * Client-side pricing rules. Prices come from the Firestore services catalog;
+ * the per-day rule mirrors functions/src/pricing.ts, which stores the
+ * authoritative quote on each booking.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Services charged per day of the rental period rather than per booking
+const PER_DAY_SERVICES = ["Car Rental"];
+
+/**
+ * Number of rental days between two yyyy-mm-dd dates, counting both ends
+ */
+export function countRentalDays(startDate?: string, endDate?: string): number {
+  if (!startDate || !endDate) return 0;
+  const start = new Date(startDate);
+  const end = new Date(endDate);
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) return 0;
+  const days = Math.floor((end.getTime() - start.getTime()) / DAY_MS) + 1;
+  return days > 0 ? days : 0;
+}
+
+export function quoteService(
+  service: Service,
+  startDate?: string,
+  endDate?: string
+): PriceQuote {
+  const units = PER_DAY_SERVICES.includes(service.name)
+    ? countRentalDays(startDate, endDate)
+    : 1;
+  return {
+    unitPrice: service.price,
+    units,
+    total: service.price * units,
+    currency: "MUR",
+  };
+}
+
+/**
+ * Amount still owed on a booking, or null when it has no quote
+ */
+export function balanceDue(booking: Booking): number | null {
+  if (!booking.quote) return null;
+  return Math.max(booking.quote.total - (booking.amountPaid || 0), 0);
+}
@@ -0,0 +1,53 @@
+import { Booking } from "../models/booking.model";
+
+/**
+ * Day arithmetic for the schedule. Service dates are stored as midnight UTC
+ * of the day chosen on the booking form, so days are handled as yyyy-mm-dd
+ * keys in UTC.
+ */
+
+// Mirrors BOOKING_CONFIG.MAX_RENTAL_DAYS in functions/src/bookings.ts
+export const MAX_RENTAL_DAYS = 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * yyyy-mm-dd key of a Firestore Timestamp, Date or date string
+ */
+export function dayKeyOf(value: any): string {
+  const date =
+    typeof value?.toDate === "function" ? value.toDate() : new Date(value);
+  return isNaN(date.getTime()) ? "" : date.toISOString().split("T")[0];
+}
+
+export function addDays(dayKey: string, days: number): string {
+  return dayKeyOf(Date.parse(`${dayKey}T00:00:00Z`) + days * DAY_MS);
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round(
+    (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS
+  );
+}
+
+// Weeks start on Monday
+export function startOfWeek(dayKey: string): string {
+  const weekday = new Date(`${dayKey}T00:00:00Z`).getUTCDay();
+  return addDays(dayKey, -((weekday + 6) % 7));
+}
+
+// Today in Mauritius
+export function todayKey(): string {
+  return new Date().toLocaleDateString("en-CA", {
+    timeZone: "Indian/Mauritius",
+  });
+}
+
+/**
+ * First and last day of a booking: the rental period, or the booking date
+ */
+export function bookingDays(booking: Booking): { start: string; end: string } {
+  const start = dayKeyOf(booking.rentalStart || booking.bookingDate);
+  const end = booking.rentalEnd ? dayKeyOf(booking.rentalEnd) : start;
+  return { start, end: end < start ? start : end };
+}
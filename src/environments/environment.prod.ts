@@ -27,4 +27,8 @@ export const environment = {
   },
   // Production owner WhatsApp number for wa.me (E.164 without '+')
   ownerWhatsAppNumber: "23057071414",
+  // Number registered with the WhatsApp Cloud API (E.164 without '+'). When
+  // set, the chat and booking form message it instead, so the conversation
+  // reaches the whatsappWebhook function and is threaded onto the booking.
+  whatsAppBusinessNumber: "",
 };
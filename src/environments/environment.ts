@@ -27,4 +27,8 @@ export const environment = {
   },
   // Local/dev owner WhatsApp number for wa.me (E.164 without '+')
   ownerWhatsAppNumber: "27658623499",
+  // Number registered with the WhatsApp Cloud API (E.164 without '+'). When
+  // set, the chat and booking form message it instead, so the conversation
+  // reaches the whatsappWebhook function and is threaded onto the booking.
+  whatsAppBusinessNumber: "",
 };